@@ -3,14 +3,21 @@ import { useSupabase } from '@/hooks/use-supabase'
 import { useProfile } from '@/hooks/use-profile'
 import { Spinner } from '@/components/ui/spinner'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Button } from '@/components/ui/button'
 import { OtpAuth } from '@/components/auth/otp-auth'
 import { AdminLayout } from '@/layouts/admin-layout'
+import { StudentLayout } from '@/layouts/student-layout'
 import { DashboardPage } from '@/pages/admin/dashboard'
 import { MoviesPage } from '@/pages/admin/movies'
+import { AuditoriumsPage } from '@/pages/admin/auditoriums'
 import { ScreeningsPage } from '@/pages/admin/screenings'
 import { ReservationsPage } from '@/pages/admin/reservations'
 import { AttendancePage } from '@/pages/admin/attendance'
+import { UsersPage } from '@/pages/admin/users'
+import { TrashPage } from '@/pages/admin/trash'
+import { AuditPage } from '@/pages/admin/audit'
+import { BillboardPage } from '@/pages/student/billboard'
+import { TicketsPage } from '@/pages/student/tickets'
+import { canAccessPanel, hasRole } from '@/lib/roles'
 
 function FullScreenLoader() {
   return (
@@ -27,7 +34,7 @@ function AuthGate() {
         <CardHeader>
           <CardTitle>Inicia sesión</CardTitle>
           <CardDescription>
-            Accede al panel administrativo del Cine ULEAM con tu correo institucional.
+            Accede al Cine ULEAM con tu correo institucional para reservar o administrar funciones.
           </CardDescription>
         </CardHeader>
         <CardContent className="flex flex-col gap-4">
@@ -38,27 +45,6 @@ function AuthGate() {
   )
 }
 
-function AccessDenied() {
-  const { signOut } = useSupabase()
-
-  return (
-    <div className="flex min-h-screen items-center justify-center bg-background px-4">
-      <Card className="w-full max-w-lg">
-        <CardHeader>
-          <CardTitle>Acceso restringido</CardTitle>
-          <CardDescription>
-            Tu cuenta no tiene permisos de administrador. Solicita acceso al equipo del cine o
-            cierra sesión para ingresar con otra cuenta.
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="flex flex-col items-start gap-3 sm:flex-row sm:items-center">
-          <Button onClick={() => void signOut()}>Cerrar sesión</Button>
-        </CardContent>
-      </Card>
-    </div>
-  )
-}
-
 function App() {
   const { user, loading: authLoading } = useSupabase()
   const { profile, loading: profileLoading } = useProfile()
@@ -71,25 +57,41 @@ function App() {
     return <AuthGate />
   }
 
-  const isAdmin = profile?.role === 'admin'
-
-  if (!isAdmin) {
-    return <AccessDenied />
-  }
+  const isAdmin = hasRole(profile?.role, 'admin')
+  const homePath = isAdmin
+    ? '/admin/dashboard'
+    : canAccessPanel(profile?.role)
+      ? '/admin/attendance'
+      : '/student/billboard'
 
   return (
     <BrowserRouter>
       <Routes>
-        <Route path="/" element={<Navigate to="/admin/dashboard" replace />} />
-        <Route path="/admin" element={<AdminLayout />}>
-          <Route index element={<Navigate to="dashboard" replace />} />
-          <Route path="dashboard" element={<DashboardPage />} />
-          <Route path="movies" element={<MoviesPage />} />
-          <Route path="screenings" element={<ScreeningsPage />} />
-          <Route path="reservations" element={<ReservationsPage />} />
-          <Route path="attendance" element={<AttendancePage />} />
+        <Route path="/" element={<Navigate to={homePath} replace />} />
+        <Route path="/student" element={<StudentLayout />}>
+          <Route index element={<Navigate to="billboard" replace />} />
+          <Route path="billboard" element={<BillboardPage />} />
+          <Route path="tickets" element={<TicketsPage />} />
         </Route>
-        <Route path="*" element={<Navigate to="/admin/dashboard" replace />} />
+        {canAccessPanel(profile?.role) && (
+          <Route path="/admin" element={<AdminLayout />}>
+            <Route index element={<Navigate to={homePath} replace />} />
+            <Route path="attendance" element={<AttendancePage />} />
+            {isAdmin && (
+              <>
+                <Route path="dashboard" element={<DashboardPage />} />
+                <Route path="movies" element={<MoviesPage />} />
+                <Route path="auditoriums" element={<AuditoriumsPage />} />
+                <Route path="screenings" element={<ScreeningsPage />} />
+                <Route path="reservations" element={<ReservationsPage />} />
+                <Route path="users" element={<UsersPage />} />
+                <Route path="trash" element={<TrashPage />} />
+                <Route path="audit" element={<AuditPage />} />
+              </>
+            )}
+          </Route>
+        )}
+        <Route path="*" element={<Navigate to={homePath} replace />} />
       </Routes>
     </BrowserRouter>
   )
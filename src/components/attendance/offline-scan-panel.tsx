@@ -0,0 +1,128 @@
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import type { OfflineSyncResult, useOfflineScans } from '@/hooks/use-offline-scans'
+import { CloudDownload, CloudUpload, TriangleAlert, Wifi, WifiOff } from 'lucide-react'
+
+type OfflineScanPanelProps = {
+  scans: ReturnType<typeof useOfflineScans>
+  offlineMode: boolean
+  onOfflineModeChange: (value: boolean) => void
+}
+
+const formatDateTime = (iso: string) => {
+  return new Intl.DateTimeFormat('es-EC', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  }).format(new Date(iso))
+}
+
+const describeIssue = (issue: OfflineSyncResult) => {
+  if (issue.outcome === 'conflict' && issue.conflict_scanned_at) {
+    const where = issue.conflict_device_id ? 'otro dispositivo sin conexión' : 'un escáner en línea'
+    return `Validada primero en ${where} el ${formatDateTime(issue.conflict_scanned_at)}.`
+  }
+  return issue.message
+}
+
+export function OfflineScanPanel({ scans, offlineMode, onOfflineModeChange }: OfflineScanPanelProps) {
+  const { online, manifestCount, downloadedAt, pending, pendingAttempts, issues, downloading, syncing, error } = scans
+
+  const handleDownload = async () => {
+    const { data, error } = await scans.downloadManifest()
+    if (error) {
+      toast.error(error)
+      return
+    }
+    toast.success(`Se descargaron ${data} reservas de las funciones de hoy.`)
+  }
+
+  const handleSync = async () => {
+    const { data, error } = await scans.sync()
+    // check-ins can succeed while the rejected scans fail to upload; both are reported.
+    if (error) {
+      toast.error(error)
+    }
+    if (!data || (error && data.length === 0)) {
+      return
+    }
+    const synced = data.filter((result) => result.outcome === 'synced' || result.outcome === 'already_synced').length
+    const conflicts = data.length - synced
+    if (conflicts > 0) {
+      toast.warning(`Se sincronizaron ${synced} escaneos; ${conflicts} requieren revisión.`)
+    } else {
+      toast.success(`Se sincronizaron ${synced} escaneos.`)
+    }
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          {online ? <Wifi className="h-4 w-4 text-emerald-500" /> : <WifiOff className="h-4 w-4 text-destructive" />}
+          {online ? 'Conectado' : 'Sin conexión'}
+          {pending.length > 0 && <Badge variant="secondary">{pending.length} por sincronizar</Badge>}
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="offline-mode" checked={offlineMode} onCheckedChange={onOfflineModeChange} />
+          <Label htmlFor="offline-mode" className="text-sm">
+            Validar sin conexión
+          </Label>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {downloadedAt
+          ? `${manifestCount} reservas descargadas el ${formatDateTime(downloadedAt)}.`
+          : 'Descarga las reservas de hoy antes de que falle la conexión para seguir validando en la entrada.'}
+        {!online && ' Los escaneos se guardan en este dispositivo y se sincronizan al volver la conexión.'}
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" onClick={() => void handleDownload()} disabled={!online || downloading}>
+          <CloudDownload className="mr-2 h-4 w-4" /> {downloading ? 'Descargando…' : 'Descargar reservas de hoy'}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => void handleSync()}
+          disabled={!online || syncing || pending.length + pendingAttempts === 0}
+        >
+          <CloudUpload className="mr-2 h-4 w-4" /> {syncing ? 'Sincronizando…' : 'Sincronizar'}
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {issues.length > 0 && (
+        <Alert>
+          <TriangleAlert className="h-4 w-4" />
+          <AlertTitle>Escaneos con conflicto</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 space-y-2">
+              {issues.map((issue) => (
+                <li key={issue.local_id} className="text-xs">
+                  <span className="font-medium text-foreground">
+                    {issue.scan ? `${issue.scan.attendee} · ${issue.scan.movie_title}` : issue.local_id.slice(0, 8)}
+                  </span>
+                  {issue.scan && <> — escaneado el {formatDateTime(issue.scan.scanned_at)}</>}
+                  <div>{describeIssue(issue)}</div>
+                </li>
+              ))}
+            </ul>
+            <Button size="sm" variant="ghost" className="mt-2 px-0" onClick={scans.dismissIssues}>
+              Descartar
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
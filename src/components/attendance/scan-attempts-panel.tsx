@@ -0,0 +1,142 @@
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Spinner } from '@/components/ui/spinner'
+import type { ScanAttempt, ScanAttemptAlert } from '@/hooks/use-scan-attempts'
+import { SCAN_OUTCOME_LABELS, SCAN_OUTCOME_VARIANTS } from '@/lib/scan-attempts'
+import { ShieldAlert, WifiOff } from 'lucide-react'
+
+type ScanAttemptsPanelProps = {
+  attempts: ScanAttempt[]
+  alerts: ScanAttemptAlert[]
+  loading: boolean
+  limit: number
+}
+
+const formatDateTime = (iso: string) => {
+  return new Intl.DateTimeFormat('es-EC', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  }).format(new Date(iso))
+}
+
+const personLabel = (profile: ScanAttempt['scanner']) => {
+  if (!profile) return null
+  return [profile.first_name, profile.last_name].filter(Boolean).join(' ') || profile.email || `${profile.user_id.slice(0, 8)}…`
+}
+
+const ticketLabel = (attempt: ScanAttempt) => {
+  const reservation = attempt.reservation
+  if (!reservation) return `Código ${attempt.token_fingerprint}`
+  const attendee = personLabel(reservation.profile ?? null) ?? 'Reserva'
+  return reservation.seat_label ? `${attendee} · ${reservation.seat_label}` : attendee
+}
+
+export function ScanAttemptsPanel({ attempts, alerts, loading, limit }: ScanAttemptsPanelProps) {
+  // Alerts only carry ids; the names come from the attempts already loaded.
+  const attemptByTicket = new Map<string, ScanAttempt>()
+  attempts.forEach((attempt) => {
+    const key = attempt.reservation_id ?? attempt.token_fingerprint
+    if (!attemptByTicket.has(key)) {
+      attemptByTicket.set(key, attempt)
+    }
+  })
+
+  return (
+    <div className="space-y-4">
+      {alerts.length > 0 && (
+        <Alert variant="destructive">
+          <ShieldAlert className="h-4 w-4" />
+          <AlertTitle>Posibles entradas compartidas</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 space-y-1">
+              {alerts.map((alert) => {
+                const sample = attemptByTicket.get(alert.ticket_key)
+                return (
+                  <li key={alert.ticket_key} className="text-sm">
+                    <span className="font-medium">{sample ? ticketLabel(sample) : `Código ${alert.token_fingerprint}`}</span>
+                    {' — '}
+                    {alert.attempt_count} intentos ({alert.failed_count} rechazados) desde {alert.scanner_count}{' '}
+                    {alert.scanner_count === 1 ? 'escáner' : 'escáneres'}, el último el {formatDateTime(alert.last_attempt_at)}.
+                  </li>
+                )
+              })}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Intentos de escaneo</CardTitle>
+          <CardDescription>
+            Todos los códigos leídos en la entrada, incluidos los rechazados. Se muestran los {limit} más recientes.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading && attempts.length === 0 ? (
+            <div className="flex justify-center py-10">
+              <Spinner className="h-6 w-6" />
+            </div>
+          ) : attempts.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">Aún no hay intentos registrados.</p>
+          ) : (
+            <div className="max-h-[560px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Resultado</TableHead>
+                    <TableHead>Entrada</TableHead>
+                    <TableHead className="hidden md:table-cell">Escáner</TableHead>
+                    <TableHead className="hidden lg:table-cell">Detalle</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {attempts.map((attempt) => (
+                    <TableRow key={attempt.id}>
+                      <TableCell className="whitespace-nowrap text-sm">{formatDateTime(attempt.attempted_at)}</TableCell>
+                      <TableCell>
+                        <Badge variant={SCAN_OUTCOME_VARIANTS[attempt.outcome] ?? 'secondary'}>
+                          {SCAN_OUTCOME_LABELS[attempt.outcome] ?? attempt.outcome}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div className="font-medium leading-tight">{ticketLabel(attempt)}</div>
+                        {attempt.reservation?.screening && (
+                          <div className="text-xs text-muted-foreground">
+                            {attempt.reservation.screening.movie?.title ?? 'Película eliminada'} ·{' '}
+                            {formatDateTime(attempt.reservation.screening.starts_at)}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="hidden text-sm md:table-cell">
+                        <div>{personLabel(attempt.scanner ?? null) ?? '—'}</div>
+                        {attempt.offline && (
+                          <div className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+                            <WifiOff className="h-3 w-3" /> Sin conexión · {attempt.device_id?.slice(0, 8)}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="hidden max-w-xs text-xs text-muted-foreground lg:table-cell">
+                        {attempt.message}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
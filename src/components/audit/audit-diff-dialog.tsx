@@ -0,0 +1,84 @@
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import type { AuditEntry } from '@/hooks/use-audit-log'
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_TABLE_LABELS,
+  auditDiffRows,
+  describeAuditRecord,
+  formatAuditValue,
+} from '@/lib/audit'
+
+type AuditDiffDialogProps = {
+  entry: AuditEntry | null
+  actorLabel: string
+  onOpenChange: (open: boolean) => void
+}
+
+export function AuditDiffDialog({ entry, actorLabel, onOpenChange }: AuditDiffDialogProps) {
+  const rows = entry ? auditDiffRows(entry) : []
+
+  return (
+    <Dialog open={!!entry} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        {entry && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex flex-wrap items-center gap-2">
+                {AUDIT_TABLE_LABELS[entry.table_name] ?? entry.table_name} · {describeAuditRecord(entry)}
+                <Badge variant="outline">{AUDIT_ACTION_LABELS[entry.action]}</Badge>
+              </DialogTitle>
+              <DialogDescription>
+                {actorLabel} · {formatAuditValue(entry.created_at)} · ID {entry.record_id}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="max-h-[60vh] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Campo</TableHead>
+                    {entry.action !== 'insert' && <TableHead>Antes</TableHead>}
+                    {entry.action !== 'delete' && <TableHead>Después</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.field}>
+                      <TableCell className="font-mono text-xs">{row.field}</TableCell>
+                      {entry.action !== 'insert' && (
+                        <TableCell
+                          className={row.changed ? 'bg-destructive/10 text-sm line-through' : 'text-sm'}
+                        >
+                          {formatAuditValue(row.before)}
+                        </TableCell>
+                      )}
+                      {entry.action !== 'delete' && (
+                        <TableCell className={row.changed ? 'bg-primary/10 text-sm' : 'text-sm'}>
+                          {formatAuditValue(row.after)}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import type { Screening } from '@/hooks/use-cinema'
+
+const MAX_REASON_LENGTH = 500
+
+type CancelScreeningDialogProps = {
+  screening: Screening | null
+  onOpenChange: (open: boolean) => void
+  onConfirm: (screening: Screening, reason: string) => Promise<{ data: number | null; error: string | null }>
+}
+
+export function CancelScreeningDialog({ screening, onOpenChange, onConfirm }: CancelScreeningDialogProps) {
+  const [reason, setReason] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (screening) {
+      setReason('')
+    }
+  }, [screening])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!screening) return
+
+    const trimmed = reason.trim()
+    if (!trimmed) {
+      toast.error('Indica el motivo de la cancelación.')
+      return
+    }
+
+    setSubmitting(true)
+    const result = await onConfirm(screening, trimmed)
+    setSubmitting(false)
+
+    if (result.error) {
+      toast.error(result.error)
+      return
+    }
+
+    toast.success(
+      result.data === 1
+        ? 'Función cancelada. Se canceló 1 reserva y se avisó al estudiante.'
+        : `Función cancelada. Se cancelaron ${result.data ?? 0} reservas y se avisó a los estudiantes.`
+    )
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={!!screening} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cancelar función</DialogTitle>
+          <DialogDescription>
+            {screening?.movie?.title ?? 'La función'} dejará de estar disponible. Sus reservas activas pasarán a
+            canceladas, se vaciará la lista de espera y cada estudiante recibirá un aviso con el motivo.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="cancellation-reason">Motivo</Label>
+            <Textarea
+              id="cancellation-reason"
+              rows={3}
+              maxLength={MAX_REASON_LENGTH}
+              placeholder="Ej. Falla en el proyector de la sala."
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+            />
+          </div>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <DialogClose asChild>
+              <Button type="button" variant="outline">
+                Volver
+              </Button>
+            </DialogClose>
+            <Button type="submit" variant="destructive" disabled={submitting}>
+              {submitting ? 'Cancelando...' : 'Cancelar función'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
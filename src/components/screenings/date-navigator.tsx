@@ -0,0 +1,65 @@
+import { useState } from 'react'
+import { addDays, addMonths, addWeeks } from 'date-fns'
+import { es } from 'react-day-picker/locale'
+import { Button } from '@/components/ui/button'
+import { Calendar } from '@/components/ui/calendar'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react'
+
+type DateNavigatorProps = {
+  date: Date
+  onDateChange: (date: Date) => void
+  step: 'day' | 'week' | 'month'
+  label: string
+}
+
+const STEPS = {
+  day: addDays,
+  week: addWeeks,
+  month: addMonths,
+}
+
+export function DateNavigator({ date, onDateChange, step, label }: DateNavigatorProps) {
+  const [pickerOpen, setPickerOpen] = useState(false)
+  const move = STEPS[step]
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="flex items-center gap-1">
+        <Button variant="outline" size="icon" onClick={() => onDateChange(move(date, -1))}>
+          <ChevronLeft className="h-4 w-4" />
+          <span className="sr-only">Anterior</span>
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onDateChange(new Date())}>
+          Hoy
+        </Button>
+        <Button variant="outline" size="icon" onClick={() => onDateChange(move(date, 1))}>
+          <ChevronRight className="h-4 w-4" />
+          <span className="sr-only">Siguiente</span>
+        </Button>
+      </div>
+      <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="font-medium capitalize">
+            <CalendarDays className="mr-2 h-4 w-4" /> {label}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            locale={es}
+            weekStartsOn={1}
+            selected={date}
+            defaultMonth={date}
+            onSelect={(selected) => {
+              if (selected) {
+                onDateChange(selected)
+                setPickerOpen(false)
+              }
+            }}
+          />
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Spinner } from '@/components/ui/spinner'
+import { useHolidays } from '@/hooks/use-cinema'
+import { Plus, Trash } from 'lucide-react'
+
+type HolidaysDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// holiday_date is a plain date, so it is formatted without going through the local time zone.
+const formatHolidayDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number)
+  return new Intl.DateTimeFormat('es-EC', { dateStyle: 'full' }).format(new Date(year, month - 1, day))
+}
+
+export function HolidaysDialog({ open, onOpenChange }: HolidaysDialogProps) {
+  const { data: holidays, loading, error, create, remove } = useHolidays()
+  const [holidayDate, setHolidayDate] = useState('')
+  const [name, setName] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!holidayDate || !name.trim()) {
+      toast.error('Indica la fecha y el nombre del feriado.')
+      return
+    }
+
+    setSubmitting(true)
+    const result = await create({ holiday_date: holidayDate, name })
+    setSubmitting(false)
+
+    if (result.error) {
+      toast.error(result.error)
+      return
+    }
+
+    toast.success('Feriado agregado.')
+    setHolidayDate('')
+    setName('')
+  }
+
+  const handleRemove = async (value: string) => {
+    const result = await remove(value)
+    if (result.error) {
+      toast.error(result.error)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Feriados</DialogTitle>
+          <DialogDescription>
+            Las funciones repetidas que omiten feriados no se programan en estas fechas. Solo se cargan los feriados de
+            fecha fija; agrega aquí los feriados móviles (Carnaval, Viernes Santo), los trasladados y los de años siguientes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleCreate} className="flex flex-col gap-2 sm:flex-row">
+          <Input
+            type="date"
+            value={holidayDate}
+            onChange={(event) => setHolidayDate(event.target.value)}
+            className="sm:w-44"
+          />
+          <Input value={name} onChange={(event) => setName(event.target.value)} placeholder="Nombre del feriado" />
+          <Button type="submit" variant="outline" disabled={submitting}>
+            <Plus className="mr-2 h-4 w-4" /> Agregar
+          </Button>
+        </form>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Spinner className="h-6 w-6" />
+          </div>
+        ) : holidays.length > 0 ? (
+          <ul className="divide-y text-sm">
+            {holidays.map((holiday) => (
+              <li key={holiday.holiday_date} className="flex items-center justify-between gap-2 py-2">
+                <div>
+                  <div className="font-medium">{holiday.name}</div>
+                  <div className="text-xs capitalize text-muted-foreground">
+                    {formatHolidayDate(holiday.holiday_date)}
+                  </div>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => void handleRemove(holiday.holiday_date)}>
+                  <Trash className="h-4 w-4" />
+                  <span className="sr-only">Eliminar feriado</span>
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="py-6 text-center text-sm text-muted-foreground">No hay feriados registrados.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
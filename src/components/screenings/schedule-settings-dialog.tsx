@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import type { CinemaSettings } from '@/hooks/use-cinema'
+
+const MAX_BUFFER_MINUTES = 240
+const MAX_PADDING_MINUTES = 120
+const MAX_ENTRY_MINUTES = 240
+
+type ScheduleSettings = Pick<
+  CinemaSettings,
+  'cleaning_buffer_minutes' | 'screening_padding_minutes' | 'doors_open_minutes' | 'late_entry_minutes'
+>
+
+type ScheduleSettingsDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  settings: CinemaSettings | null
+  onSave: (input: ScheduleSettings) => Promise<{ error: string | null }>
+}
+
+const parseMinutes = (value: string, max: number) => {
+  const minutes = Number(value)
+  if (value === '' || !Number.isInteger(minutes) || minutes < 0 || minutes > max) {
+    return null
+  }
+  return minutes
+}
+
+export function ScheduleSettingsDialog({ open, onOpenChange, settings, onSave }: ScheduleSettingsDialogProps) {
+  const [padding, setPadding] = useState('')
+  const [buffer, setBuffer] = useState('')
+  const [doorsOpen, setDoorsOpen] = useState('')
+  const [lateEntry, setLateEntry] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setPadding(String(settings?.screening_padding_minutes ?? ''))
+      setBuffer(String(settings?.cleaning_buffer_minutes ?? ''))
+      setDoorsOpen(String(settings?.doors_open_minutes ?? ''))
+      setLateEntry(String(settings?.late_entry_minutes ?? ''))
+    }
+  }, [
+    open,
+    settings?.screening_padding_minutes,
+    settings?.cleaning_buffer_minutes,
+    settings?.doors_open_minutes,
+    settings?.late_entry_minutes,
+  ])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const paddingMinutes = parseMinutes(padding, MAX_PADDING_MINUTES)
+    const bufferMinutes = parseMinutes(buffer, MAX_BUFFER_MINUTES)
+    const doorsOpenMinutes = parseMinutes(doorsOpen, MAX_ENTRY_MINUTES)
+    const lateEntryMinutes = parseMinutes(lateEntry, MAX_ENTRY_MINUTES)
+
+    if (paddingMinutes === null) {
+      toast.error(`Los cortos e intermedio admiten entre 0 y ${MAX_PADDING_MINUTES} minutos.`)
+      return
+    }
+    if (bufferMinutes === null) {
+      toast.error(`La limpieza admite entre 0 y ${MAX_BUFFER_MINUTES} minutos.`)
+      return
+    }
+    if (doorsOpenMinutes === null || lateEntryMinutes === null) {
+      toast.error(`La ventana de ingreso admite entre 0 y ${MAX_ENTRY_MINUTES} minutos.`)
+      return
+    }
+
+    setSubmitting(true)
+    const result = await onSave({
+      screening_padding_minutes: paddingMinutes,
+      cleaning_buffer_minutes: bufferMinutes,
+      doors_open_minutes: doorsOpenMinutes,
+      late_entry_minutes: lateEntryMinutes,
+    })
+    setSubmitting(false)
+
+    if (result.error) {
+      toast.error(result.error)
+      return
+    }
+
+    toast.success('Horarios actualizados.')
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Ajustes de horario</DialogTitle>
+          <DialogDescription>
+            La duración se aplica a las funciones próximas sin hora de fin fijada a mano; la ventana de ingreso, a
+            los escaneos en la entrada.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="screening-padding">Cortos e intermedio (minutos)</Label>
+            <Input
+              id="screening-padding"
+              type="number"
+              min={0}
+              max={MAX_PADDING_MINUTES}
+              step={5}
+              value={padding}
+              onChange={(event) => setPadding(event.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Se suman a la duración de la película.</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="cleaning-buffer">Limpieza entre funciones (minutos)</Label>
+            <Input
+              id="cleaning-buffer"
+              type="number"
+              min={0}
+              max={MAX_BUFFER_MINUTES}
+              step={5}
+              value={buffer}
+              onChange={(event) => setBuffer(event.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">La sala queda libre este tiempo antes de la siguiente función.</p>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="doors-open">Apertura de puertas</Label>
+              <Input
+                id="doors-open"
+                type="number"
+                min={0}
+                max={MAX_ENTRY_MINUTES}
+                step={5}
+                value={doorsOpen}
+                onChange={(event) => setDoorsOpen(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="late-entry">Ingreso tardío</Label>
+              <Input
+                id="late-entry"
+                type="number"
+                min={0}
+                max={MAX_ENTRY_MINUTES}
+                step={5}
+                value={lateEntry}
+                onChange={(event) => setLateEntry(event.target.value)}
+              />
+            </div>
+            <p className="col-span-2 text-xs text-muted-foreground">
+              Minutos antes y después del inicio en que se aceptan los códigos QR.
+            </p>
+          </div>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <DialogClose asChild>
+              <Button type="button" variant="outline">
+                Cancelar
+              </Button>
+            </DialogClose>
+            <Button type="submit" disabled={submitting}>
+              {submitting ? 'Guardando...' : 'Guardar'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
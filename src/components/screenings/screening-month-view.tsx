@@ -0,0 +1,147 @@
+import { createContext, useContext, useMemo, useState } from 'react'
+import { addMinutes, format, isSameMonth, isToday } from 'date-fns'
+import { es } from 'react-day-picker/locale'
+import type { DayButton } from 'react-day-picker'
+import { cn } from '@/lib/utils'
+import { Calendar } from '@/components/ui/calendar'
+import type { Screening } from '@/hooks/use-cinema'
+import {
+  SCREENING_DRAG_TYPE,
+  dayKey,
+  groupScreeningsByDay,
+  isScreeningLocked,
+  rescheduledStart,
+  type ScreeningViewHandlers,
+} from '@/lib/screening-schedule'
+
+// Screenings listed per day cell before collapsing into "+n más".
+const VISIBLE_PER_DAY = 3
+
+// Start time proposed when creating from an empty day.
+const DEFAULT_CREATE_MINUTES = 18 * 60
+
+type ScreeningMonthViewProps = ScreeningViewHandlers & {
+  screenings: Screening[]
+  date: Date
+  onDateChange: (date: Date) => void
+}
+
+type MonthViewState = ScreeningViewHandlers & {
+  month: Date
+  byDay: Map<string, Screening[]>
+  screeningsById: Map<string, Screening>
+  dropTarget: string | null
+  setDropTarget: React.Dispatch<React.SetStateAction<string | null>>
+}
+
+// The calendar renders day cells itself, so the view state reaches them through context.
+const MonthViewContext = createContext<MonthViewState | null>(null)
+
+// Replaces the calendar's day button with a drop target that lists the day's screenings.
+function MonthDay({ day, className }: React.ComponentProps<typeof DayButton>) {
+  const state = useContext(MonthViewContext)
+  if (!state) {
+    throw new Error('MonthDay must be used within a ScreeningMonthView')
+  }
+
+  const { month, byDay, screeningsById, dropTarget, setDropTarget, onSelect, onCreateAt, onReschedule } = state
+  const key = dayKey(day.date)
+  const dayScreenings = byDay.get(key) ?? []
+  const hidden = dayScreenings.length - VISIBLE_PER_DAY
+
+  return (
+    <div
+      role="button"
+      tabIndex={-1}
+      onClick={() => onCreateAt(addMinutes(day.date, DEFAULT_CREATE_MINUTES))}
+      onDragOver={(event) => {
+        event.preventDefault()
+        setDropTarget(key)
+      }}
+      onDragLeave={() => setDropTarget((current) => (current === key ? null : current))}
+      onDrop={(event) => {
+        event.preventDefault()
+        setDropTarget(null)
+        const screening = screeningsById.get(event.dataTransfer.getData(SCREENING_DRAG_TYPE))
+        if (screening) {
+          onReschedule(screening, rescheduledStart(screening, day.date, null))
+        }
+      }}
+      className={cn(
+        className,
+        'flex h-28 w-full cursor-pointer flex-col gap-1 overflow-hidden rounded-md border p-1 text-left hover:bg-muted/40',
+        !isSameMonth(day.date, month) && 'opacity-50',
+        dropTarget === key && 'bg-primary/10'
+      )}
+    >
+      <span className={cn('text-xs', isToday(day.date) && 'font-semibold text-primary')}>
+        {format(day.date, 'd')}
+      </span>
+      {dayScreenings.slice(0, VISIBLE_PER_DAY).map((screening) => (
+        <span
+          key={screening.id}
+          draggable={!isScreeningLocked(screening)}
+          onDragStart={(event) => event.dataTransfer.setData(SCREENING_DRAG_TYPE, screening.id)}
+          onClick={(event) => {
+            event.stopPropagation()
+            onSelect(screening)
+          }}
+          className={cn(
+            'truncate rounded bg-primary/10 px-1 text-[11px] leading-5',
+            isScreeningLocked(screening) ? 'opacity-60' : 'cursor-grab',
+            screening.cancelled_at && 'bg-destructive/10 line-through'
+          )}
+        >
+          {format(new Date(screening.starts_at), 'HH:mm')} {screening.movie?.title ?? 'Película eliminada'}
+        </span>
+      ))}
+      {hidden > 0 && <span className="text-[11px] text-muted-foreground">+{hidden} más</span>}
+    </div>
+  )
+}
+
+export function ScreeningMonthView({
+  screenings,
+  date,
+  onDateChange,
+  onSelect,
+  onCreateAt,
+  onReschedule,
+}: ScreeningMonthViewProps) {
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const byDay = useMemo(() => groupScreeningsByDay(screenings), [screenings])
+  const screeningsById = useMemo(() => new Map(screenings.map((screening) => [screening.id, screening])), [screenings])
+
+  const state = useMemo<MonthViewState>(
+    () => ({
+      month: date,
+      byDay,
+      screeningsById,
+      dropTarget,
+      setDropTarget,
+      onSelect,
+      onCreateAt,
+      onReschedule,
+    }),
+    [date, byDay, screeningsById, dropTarget, onSelect, onCreateAt, onReschedule]
+  )
+
+  return (
+    <MonthViewContext.Provider value={state}>
+      <Calendar
+        locale={es}
+        weekStartsOn={1}
+        month={date}
+        onMonthChange={onDateChange}
+        hideNavigation
+        className="w-full p-0 [--cell-size:--spacing(10)]"
+        classNames={{
+          root: 'w-full',
+          month_caption: 'hidden',
+          day: 'flex-1 p-0.5 align-top',
+        }}
+        components={{ DayButton: MonthDay }}
+      />
+    </MonthViewContext.Provider>
+  )
+}
@@ -0,0 +1,162 @@
+import { useMemo, useState } from 'react'
+import { addMinutes, format, startOfDay } from 'date-fns'
+import { es } from 'date-fns/locale'
+import { cn } from '@/lib/utils'
+import type { Auditorium, Screening } from '@/hooks/use-cinema'
+import {
+  SCREENING_DRAG_TYPE,
+  SLOT_MINUTES,
+  dayKey,
+  isScreeningLocked,
+  minutesIntoDay,
+  rescheduledStart,
+  screeningEndsAt,
+  visibleHours,
+  type ScreeningViewHandlers,
+} from '@/lib/screening-schedule'
+
+const HOUR_WIDTH = 96
+const ROW_HEIGHT = 56
+
+type ScreeningTimelineProps = ScreeningViewHandlers & {
+  screenings: Screening[]
+  auditoriums: Auditorium[]
+  date: Date
+}
+
+// One row per auditorium for a single day, Gantt style. Dropping a screening on another row moves it
+// to that auditorium.
+export function ScreeningTimeline({
+  screenings,
+  auditoriums,
+  date,
+  onSelect,
+  onCreateAt,
+  onReschedule,
+}: ScreeningTimelineProps) {
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const day = useMemo(() => startOfDay(date), [date])
+
+  const dayScreenings = useMemo(
+    () => screenings.filter((screening) => dayKey(screening.starts_at) === dayKey(day)),
+    [screenings, day]
+  )
+
+  // inactive auditoriums only show up when they still host something that day.
+  const rows = useMemo(
+    () =>
+      auditoriums.filter(
+        (auditorium) =>
+          auditorium.is_active || dayScreenings.some((screening) => screening.auditorium_id === auditorium.id)
+      ),
+    [auditoriums, dayScreenings]
+  )
+
+  const { first, last } = visibleHours(dayScreenings)
+  const hours = Array.from({ length: last - first + 1 }, (_, index) => first + index)
+  const slotsPerHour = 60 / SLOT_MINUTES
+  const slotWidth = HOUR_WIDTH / slotsPerHour
+  const screeningsById = useMemo(() => new Map(screenings.map((screening) => [screening.id, screening])), [screenings])
+
+  const handleDrop = (event: React.DragEvent, auditoriumId: string, minutes: number) => {
+    event.preventDefault()
+    setDropTarget(null)
+    const screening = screeningsById.get(event.dataTransfer.getData(SCREENING_DRAG_TYPE))
+    if (screening) {
+      onReschedule(screening, rescheduledStart(screening, day, minutes), auditoriumId)
+    }
+  }
+
+  if (rows.length === 0) {
+    return <p className="py-10 text-center text-sm text-muted-foreground">No hay salas activas.</p>
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div style={{ width: `calc(10rem + ${hours.length * HOUR_WIDTH}px)` }}>
+        <div className="flex border-b">
+          <div className="sticky left-0 z-10 w-40 shrink-0 bg-background" />
+          {hours.map((hour) => (
+            <div
+              key={hour}
+              style={{ width: HOUR_WIDTH }}
+              className="shrink-0 border-l px-1 pb-1 text-xs text-muted-foreground"
+            >
+              {String(hour).padStart(2, '0')}:00
+            </div>
+          ))}
+        </div>
+
+        {rows.map((auditorium) => (
+          <div key={auditorium.id} className="flex border-b" style={{ height: ROW_HEIGHT }}>
+            <div className="sticky left-0 z-10 flex w-40 shrink-0 flex-col justify-center bg-background pr-2">
+              <span className="truncate text-sm font-medium">{auditorium.name}</span>
+              <span className="text-xs text-muted-foreground">{auditorium.capacity} asientos</span>
+            </div>
+            <div className="relative flex">
+              {hours.flatMap((hour) =>
+                Array.from({ length: slotsPerHour }, (_, slot) => {
+                  const minutes = hour * 60 + slot * SLOT_MINUTES
+                  const key = `${auditorium.id}-${minutes}`
+                  return (
+                    <button
+                      key={key}
+                      type="button"
+                      aria-label={`Nueva función en ${auditorium.name} a las ${format(addMinutes(day, minutes), 'HH:mm')}`}
+                      style={{ width: slotWidth }}
+                      className={cn(
+                        'h-full shrink-0 border-l border-dashed border-muted hover:bg-muted/50',
+                        slot === 0 && 'border-solid',
+                        dropTarget === key && 'bg-primary/10'
+                      )}
+                      onClick={() => onCreateAt(addMinutes(day, minutes), auditorium.id)}
+                      onDragOver={(event) => {
+                        event.preventDefault()
+                        setDropTarget(key)
+                      }}
+                      onDragLeave={() => setDropTarget((current) => (current === key ? null : current))}
+                      onDrop={(event) => handleDrop(event, auditorium.id, minutes)}
+                    />
+                  )
+                })
+              )}
+              {dayScreenings
+                .filter((screening) => screening.auditorium_id === auditorium.id)
+                .map((screening) => {
+                  const start = minutesIntoDay(day, screening.starts_at)
+                  const end = Math.max(minutesIntoDay(day, screeningEndsAt(screening)), start + SLOT_MINUTES)
+                  const locked = isScreeningLocked(screening)
+                  return (
+                    <div
+                      key={screening.id}
+                      role="button"
+                      tabIndex={0}
+                      draggable={!locked}
+                      onDragStart={(event) => event.dataTransfer.setData(SCREENING_DRAG_TYPE, screening.id)}
+                      onClick={() => onSelect(screening)}
+                      onKeyDown={(event) => event.key === 'Enter' && onSelect(screening)}
+                      style={{
+                        left: ((start - first * 60) / 60) * HOUR_WIDTH,
+                        width: ((end - start) / 60) * HOUR_WIDTH,
+                      }}
+                      className={cn(
+                        'absolute inset-y-1 overflow-hidden rounded-md border bg-primary/10 px-2 py-1 text-xs leading-tight',
+                        locked ? 'cursor-pointer opacity-60' : 'cursor-grab active:cursor-grabbing',
+                        screening.cancelled_at && 'border-destructive/50 bg-destructive/10 line-through'
+                      )}
+                    >
+                      <div className="truncate font-medium">{screening.movie?.title ?? 'Película eliminada'}</div>
+                      <div className="truncate text-muted-foreground">
+                        {format(new Date(screening.starts_at), 'HH:mm', { locale: es })} –{' '}
+                        {format(new Date(screeningEndsAt(screening)), 'HH:mm', { locale: es })}
+                      </div>
+                    </div>
+                  )
+                })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
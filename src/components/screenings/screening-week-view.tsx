@@ -0,0 +1,178 @@
+import { useMemo, useState } from 'react'
+import { addDays, addMinutes, format, isToday, startOfWeek } from 'date-fns'
+import { es } from 'date-fns/locale'
+import { cn } from '@/lib/utils'
+import type { Screening } from '@/hooks/use-cinema'
+import {
+  SCREENING_DRAG_TYPE,
+  SLOT_MINUTES,
+  dayKey,
+  groupScreeningsByDay,
+  isScreeningLocked,
+  minutesIntoDay,
+  rescheduledStart,
+  screeningEndsAt,
+  visibleHours,
+  type ScreeningViewHandlers,
+} from '@/lib/screening-schedule'
+
+const HOUR_HEIGHT = 48
+
+type ScreeningWeekViewProps = ScreeningViewHandlers & {
+  screenings: Screening[]
+  date: Date
+}
+
+type PositionedScreening = {
+  screening: Screening
+  top: number
+  height: number
+  lane: number
+}
+
+// Stacks overlapping screenings of a day (different auditoriums) side by side.
+const layoutDay = (screenings: Screening[], day: Date, firstHour: number) => {
+  const laneEnds: number[] = []
+  const positioned: PositionedScreening[] = []
+
+  for (const screening of [...screenings].sort((a, b) => a.starts_at.localeCompare(b.starts_at))) {
+    const start = minutesIntoDay(day, screening.starts_at)
+    const end = Math.max(minutesIntoDay(day, screeningEndsAt(screening)), start + SLOT_MINUTES)
+    let lane = laneEnds.findIndex((laneEnd) => laneEnd <= start)
+    if (lane === -1) {
+      lane = laneEnds.length
+      laneEnds.push(end)
+    } else {
+      laneEnds[lane] = end
+    }
+    positioned.push({
+      screening,
+      top: ((start - firstHour * 60) / 60) * HOUR_HEIGHT,
+      height: ((end - start) / 60) * HOUR_HEIGHT,
+      lane,
+    })
+  }
+
+  return { positioned, lanes: Math.max(laneEnds.length, 1) }
+}
+
+export function ScreeningWeekView({ screenings, date, onSelect, onCreateAt, onReschedule }: ScreeningWeekViewProps) {
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+  const days = useMemo(() => {
+    const weekStart = startOfWeek(date, { weekStartsOn: 1 })
+    return Array.from({ length: 7 }, (_, index) => addDays(weekStart, index))
+  }, [date])
+
+  const byDay = useMemo(() => groupScreeningsByDay(screenings), [screenings])
+
+  const weekScreenings = useMemo(
+    () => days.flatMap((day) => byDay.get(dayKey(day)) ?? []),
+    [days, byDay]
+  )
+
+  const { first, last } = visibleHours(weekScreenings)
+  const hours = Array.from({ length: last - first + 1 }, (_, index) => first + index)
+  const slotsPerHour = 60 / SLOT_MINUTES
+  const screeningsById = useMemo(() => new Map(screenings.map((screening) => [screening.id, screening])), [screenings])
+
+  const handleDrop = (event: React.DragEvent, day: Date, minutes: number) => {
+    event.preventDefault()
+    setDropTarget(null)
+    const screening = screeningsById.get(event.dataTransfer.getData(SCREENING_DRAG_TYPE))
+    if (screening) {
+      onReschedule(screening, rescheduledStart(screening, day, minutes))
+    }
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="grid min-w-[760px] grid-cols-[3.5rem_repeat(7,minmax(0,1fr))]">
+        <div />
+        {days.map((day) => (
+          <div
+            key={day.toISOString()}
+            className={cn(
+              'border-b px-2 pb-2 text-center text-sm capitalize',
+              isToday(day) && 'font-semibold text-primary'
+            )}
+          >
+            {format(day, 'EEE d', { locale: es })}
+          </div>
+        ))}
+
+        <div className="relative">
+          {hours.map((hour) => (
+            <div key={hour} style={{ height: HOUR_HEIGHT }} className="pr-2 text-right text-xs text-muted-foreground">
+              {String(hour).padStart(2, '0')}:00
+            </div>
+          ))}
+        </div>
+
+        {days.map((day) => {
+          const { positioned, lanes } = layoutDay(byDay.get(dayKey(day)) ?? [], day, first)
+          return (
+            <div key={day.toISOString()} className="relative border-l">
+              {hours.flatMap((hour) =>
+                Array.from({ length: slotsPerHour }, (_, slot) => {
+                  const minutes = hour * 60 + slot * SLOT_MINUTES
+                  const key = `${dayKey(day)}-${minutes}`
+                  return (
+                    <button
+                      key={key}
+                      type="button"
+                      aria-label={`Nueva función el ${format(addMinutes(day, minutes), "EEEE d 'a las' HH:mm", { locale: es })}`}
+                      style={{ height: HOUR_HEIGHT / slotsPerHour }}
+                      className={cn(
+                        'block w-full border-b border-dashed border-muted hover:bg-muted/50',
+                        slot === slotsPerHour - 1 && 'border-solid',
+                        dropTarget === key && 'bg-primary/10'
+                      )}
+                      onClick={() => onCreateAt(addMinutes(day, minutes))}
+                      onDragOver={(event) => {
+                        event.preventDefault()
+                        setDropTarget(key)
+                      }}
+                      onDragLeave={() => setDropTarget((current) => (current === key ? null : current))}
+                      onDrop={(event) => handleDrop(event, day, minutes)}
+                    />
+                  )
+                })
+              )}
+              {positioned.map(({ screening, top, height, lane }) => {
+                const locked = isScreeningLocked(screening)
+                return (
+                  <div
+                    key={screening.id}
+                    role="button"
+                    tabIndex={0}
+                    draggable={!locked}
+                    onDragStart={(event) => event.dataTransfer.setData(SCREENING_DRAG_TYPE, screening.id)}
+                    onClick={() => onSelect(screening)}
+                    onKeyDown={(event) => event.key === 'Enter' && onSelect(screening)}
+                    style={{
+                      top,
+                      height,
+                      left: `${(lane / lanes) * 100}%`,
+                      width: `${100 / lanes}%`,
+                    }}
+                    className={cn(
+                      'absolute overflow-hidden rounded-md border bg-primary/10 px-1.5 py-1 text-xs leading-tight',
+                      locked ? 'cursor-pointer opacity-60' : 'cursor-grab active:cursor-grabbing',
+                      screening.cancelled_at && 'border-destructive/50 bg-destructive/10 line-through'
+                    )}
+                  >
+                    <div className="font-medium">{screening.movie?.title ?? 'Película eliminada'}</div>
+                    <div className="text-muted-foreground">
+                      {format(new Date(screening.starts_at), 'HH:mm')} · {screening.auditorium}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react'
+import { Timer } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+type HoldCountdownProps = {
+  expiresAt: string
+  onExpire: () => void
+  className?: string
+}
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+export function HoldCountdown({ expiresAt, onExpire, className }: HoldCountdownProps) {
+  const [now, setNow] = useState(() => Date.now())
+  const remaining = Math.max(new Date(expiresAt).getTime() - now, 0)
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => window.clearInterval(interval)
+  }, [])
+
+  useEffect(() => {
+    if (remaining === 0) {
+      onExpire()
+    }
+  }, [onExpire, remaining])
+
+  return (
+    <div
+      role="timer"
+      className={cn(
+        'inline-flex items-center gap-1.5 text-sm font-medium tabular-nums',
+        remaining < 60_000 ? 'text-destructive' : 'text-muted-foreground',
+        className
+      )}
+    >
+      <Timer className="h-4 w-4" /> Asiento retenido por {formatRemaining(remaining)}
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+import { useMemo } from 'react'
+import { Accessibility } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { buildSeatRows, type SeatCell, type SeatLayout } from '@/lib/seat-map'
+
+export type Seat = Extract<SeatCell, { kind: 'seat' }>
+
+export type SeatState = 'available' | 'selected' | 'taken' | 'held' | 'blocked'
+
+const STATE_CLASSES: Record<SeatState, string> = {
+  available: 'border-primary/40 bg-background hover:bg-primary/10',
+  selected: 'border-primary bg-primary text-primary-foreground',
+  taken: 'border-muted bg-muted text-muted-foreground',
+  held: 'border-amber-500/60 bg-amber-500/20 text-amber-700 dark:text-amber-300',
+  blocked: 'border-dashed border-muted-foreground/30 bg-transparent text-muted-foreground/40',
+}
+
+const SEAT_STATE_LABELS: Record<SeatState, string> = {
+  available: 'Disponible',
+  selected: 'Seleccionado',
+  taken: 'Ocupado',
+  held: 'En proceso',
+  blocked: 'Bloqueado',
+}
+
+const defaultSeatState = (seat: Seat): SeatState => (seat.blocked ? 'blocked' : 'available')
+
+const defaultIsInteractive = (_seat: Seat, state: SeatState) => state === 'available' || state === 'selected'
+
+type SeatMapProps = {
+  layout: SeatLayout
+  getSeatState?: (seat: Seat) => SeatState
+  isSeatInteractive?: (seat: Seat, state: SeatState) => boolean
+  onSeatClick?: (seat: Seat) => void
+  className?: string
+}
+
+export function SeatMap({
+  layout,
+  getSeatState = defaultSeatState,
+  isSeatInteractive = defaultIsInteractive,
+  onSeatClick,
+  className,
+}: SeatMapProps) {
+  const rows = useMemo(() => buildSeatRows(layout), [layout])
+
+  return (
+    <div className={cn('overflow-x-auto', className)}>
+      <div className="mx-auto flex w-max flex-col items-center gap-1 p-2">
+        <div className="mb-3 h-1.5 w-full rounded-full bg-muted-foreground/30" />
+        <span className="mb-2 text-xs uppercase tracking-widest text-muted-foreground">Pantalla</span>
+        {rows.map((row) =>
+          row.kind === 'aisle' ? (
+            <div key={row.key} className="h-3" />
+          ) : (
+            <div key={row.label} className="flex items-center gap-1">
+              <span className="w-5 text-center text-xs font-medium text-muted-foreground">{row.label}</span>
+              {row.cells.map((cell) => {
+                if (cell.kind === 'aisle') {
+                  return <span key={cell.key} className="w-3" />
+                }
+                const state = getSeatState(cell)
+                const interactive = !!onSeatClick && isSeatInteractive(cell, state)
+                return (
+                  <button
+                    key={cell.label}
+                    type="button"
+                    disabled={!interactive}
+                    onClick={() => onSeatClick?.(cell)}
+                    title={`${cell.label} · ${SEAT_STATE_LABELS[state]}${cell.wheelchair ? ' · Accesible' : ''}`}
+                    aria-pressed={state === 'selected'}
+                    className={cn(
+                      'flex h-7 w-7 items-center justify-center rounded-t-md rounded-b-sm border text-[10px] font-medium transition-colors',
+                      STATE_CLASSES[state],
+                      interactive ? 'cursor-pointer' : 'cursor-default'
+                    )}
+                  >
+                    {cell.wheelchair && state !== 'blocked' ? (
+                      <Accessibility className="h-3.5 w-3.5" />
+                    ) : (
+                      cell.number
+                    )}
+                  </button>
+                )
+              })}
+              <span className="w-5 text-center text-xs font-medium text-muted-foreground">{row.label}</span>
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  )
+}
+
+type SeatMapLegendProps = {
+  states: SeatState[]
+  showWheelchair?: boolean
+  className?: string
+}
+
+export function SeatMapLegend({ states, showWheelchair = true, className }: SeatMapLegendProps) {
+  return (
+    <div className={cn('flex flex-wrap items-center gap-3 text-xs text-muted-foreground', className)}>
+      {states.map((state) => (
+        <span key={state} className="inline-flex items-center gap-1.5">
+          <span className={cn('inline-block h-3.5 w-3.5 rounded-sm border', STATE_CLASSES[state])} />
+          {SEAT_STATE_LABELS[state]}
+        </span>
+      ))}
+      {showWheelchair && (
+        <span className="inline-flex items-center gap-1.5">
+          <Accessibility className="h-3.5 w-3.5" /> Accesible
+        </span>
+      )}
+    </div>
+  )
+}
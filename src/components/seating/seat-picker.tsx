@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useMemo } from 'react'
+import { toast } from 'sonner'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { SeatMap, SeatMapLegend, type Seat, type SeatState } from '@/components/seating/seat-map'
+import { useScreeningTakenSeats } from '@/hooks/use-cinema'
+import type { SeatLayout } from '@/lib/seat-map'
+
+type SeatPickerProps = {
+  screeningId: string
+  layout: SeatLayout
+  value: string | null
+  onChange: (seatLabel: string | null) => void
+  // Seat already held by the reservation being edited; it stays pickable.
+  ownSeat?: string | null
+  className?: string
+}
+
+export function SeatPicker({ screeningId, layout, value, onChange, ownSeat = null, className }: SeatPickerProps) {
+  const { data: takenSeats, error } = useScreeningTakenSeats(screeningId)
+
+  const takenStates = useMemo(() => {
+    const states = new Map<string, SeatState>()
+    takenSeats.forEach((seat) => {
+      if (seat.seat_label !== ownSeat) {
+        states.set(seat.seat_label, seat.status === 'pending' ? 'held' : 'taken')
+      }
+    })
+    return states
+  }, [ownSeat, takenSeats])
+
+  // someone else may grab the selected seat while the dialog is open.
+  useEffect(() => {
+    if (value && takenStates.has(value)) {
+      toast.warning(`El asiento ${value} acaba de ser reservado. Elige otro.`)
+      onChange(null)
+    }
+  }, [onChange, takenStates, value])
+
+  const getSeatState = useCallback(
+    (seat: Seat): SeatState => {
+      if (seat.blocked) return 'blocked'
+      if (seat.label === value) return 'selected'
+      return takenStates.get(seat.label) ?? 'available'
+    },
+    [takenStates, value]
+  )
+
+  const handleSeatClick = (seat: Seat) => {
+    onChange(seat.label === value ? null : seat.label)
+  }
+
+  return (
+    <div className={className}>
+      {error && (
+        <Alert variant="destructive" className="mb-2">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      <SeatMap
+        layout={layout}
+        getSeatState={getSeatState}
+        onSeatClick={handleSeatClick}
+        className="rounded-lg border"
+      />
+      <SeatMapLegend
+        className="mt-2"
+        states={['available', 'selected', 'held', 'taken']}
+        showWheelchair={layout.wheelchair_seats.length > 0}
+      />
+    </div>
+  )
+}
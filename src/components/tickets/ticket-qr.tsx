@@ -0,0 +1,50 @@
+import { QRCodeSVG } from 'qrcode.react'
+import { Spinner } from '@/components/ui/spinner'
+import { useReservationQr } from '@/hooks/use-cinema'
+import { cn } from '@/lib/utils'
+
+type TicketQrProps = {
+  value: string
+  size?: number
+  className?: string
+}
+
+// Always rendered black on white with a quiet zone so door scanners can read it in dark mode too.
+export function TicketQr({ value, size = 160, className }: TicketQrProps) {
+  return (
+    <div className={cn('inline-flex rounded-lg bg-white p-3', className)}>
+      <QRCodeSVG value={value} size={size} level="M" bgColor="#ffffff" fgColor="#000000" marginSize={2} />
+    </div>
+  )
+}
+
+type SignedTicketQrProps = {
+  reservationId: string
+  size?: number
+  className?: string
+}
+
+// The door only accepts recent signed codes, so this one is fetched from the server and rotates every minute.
+export function SignedTicketQr({ reservationId, size = 160, className }: SignedTicketQrProps) {
+  const { payload, error } = useReservationQr(reservationId)
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      {payload ? (
+        <TicketQr value={payload} size={size} className={className} />
+      ) : (
+        <div
+          className={cn('inline-flex items-center justify-center rounded-lg bg-white p-3', className)}
+          style={{ width: size, height: size }}
+        >
+          {error ? <span className="text-center text-sm text-black/60">{error}</span> : <Spinner className="h-6 w-6" />}
+        </div>
+      )}
+      {payload && (
+        <p className={cn('text-xs', error ? 'text-destructive' : 'text-black/60')}>
+          {error ? 'Sin conexión: el código no se está actualizando.' : 'El código se actualiza cada minuto.'}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,334 @@
+import { useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { z } from 'zod'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Spinner } from '@/components/ui/spinner'
+import { useSignupAccess } from '@/hooks/use-user-accounts'
+import { ROLE_LABELS, type UserRole } from '@/lib/roles'
+import { Plus, Trash, UserPlus, X } from 'lucide-react'
+
+const INVITE_ROLES: UserRole[] = ['student', 'staff', 'admin']
+
+const inviteSchema = z.object({
+  email: z.string().trim().email('Ingresa un correo válido.'),
+  role: z.enum(['admin', 'staff', 'student']),
+  note: z.string().max(200, 'Usa una nota corta.').optional(),
+})
+
+type InviteFormValues = z.infer<typeof inviteSchema>
+
+const EMPTY_INVITE: InviteFormValues = {
+  email: '',
+  role: 'student',
+  note: '',
+}
+
+const DOMAIN_PATTERN = /^@?[a-z0-9-]+(\.[a-z0-9-]+)+$/i
+
+const formatDate = (iso: string) => {
+  return new Intl.DateTimeFormat('es-EC', { dateStyle: 'medium' }).format(new Date(iso))
+}
+
+export function SignupAccessCard() {
+  const { invitations, domains, loading, error, invite, revokeInvitation, addDomain, removeDomain } =
+    useSignupAccess()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [newDomain, setNewDomain] = useState('')
+
+  const form = useForm<InviteFormValues>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues: EMPTY_INVITE,
+  })
+
+  useEffect(() => {
+    if (!dialogOpen) {
+      setSubmitting(false)
+      form.reset(EMPTY_INVITE)
+    }
+  }, [dialogOpen, form])
+
+  const handleInvite = form.handleSubmit(async (values) => {
+    setSubmitting(true)
+    const result = await invite({
+      email: values.email,
+      role: values.role,
+      note: values.note?.trim() ? values.note.trim() : null,
+    })
+
+    if (result.error) {
+      toast.error(result.error)
+      setSubmitting(false)
+      return
+    }
+
+    toast.success('Invitación registrada. La persona ya puede ingresar con su correo.')
+    setDialogOpen(false)
+  })
+
+  const handleAddDomain = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!DOMAIN_PATTERN.test(newDomain.trim())) {
+      toast.error('Ingresa un dominio válido, por ejemplo uleam.edu.ec.')
+      return
+    }
+
+    const result = await addDomain(newDomain)
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      toast.success('Dominio agregado.')
+      setNewDomain('')
+    }
+  }
+
+  const handleRemoveDomain = async (domain: string) => {
+    const result = await removeDomain(domain)
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      toast.success(`Dominio ${domain} eliminado.`)
+    }
+  }
+
+  const handleRevoke = async (id: string) => {
+    const result = await revokeInvitation(id)
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      toast.success('Invitación revocada.')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-1.5">
+          <CardTitle>Acceso y registro</CardTitle>
+          <CardDescription>
+            Solo los correos de los dominios permitidos pueden crear una cuenta. Invita a cualquier otra persona
+            de forma explícita.
+          </CardDescription>
+        </div>
+        <Button onClick={() => setDialogOpen(true)}>
+          <UserPlus className="mr-2 h-4 w-4" /> Invitar
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Spinner className="h-6 w-6" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium">Dominios permitidos</h3>
+              <div className="flex flex-wrap gap-2">
+                {domains.length > 0 ? (
+                  domains.map((domain) => (
+                    <Badge key={domain.domain} variant="secondary" className="gap-1 pr-1">
+                      @{domain.domain}
+                      <button
+                        type="button"
+                        className="rounded-sm p-0.5 hover:bg-muted-foreground/20"
+                        onClick={() => void handleRemoveDomain(domain.domain)}
+                      >
+                        <X className="h-3 w-3" />
+                        <span className="sr-only">Quitar {domain.domain}</span>
+                      </button>
+                    </Badge>
+                  ))
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Sin dominios configurados: cualquier correo puede registrarse.
+                  </p>
+                )}
+              </div>
+              <form onSubmit={handleAddDomain} className="flex max-w-sm gap-2">
+                <Input
+                  value={newDomain}
+                  onChange={(event) => setNewDomain(event.target.value)}
+                  placeholder="uleam.edu.ec"
+                />
+                <Button type="submit" variant="outline">
+                  <Plus className="mr-2 h-4 w-4" /> Agregar
+                </Button>
+              </form>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium">Invitaciones</h3>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Correo</TableHead>
+                      <TableHead>Rol</TableHead>
+                      <TableHead className="hidden sm:table-cell">Estado</TableHead>
+                      <TableHead className="w-0 text-right">Acciones</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invitations.length > 0 ? (
+                      invitations.map((invitation) => (
+                        <TableRow key={invitation.id}>
+                          <TableCell>
+                            <div className="font-medium">{invitation.email}</div>
+                            {invitation.note && (
+                              <div className="text-xs text-muted-foreground">{invitation.note}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>{ROLE_LABELS[invitation.role as UserRole] ?? invitation.role}</TableCell>
+                          <TableCell className="hidden sm:table-cell text-sm">
+                            {invitation.accepted_at
+                              ? `Aceptada el ${formatDate(invitation.accepted_at)}`
+                              : `Pendiente desde el ${formatDate(invitation.created_at)}`}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {!invitation.accepted_at && (
+                              <Button variant="ghost" size="icon" onClick={() => void handleRevoke(invitation.id)}>
+                                <Trash className="h-4 w-4" />
+                                <span className="sr-only">Revocar invitación</span>
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={4} className="py-6 text-center text-sm text-muted-foreground">
+                          Aún no hay invitaciones.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Invitar usuario</DialogTitle>
+            <DialogDescription>
+              La persona podrá registrarse con este correo aunque no sea institucional y recibirá el rol elegido.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={handleInvite} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Correo</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="invitado@correo.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rol</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecciona un rol" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {INVITE_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="note"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nota (opcional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Docente invitado, ponente..." {...field} />
+                    </FormControl>
+                    <FormDescription>Solo la ven los administradores.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter className="gap-2 sm:gap-0">
+                <DialogClose asChild>
+                  <Button type="button" variant="outline">
+                    Cancelar
+                  </Button>
+                </DialogClose>
+                <Button type="submit" disabled={submitting}>
+                  {submitting ? 'Enviando...' : 'Invitar'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
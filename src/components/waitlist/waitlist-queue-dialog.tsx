@@ -0,0 +1,146 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Spinner } from '@/components/ui/spinner'
+import { useScreeningWaitlist, type Screening, type WaitlistEntry } from '@/hooks/use-cinema'
+import { UserCheck, UserX } from 'lucide-react'
+
+type WaitlistQueueDialogProps = {
+  screening: Screening | null
+  onOpenChange: (open: boolean) => void
+}
+
+const formatDateTime = (iso: string) => {
+  return new Intl.DateTimeFormat('es-EC', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  }).format(new Date(iso))
+}
+
+const buildEntryLabel = (entry: WaitlistEntry) => {
+  const fullName = [entry.profile?.first_name, entry.profile?.last_name].filter(Boolean).join(' ')
+  return fullName || entry.profile?.email || `${entry.user_id.slice(0, 8)}…`
+}
+
+export function WaitlistQueueDialog({ screening, onOpenChange }: WaitlistQueueDialogProps) {
+  const { data: entries, loading, error, promote, remove } = useScreeningWaitlist(screening?.id ?? null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const handlePromote = async (entry: WaitlistEntry) => {
+    setBusyId(entry.id)
+    const result = await promote(entry.id)
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      toast.success(`${buildEntryLabel(entry)} recibió una reserva confirmada.`)
+    }
+    setBusyId(null)
+  }
+
+  const handleRemove = async (entry: WaitlistEntry) => {
+    setBusyId(entry.id)
+    const result = await remove(entry.id)
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      toast.success('Entrada retirada de la lista de espera.')
+    }
+    setBusyId(null)
+  }
+
+  return (
+    <Dialog open={!!screening} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Lista de espera</DialogTitle>
+          <DialogDescription>
+            {screening
+              ? `${screening.movie?.title ?? 'Película eliminada'} · ${formatDateTime(screening.starts_at)}. Cuando se libera un cupo se promueve automáticamente a la primera persona.`
+              : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Spinner className="h-5 w-5" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-0">#</TableHead>
+                <TableHead>Usuario</TableHead>
+                <TableHead className="hidden sm:table-cell">En espera desde</TableHead>
+                <TableHead className="w-0 text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.length > 0 ? (
+                entries.map((entry, index) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-medium">{index + 1}</TableCell>
+                    <TableCell>{buildEntryLabel(entry)}</TableCell>
+                    <TableCell className="hidden sm:table-cell text-sm text-muted-foreground">
+                      {formatDateTime(entry.created_at)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={busyId === entry.id}
+                          onClick={() => void handlePromote(entry)}
+                        >
+                          <UserCheck className="h-4 w-4" />
+                          <span className="sr-only">Promover</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive hover:text-destructive"
+                          disabled={busyId === entry.id}
+                          onClick={() => void handleRemove(entry)}
+                        >
+                          <UserX className="h-4 w-4" />
+                          <span className="sr-only">Quitar</span>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={4} className="py-6 text-center text-sm text-muted-foreground">
+                    Nadie está esperando por esta función.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useState } from 'react'
+import { addDays } from 'date-fns'
+import { supabase } from '@/lib/supabase/client'
+import type { AuditAction, AuditTable } from '@/lib/audit'
+
+export type AuditEntry = {
+  id: number
+  table_name: AuditTable
+  record_id: string
+  action: AuditAction
+  actor_id: string | null
+  old_data: Record<string, unknown> | null
+  new_data: Record<string, unknown> | null
+  changed_fields: string[]
+  created_at: string
+  actor?: {
+    user_id: string
+    first_name: string | null
+    last_name: string | null
+    email: string | null
+  } | null
+}
+
+export type AuditFilters = {
+  table: AuditTable | null
+  actorId: string | null
+  // Local calendar days (yyyy-MM-dd), both inclusive.
+  from: string | null
+  to: string | null
+}
+
+// The page shows the most recent changes; narrow the filters to reach older ones.
+const AUDIT_LOG_LIMIT = 200
+
+export function useAuditLog({ table, actorId, from, to }: AuditFilters) {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    let query = supabase
+      .from('audit_log')
+      .select('*, actor:profiles(user_id, first_name, last_name, email)')
+      .order('created_at', { ascending: false })
+      .limit(AUDIT_LOG_LIMIT)
+
+    if (table) {
+      query = query.eq('table_name', table)
+    }
+    if (actorId) {
+      query = query.eq('actor_id', actorId)
+    }
+    if (from) {
+      query = query.gte('created_at', new Date(`${from}T00:00`).toISOString())
+    }
+    if (to) {
+      query = query.lt('created_at', addDays(new Date(`${to}T00:00`), 1).toISOString())
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      setError(error.message)
+      setEntries([])
+    } else {
+      setError(null)
+      setEntries((data ?? []) as AuditEntry[])
+    }
+    setLoading(false)
+  }, [table, actorId, from, to])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  return { data: entries, loading, error, refresh, limit: AUDIT_LOG_LIMIT }
+}
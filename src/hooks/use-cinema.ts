@@ -1,5 +1,8 @@
 import { useCallback, useEffect, useState } from 'react'
 import { supabase } from '@/lib/supabase/client'
+import { describeCinemaError } from '@/lib/cinema-errors'
+import { QR_ROTATION_MS } from '@/lib/qr-payload'
+import { useSupabase } from '@/hooks/use-supabase'
 
 const sanitizePayload = <T extends Record<string, unknown>>(input: T): T => {
   return Object.fromEntries(
@@ -15,6 +18,8 @@ export type Movie = {
   rating: string | null
   poster_url: string | null
   is_active: boolean
+  deleted_at: string | null
+  deleted_by: string | null
   created_at: string
   updated_at: string
 }
@@ -28,14 +33,50 @@ export type MovieInput = {
   is_active?: boolean
 }
 
+export type Auditorium = {
+  id: string
+  name: string
+  location: string | null
+  row_count: number
+  seats_per_row: number
+  aisle_after_seats: number[]
+  aisle_after_rows: number[]
+  blocked_seats: string[]
+  wheelchair_seats: string[]
+  capacity: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type AuditoriumInput = {
+  name: string
+  location?: string | null
+  row_count: number
+  seats_per_row: number
+  aisle_after_seats?: number[]
+  aisle_after_rows?: number[]
+  blocked_seats?: string[]
+  wheelchair_seats?: string[]
+  is_active?: boolean
+}
+
 export type Screening = {
   id: string
   movie_id: string
+  auditorium_id: string | null
   starts_at: string
   ends_at: string | null
+  ends_at_override: boolean
   auditorium: string
   capacity: number
   notes: string | null
+  series_id: string | null
+  cancelled_at: string | null
+  cancelled_by: string | null
+  cancellation_reason: string | null
+  deleted_at: string | null
+  deleted_by: string | null
   created_at: string
   updated_at: string
   movie?: Pick<Movie, 'id' | 'title' | 'duration_minutes'> | null
@@ -43,13 +84,53 @@ export type Screening = {
 
 export type ScreeningInput = {
   movie_id: string
+  auditorium_id: string
   starts_at: string
   ends_at?: string | null
-  auditorium: string
-  capacity: number
+  ends_at_override?: boolean
   notes?: string | null
 }
 
+export type RecurrenceFrequency = 'daily' | 'weekly'
+
+// Recurrence rule for public.create_screening_series. weekdays use Date#getDay numbering (0 = domingo).
+export type ScreeningSeriesInput = {
+  movie_id: string
+  auditorium_id: string
+  frequency: RecurrenceFrequency
+  weekdays: number[]
+  starts_on: string
+  start_time: string
+  // only for a manual end time; otherwise each screening ends after the movie plus padding.
+  duration_minutes: number | null
+  until_date: string | null
+  occurrence_count: number | null
+  skip_holidays: boolean
+  notes: string | null
+}
+
+export type ScreeningConflict = {
+  screening_id: string
+  movie_title: string
+  starts_at: string
+  occupied_until: string
+}
+
+export type CinemaSettings = {
+  seat_hold_minutes: number
+  cleaning_buffer_minutes: number
+  screening_padding_minutes: number
+  doors_open_minutes: number
+  late_entry_minutes: number
+  updated_at: string
+}
+
+export type Holiday = {
+  holiday_date: string
+  name: string
+  created_at: string
+}
+
 export type ScreeningStat = {
   screening_id: string
   movie_id: string | null
@@ -67,6 +148,29 @@ export type ScreeningStat = {
   updated_at: string
 }
 
+export type ScreeningAvailability = {
+  screening_id: string
+  movie_id: string
+  movie_title: string
+  movie_synopsis: string | null
+  movie_duration_minutes: number | null
+  movie_rating: string | null
+  movie_poster_url: string | null
+  starts_at: string
+  ends_at: string | null
+  auditorium: string
+  capacity: number
+  reserved_seats: number
+  available_seats: number
+  auditorium_id: string | null
+}
+
+export type ScreeningTakenSeat = {
+  screening_id: string
+  seat_label: string
+  status: Extract<ReservationStatus, 'pending' | 'confirmed' | 'checked_in'>
+}
+
 export type ReservationStatus = 'pending' | 'confirmed' | 'cancelled' | 'checked_in' | 'no_show'
 
 export type Reservation = {
@@ -76,7 +180,10 @@ export type Reservation = {
   status: ReservationStatus
   seat_label: string | null
   qr_token: string
+  hold_expires_at: string | null
   reserved_at: string
+  deleted_at: string | null
+  deleted_by: string | null
   created_at: string
   updated_at: string
   screening?: Screening | null
@@ -84,10 +191,17 @@ export type Reservation = {
     user_id: string
     first_name: string | null
     last_name: string | null
+    email: string | null
     role: string
   } | null
 }
 
+export type ReservationStatusTransition = {
+  from_status: ReservationStatus | null
+  to_status: ReservationStatus
+  actor: 'admin' | 'student'
+}
+
 export type ReservationInput = {
   screening_id: string
   user_id: string
@@ -95,11 +209,45 @@ export type ReservationInput = {
   seat_label?: string | null
 }
 
+export type UserNotification = {
+  id: string
+  user_id: string
+  kind: 'screening_cancelled'
+  title: string
+  body: string
+  screening_id: string | null
+  read_at: string | null
+  created_at: string
+}
+
+export type WaitlistStatus = 'waiting' | 'promoted' | 'removed'
+
+export type WaitlistEntry = {
+  id: string
+  screening_id: string
+  user_id: string
+  status: WaitlistStatus
+  reservation_id: string | null
+  promoted_at: string | null
+  created_at: string
+  updated_at: string
+  profile?: Reservation['profile']
+}
+
+export type MyWaitlistEntry = {
+  id: string
+  screening_id: string
+  created_at: string
+  position: number
+}
+
 export type AttendanceLog = {
   id: string
   reservation_id: string
   scanned_by: string | null
   scanned_at: string
+  device_id: string | null
+  synced_at: string | null
   created_at: string
   reservation?: Reservation | null
 }
@@ -119,6 +267,13 @@ type HookResult<T, CreateInput, UpdateInput> = {
   remove: (id: string) => Promise<{ error: string | null }>
 }
 
+// Tables whose rows go to the trash ("papelera") instead of being deleted.
+export type TrashTable = 'movies' | 'screenings' | 'reservations'
+
+// Moves a row to the trash; the soft delete trigger stamps the real time and the author.
+const softDelete = (table: TrashTable, id: string) =>
+  supabase.from(table).update({ deleted_at: new Date().toISOString() }).eq('id', id)
+
 type ScreeningRow = Screening & {
   movie: Pick<Movie, 'id' | 'title' | 'duration_minutes'> | null
 }
@@ -142,6 +297,7 @@ export function useMovies(): HookResult<Movie, MovieInput, Partial<MovieInput>>
     const { data, error } = await supabase
       .from('movies')
       .select('*')
+      .is('deleted_at', null)
       .order('created_at', { ascending: false })
 
     if (error) {
@@ -170,7 +326,7 @@ export function useMovies(): HookResult<Movie, MovieInput, Partial<MovieInput>>
         .single()
 
       if (error) {
-        return { data: null, error: error.message }
+        return { data: null, error: describeCinemaError(error) }
       }
 
       const record = data as Movie
@@ -194,7 +350,7 @@ export function useMovies(): HookResult<Movie, MovieInput, Partial<MovieInput>>
         .single()
 
       if (error) {
-        return { data: null, error: error.message }
+        return { data: null, error: describeCinemaError(error) }
       }
 
       const record = data as Movie
@@ -206,9 +362,9 @@ export function useMovies(): HookResult<Movie, MovieInput, Partial<MovieInput>>
 
   const remove = useCallback<HookResult<Movie, MovieInput, Partial<MovieInput>>['remove']>(
     async (id) => {
-      const { error } = await supabase.from('movies').delete().eq('id', id)
+      const { error } = await softDelete('movies', id)
       if (error) {
-        return { error: error.message }
+        return { error: describeCinemaError(error) }
       }
       setMovies((current) => current.filter((movie) => movie.id !== id))
       return { error: null }
@@ -219,7 +375,129 @@ export function useMovies(): HookResult<Movie, MovieInput, Partial<MovieInput>>
   return { data: movies, loading, error, refresh, create, update, remove }
 }
 
-export function useScreenings(): HookResult<Screening, ScreeningInput, Partial<ScreeningInput>> {
+export function useAuditoriums(): HookResult<Auditorium, AuditoriumInput, Partial<AuditoriumInput>> {
+  const [auditoriums, setAuditoriums] = useState<Auditorium[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    const { data, error } = await supabase
+      .from('auditoriums')
+      .select('*')
+      .order('name', { ascending: true })
+
+    if (error) {
+      setError(error.message)
+      setAuditoriums([])
+    } else {
+      setError(null)
+      setAuditoriums((data ?? []) as Auditorium[])
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  const create = useCallback<HookResult<Auditorium, AuditoriumInput, Partial<AuditoriumInput>>['create']>(
+    async (input) => {
+      const payload = sanitizePayload({
+        ...input,
+      })
+      const { data, error } = await supabase
+        .from('auditoriums')
+        .insert(payload)
+        .select()
+        .single()
+
+      if (error) {
+        return { data: null, error: describeCinemaError(error) }
+      }
+
+      const record = data as Auditorium
+      setAuditoriums((current) =>
+        [...current, record].sort((a, b) => a.name.localeCompare(b.name, 'es-ES', { sensitivity: 'base' }))
+      )
+      return { data: record, error: null }
+    },
+    []
+  )
+
+  const update = useCallback<HookResult<Auditorium, AuditoriumInput, Partial<AuditoriumInput>>['update']>(
+    async (id, input) => {
+      const payload = sanitizePayload({
+        ...input,
+      })
+
+      const { data, error } = await supabase
+        .from('auditoriums')
+        .update(payload)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        return { data: null, error: describeCinemaError(error) }
+      }
+
+      const record = data as Auditorium
+      setAuditoriums((current) => current.map((auditorium) => (auditorium.id === id ? record : auditorium)))
+      return { data: record, error: null }
+    },
+    []
+  )
+
+  const remove = useCallback<HookResult<Auditorium, AuditoriumInput, Partial<AuditoriumInput>>['remove']>(
+    async (id) => {
+      const { error } = await supabase.from('auditoriums').delete().eq('id', id)
+      if (error) {
+        return { error: describeCinemaError(error) }
+      }
+      setAuditoriums((current) => current.filter((auditorium) => auditorium.id !== id))
+      return { error: null }
+    },
+    []
+  )
+
+  return { data: auditoriums, loading, error, refresh, create, update, remove }
+}
+
+type ScreeningsResult = HookResult<Screening, ScreeningInput, Partial<ScreeningInput>> & {
+  markNoShows: (id: string) => Promise<{ data: number | null; error: string | null }>
+  cancel: (id: string, reason: string) => Promise<{ data: number | null; error: string | null }>
+  createSeries: (input: ScreeningSeriesInput) => Promise<{ data: number | null; error: string | null }>
+  updateFollowing: (
+    screening: Screening,
+    input: ScreeningInput
+  ) => Promise<{ data: number | null; error: string | null }>
+  removeFollowing: (id: string) => Promise<{ data: number | null; error: string | null }>
+  findConflicts: (
+    input: ScreeningInput,
+    excludeId?: string | null
+  ) => Promise<{ data: ScreeningConflict[]; error: string | null }>
+  findSeriesConflicts: (input: ScreeningSeriesInput) => Promise<{ data: ScreeningConflict[]; error: string | null }>
+}
+
+const toIntervalSeconds = (milliseconds: number) => `${Math.round(milliseconds / 1000)} seconds`
+
+// Recurrence arguments shared by create_screening_series and find_screening_series_conflicts.
+const toSeriesRuleParams = (input: ScreeningSeriesInput) => ({
+  p_movie_id: input.movie_id,
+  p_auditorium_id: input.auditorium_id,
+  p_frequency: input.frequency,
+  p_weekdays: input.weekdays,
+  p_starts_on: input.starts_on,
+  p_start_time: input.start_time,
+  p_duration: input.duration_minutes ? `${input.duration_minutes} minutes` : null,
+  p_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  p_until_date: input.until_date,
+  p_occurrence_count: input.occurrence_count,
+  p_skip_holidays: input.skip_holidays,
+})
+
+export function useScreenings(): ScreeningsResult {
   const [screenings, setScreenings] = useState<Screening[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -229,6 +507,7 @@ export function useScreenings(): HookResult<Screening, ScreeningInput, Partial<S
     const { data, error } = await supabase
       .from('screenings')
       .select('*, movie:movies(id, title, duration_minutes)')
+      .is('deleted_at', null)
       .order('starts_at', { ascending: true })
 
     if (error) {
@@ -262,7 +541,7 @@ export function useScreenings(): HookResult<Screening, ScreeningInput, Partial<S
         .single()
 
       if (error) {
-        return { data: null, error: error.message }
+        return { data: null, error: describeCinemaError(error) }
       }
 
       const screeningData = data as ScreeningRow
@@ -290,7 +569,7 @@ export function useScreenings(): HookResult<Screening, ScreeningInput, Partial<S
         .single()
 
       if (error) {
-        return { data: null, error: error.message }
+        return { data: null, error: describeCinemaError(error) }
       }
 
       const screeningData = data as ScreeningRow
@@ -306,9 +585,9 @@ export function useScreenings(): HookResult<Screening, ScreeningInput, Partial<S
 
   const remove = useCallback<HookResult<Screening, ScreeningInput, Partial<ScreeningInput>>['remove']>(
     async (id) => {
-      const { error } = await supabase.from('screenings').delete().eq('id', id)
+      const { error } = await softDelete('screenings', id)
       if (error) {
-        return { error: error.message }
+        return { error: describeCinemaError(error) }
       }
       setScreenings((current) => current.filter((screening) => screening.id !== id))
       return { error: null }
@@ -316,7 +595,241 @@ export function useScreenings(): HookResult<Screening, ScreeningInput, Partial<S
     []
   )
 
-  return { data: screenings, loading, error, refresh, create, update, remove }
+  const markNoShows = useCallback<ScreeningsResult['markNoShows']>(async (id) => {
+    const { data, error } = await supabase.rpc('admin_mark_screening_no_shows', { p_screening_id: id })
+
+    if (error) {
+      return { data: null, error: describeCinemaError(error) }
+    }
+
+    return { data: data as number, error: null }
+  }, [])
+
+  // Cancels the screening and its active reservations; returns how many reservations were cancelled.
+  const cancel = useCallback<ScreeningsResult['cancel']>(
+    async (id, reason) => {
+      const { data, error } = await supabase.rpc('cancel_screening', { p_screening_id: id, p_reason: reason })
+
+      if (error) {
+        return { data: null, error: describeCinemaError(error) }
+      }
+
+      await refresh()
+      return { data: data as number, error: null }
+    },
+    [refresh]
+  )
+
+  const createSeries = useCallback<ScreeningsResult['createSeries']>(
+    async (input) => {
+      const { data, error } = await supabase.rpc('create_screening_series', {
+        ...toSeriesRuleParams(input),
+        p_notes: input.notes,
+      })
+
+      if (error) {
+        return { data: null, error: describeCinemaError(error) }
+      }
+
+      await refresh()
+      return { data: data as number, error: null }
+    },
+    [refresh]
+  )
+
+  // Shifts this and every later occurrence by the same amount the edited start moved.
+  const updateFollowing = useCallback<ScreeningsResult['updateFollowing']>(
+    async (screening, input) => {
+      const startsAt = new Date(input.starts_at).getTime()
+      const { data, error } = await supabase.rpc('update_screening_series_from', {
+        p_screening_id: screening.id,
+        p_movie_id: input.movie_id,
+        p_auditorium_id: input.auditorium_id,
+        p_start_shift: toIntervalSeconds(startsAt - new Date(screening.starts_at).getTime()),
+        p_duration:
+          input.ends_at_override && input.ends_at
+            ? toIntervalSeconds(new Date(input.ends_at).getTime() - startsAt)
+            : null,
+        p_notes: input.notes ?? null,
+      })
+
+      if (error) {
+        return { data: null, error: describeCinemaError(error) }
+      }
+
+      await refresh()
+      return { data: data as number, error: null }
+    },
+    [refresh]
+  )
+
+  const removeFollowing = useCallback<ScreeningsResult['removeFollowing']>(
+    async (id) => {
+      const { data, error } = await supabase.rpc('delete_screening_series_from', { p_screening_id: id })
+
+      if (error) {
+        return { data: null, error: describeCinemaError(error) }
+      }
+
+      await refresh()
+      return { data: data as number, error: null }
+    },
+    [refresh]
+  )
+
+  // Same overlap rule as the screenings_no_overlap constraint, including the cleaning buffer.
+  const findConflicts = useCallback<ScreeningsResult['findConflicts']>(async (input, excludeId) => {
+    const { data, error } = await supabase.rpc('find_screening_conflicts', {
+      p_auditorium_id: input.auditorium_id,
+      p_starts_at: input.starts_at,
+      p_ends_at: input.ends_at ?? null,
+      p_movie_id: input.movie_id,
+      p_exclude_id: excludeId ?? null,
+    })
+
+    if (error) {
+      return { data: [], error: describeCinemaError(error) }
+    }
+
+    return { data: (data ?? []) as ScreeningConflict[], error: null }
+  }, [])
+
+  // Existing screenings that any occurrence of a new series would overlap.
+  const findSeriesConflicts = useCallback<ScreeningsResult['findSeriesConflicts']>(async (input) => {
+    const { data, error } = await supabase.rpc('find_screening_series_conflicts', toSeriesRuleParams(input))
+
+    if (error) {
+      return { data: [], error: describeCinemaError(error) }
+    }
+
+    return { data: (data ?? []) as ScreeningConflict[], error: null }
+  }, [])
+
+  return {
+    data: screenings,
+    loading,
+    error,
+    refresh,
+    create,
+    update,
+    remove,
+    markNoShows,
+    cancel,
+    createSeries,
+    updateFollowing,
+    removeFollowing,
+    findConflicts,
+    findSeriesConflicts,
+  }
+}
+
+// Every CinemaSettings field; the settings dialog fills its form from these.
+const CINEMA_SETTINGS_COLUMNS =
+  'seat_hold_minutes, cleaning_buffer_minutes, screening_padding_minutes, doors_open_minutes, late_entry_minutes, updated_at'
+
+export function useCinemaSettings() {
+  const [settings, setSettings] = useState<CinemaSettings | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    const { data, error } = await supabase
+      .from('cinema_settings')
+      .select(CINEMA_SETTINGS_COLUMNS)
+      .maybeSingle()
+
+    if (error) {
+      setError(error.message)
+      setSettings(null)
+    } else {
+      setError(null)
+      setSettings((data as CinemaSettings | null) ?? null)
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  const update = useCallback(async (input: Partial<Omit<CinemaSettings, 'updated_at'>>) => {
+    const { data, error } = await supabase
+      .from('cinema_settings')
+      .update(sanitizePayload(input))
+      .eq('id', true)
+      .select(CINEMA_SETTINGS_COLUMNS)
+      .single()
+
+    if (error) {
+      return { data: null, error: describeCinemaError(error) }
+    }
+
+    setSettings(data as CinemaSettings)
+    return { data: data as CinemaSettings, error: null }
+  }, [])
+
+  return { data: settings, loading, error, refresh, update }
+}
+
+export function useHolidays() {
+  const [holidays, setHolidays] = useState<Holiday[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    const { data, error } = await supabase
+      .from('holidays')
+      .select('*')
+      .order('holiday_date', { ascending: true })
+
+    if (error) {
+      setError(error.message)
+      setHolidays([])
+    } else {
+      setError(null)
+      setHolidays((data ?? []) as Holiday[])
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  const create = useCallback(
+    async (input: Pick<Holiday, 'holiday_date' | 'name'>) => {
+      const { error } = await supabase.from('holidays').insert({
+        holiday_date: input.holiday_date,
+        name: input.name.trim(),
+      })
+
+      if (error) {
+        return { error: describeCinemaError(error) }
+      }
+
+      await refresh()
+      return { error: null }
+    },
+    [refresh]
+  )
+
+  const remove = useCallback(
+    async (holidayDate: string) => {
+      const { error } = await supabase.from('holidays').delete().eq('holiday_date', holidayDate)
+
+      if (error) {
+        return { error: error.message }
+      }
+
+      setHolidays((current) => current.filter((holiday) => holiday.holiday_date !== holidayDate))
+      return { error: null }
+    },
+    []
+  )
+
+  return { data: holidays, loading, error, refresh, create, remove }
 }
 
 export function useReservations(): HookResult<Reservation, ReservationInput, Partial<ReservationInput>> {
@@ -325,13 +838,14 @@ export function useReservations(): HookResult<Reservation, ReservationInput, Par
   const [error, setError] = useState<string | null>(null)
 
   const baseSelect =
-    '*, screening:screenings(*, movie:movies(id, title, duration_minutes)), profile:profiles(user_id, first_name, last_name, role)'
+    '*, screening:screenings(*, movie:movies(id, title, duration_minutes)), profile:profiles(user_id, first_name, last_name, email, role)'
 
   const refresh = useCallback(async () => {
     setLoading(true)
     const { data, error } = await supabase
       .from('reservations')
       .select(baseSelect)
+      .is('deleted_at', null)
       .order('reserved_at', { ascending: false })
 
     if (error) {
@@ -370,7 +884,7 @@ export function useReservations(): HookResult<Reservation, ReservationInput, Par
       .single()
 
     if (error) {
-      return { data: null, error: error.message }
+      return { data: null, error: describeCinemaError(error) }
     }
 
     const reservationData = data as ReservationRow
@@ -400,7 +914,7 @@ export function useReservations(): HookResult<Reservation, ReservationInput, Par
       .single()
 
     if (error) {
-      return { data: null, error: error.message }
+      return { data: null, error: describeCinemaError(error) }
     }
 
     const reservationData = data as ReservationRow
@@ -417,9 +931,9 @@ export function useReservations(): HookResult<Reservation, ReservationInput, Par
   const remove = useCallback<
     HookResult<Reservation, ReservationInput, Partial<ReservationInput>>['remove']
   >(async (id) => {
-      const { error } = await supabase.from('reservations').delete().eq('id', id)
+    const { error } = await softDelete('reservations', id)
     if (error) {
-      return { error: error.message }
+      return { error: describeCinemaError(error) }
     }
     setReservations((current) => current.filter((reservation) => reservation.id !== id))
     return { error: null }
@@ -428,13 +942,109 @@ export function useReservations(): HookResult<Reservation, ReservationInput, Par
   return { data: reservations, loading, error, refresh, create, update, remove }
 }
 
-export function useAttendanceLogs(): HookResult<AttendanceLog, AttendanceInput, Partial<AttendanceInput>> {
-  const [attendance, setAttendance] = useState<AttendanceLog[]>([])
+export type TrashedItems = {
+  movies: Movie[]
+  screenings: Screening[]
+  reservations: Reservation[]
+}
+
+const EMPTY_TRASH: TrashedItems = { movies: [], screenings: [], reservations: [] }
+
+// Rows moved to the trash by the hooks' remove, newest first, with restore and permanent purge.
+export function useTrash() {
+  const [items, setItems] = useState<TrashedItems>(EMPTY_TRASH)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    const [movies, screenings, reservations] = await Promise.all([
+      supabase
+        .from('movies')
+        .select('*')
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false }),
+      supabase
+        .from('screenings')
+        .select('*, movie:movies(id, title, duration_minutes)')
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false }),
+      supabase
+        .from('reservations')
+        .select(
+          '*, screening:screenings(*, movie:movies(id, title, duration_minutes)), profile:profiles(user_id, first_name, last_name, email, role)'
+        )
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false }),
+    ])
+
+    const failure = movies.error ?? screenings.error ?? reservations.error
+    if (failure) {
+      setError(failure.message)
+      setItems(EMPTY_TRASH)
+    } else {
+      setError(null)
+      setItems({
+        movies: (movies.data ?? []) as Movie[],
+        screenings: ((screenings.data ?? []) as ScreeningRow[]).map((row) => ({
+          ...row,
+          movie: row.movie ?? null,
+        })),
+        reservations: ((reservations.data ?? []) as ReservationRow[]).map((row) => ({
+          ...row,
+          screening: row.screening ?? null,
+          profile: row.profile ?? null,
+        })),
+      })
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  const drop = useCallback((table: TrashTable, id: string) => {
+    setItems((current) => ({
+      ...current,
+      [table]: current[table].filter((item) => item.id !== id),
+    }))
+  }, [])
+
+  const restore = useCallback(
+    async (table: TrashTable, id: string) => {
+      const { error } = await supabase.from(table).update({ deleted_at: null }).eq('id', id)
+      if (error) {
+        return { error: describeCinemaError(error) }
+      }
+      drop(table, id)
+      return { error: null }
+    },
+    [drop]
+  )
+
+  const purge = useCallback(
+    async (table: TrashTable, id: string) => {
+      const { error } = await supabase.from(table).delete().eq('id', id)
+      if (error) {
+        return { error: describeCinemaError(error) }
+      }
+      drop(table, id)
+      return { error: null }
+    },
+    [drop]
+  )
+
+  return { data: items, loading, error, refresh, restore, purge }
+}
+
+export function useAttendanceLogs(): HookResult<AttendanceLog, AttendanceInput, Partial<AttendanceInput>> {
+  const [attendance, setAttendance] = useState<AttendanceLog[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
   const select =
-    '*, reservation:reservations(*, screening:screenings(*, movie:movies(id, title, duration_minutes)), profile:profiles(user_id, first_name, last_name, role))'
+    '*, reservation:reservations(*, screening:screenings(*, movie:movies(id, title, duration_minutes)), profile:profiles(user_id, first_name, last_name, email, role))'
 
   const refresh = useCallback(async () => {
     setLoading(true)
@@ -475,7 +1085,7 @@ export function useAttendanceLogs(): HookResult<AttendanceLog, AttendanceInput,
         .single()
 
       if (error) {
-        return { data: null, error: error.message }
+        return { data: null, error: describeCinemaError(error) }
       }
 
       const attendanceData = data as AttendanceRow
@@ -501,7 +1111,7 @@ export function useAttendanceLogs(): HookResult<AttendanceLog, AttendanceInput,
         .update(payload)
         .eq('id', id)
       if (error) {
-        return { data: null, error: error.message }
+        return { data: null, error: describeCinemaError(error) }
       }
 
       const refreshed = await supabase
@@ -530,7 +1140,7 @@ export function useAttendanceLogs(): HookResult<AttendanceLog, AttendanceInput,
     async (id) => {
       const { error } = await supabase.from('attendance_logs').delete().eq('id', id)
       if (error) {
-        return { error: error.message }
+        return { error: describeCinemaError(error) }
       }
       setAttendance((current) => current.filter((log) => log.id !== id))
       return { error: null }
@@ -570,4 +1180,516 @@ export function useScreeningStats() {
   return { data: stats, loading, error, refresh }
 }
 
+export function useScreeningAvailability() {
+  const [availability, setAvailability] = useState<ScreeningAvailability[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    const { data, error } = await supabase
+      .from('screening_availability')
+      .select('*')
+      .order('starts_at', { ascending: true })
+
+    if (error) {
+      setError(error.message)
+      setAvailability([])
+    } else {
+      setError(null)
+      setAvailability((data ?? []) as ScreeningAvailability[])
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  return { data: availability, loading, error, refresh }
+}
+
+export function useReservationStatusTransitions() {
+  const [transitions, setTransitions] = useState<ReservationStatusTransition[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    const { data, error } = await supabase.from('reservation_status_transitions').select('*')
+
+    if (error) {
+      setError(error.message)
+      setTransitions([])
+    } else {
+      setError(null)
+      setTransitions((data ?? []) as ReservationStatusTransition[])
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  return { data: transitions, loading, error, refresh }
+}
+
+// Realtime only delivers rows the user can read, so students also poll for other people's seats.
+const TAKEN_SEATS_POLL_INTERVAL_MS = 15_000
+
+export function useScreeningTakenSeats(screeningId: string | null) {
+  const [seats, setSeats] = useState<ScreeningTakenSeat[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!screeningId) {
+      setSeats([])
+      setError(null)
+      return
+    }
+
+    setLoading(true)
+    const { data, error } = await supabase
+      .from('screening_taken_seats')
+      .select('*')
+      .eq('screening_id', screeningId)
+
+    if (error) {
+      setError(error.message)
+      setSeats([])
+    } else {
+      setError(null)
+      setSeats((data ?? []) as ScreeningTakenSeat[])
+    }
+    setLoading(false)
+  }, [screeningId])
+
+  useEffect(() => {
+    void refresh()
+    if (!screeningId) return
+
+    const channel = supabase
+      .channel(`screening-seats:${screeningId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'reservations', filter: `screening_id=eq.${screeningId}` },
+        () => void refresh()
+      )
+      .subscribe()
+    const interval = window.setInterval(() => void refresh(), TAKEN_SEATS_POLL_INTERVAL_MS)
+
+    return () => {
+      window.clearInterval(interval)
+      void supabase.removeChannel(channel)
+    }
+  }, [refresh, screeningId])
+
+  return { data: seats, loading, error, refresh }
+}
+
+type MyReservationsResult = {
+  data: Reservation[]
+  loading: boolean
+  error: string | null
+  refresh: () => Promise<void>
+  book: (screeningId: string, seatLabel?: string | null) => Promise<{ data: Reservation | null; error: string | null }>
+  cancel: (id: string) => Promise<{ data: Reservation | null; error: string | null }>
+  // Seat holds: a pending reservation that expires unless confirmed before hold_expires_at.
+  hold: (screeningId: string, seatLabel: string) => Promise<{ data: Reservation | null; error: string | null }>
+  changeHoldSeat: (id: string, seatLabel: string) => Promise<{ data: Reservation | null; error: string | null }>
+  confirmHold: (id: string) => Promise<{ data: Reservation | null; error: string | null }>
+  releaseHold: (id: string) => Promise<{ error: string | null }>
+}
+
+export function useMyReservations(): MyReservationsResult {
+  const { user } = useSupabase()
+  const [reservations, setReservations] = useState<Reservation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const userId = user?.id
+  const select = '*, screening:screenings(*, movie:movies(id, title, duration_minutes))'
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setReservations([])
+      setLoading(false)
+      return
+    }
+
+    setLoading(true)
+    const { data, error } = await supabase
+      .from('reservations')
+      .select(select)
+      .eq('user_id', userId)
+      .order('reserved_at', { ascending: false })
+
+    if (error) {
+      setError(error.message)
+      setReservations([])
+    } else {
+      const normalized = ((data ?? []) as ReservationRow[]).map((row) => ({
+        ...row,
+        screening: row.screening ?? null,
+      }))
+      setError(null)
+      setReservations(normalized)
+    }
+    setLoading(false)
+  }, [select, userId])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  const insertOwn = useCallback(
+    async (screeningId: string, status: ReservationStatus, seatLabel: string | null) => {
+      if (!userId) {
+        return { data: null, error: 'User not authenticated' }
+      }
+
+      const { data, error } = await supabase
+        .from('reservations')
+        .insert({
+          screening_id: screeningId,
+          user_id: userId,
+          status,
+          seat_label: seatLabel,
+        })
+        .select(select)
+        .single()
+
+      if (error) {
+        return { data: null, error: describeCinemaError(error) }
+      }
+
+      const reservationData = data as ReservationRow
+      const record: Reservation = {
+        ...reservationData,
+        screening: reservationData.screening ?? null,
+      }
+
+      setReservations((current) => [record, ...current])
+      return { data: record, error: null }
+    },
+    [select, userId]
+  )
 
+  const updateOwn = useCallback(
+    async (id: string, changes: Partial<Pick<Reservation, 'status' | 'seat_label'>>) => {
+      const { data, error } = await supabase
+        .from('reservations')
+        .update(changes)
+        .eq('id', id)
+        .select(select)
+        .single()
+
+      if (error) {
+        return { data: null, error: describeCinemaError(error) }
+      }
+
+      const reservationData = data as ReservationRow
+      const record: Reservation = {
+        ...reservationData,
+        screening: reservationData.screening ?? null,
+      }
+
+      setReservations((current) => current.map((reservation) => (reservation.id === id ? record : reservation)))
+      return { data: record, error: null }
+    },
+    [select]
+  )
+
+  const book = useCallback<MyReservationsResult['book']>(
+    (screeningId, seatLabel) => insertOwn(screeningId, 'confirmed', seatLabel ?? null),
+    [insertOwn]
+  )
+
+  const cancel = useCallback<MyReservationsResult['cancel']>(
+    (id) => updateOwn(id, { status: 'cancelled' }),
+    [updateOwn]
+  )
+
+  const hold = useCallback<MyReservationsResult['hold']>(
+    (screeningId, seatLabel) => insertOwn(screeningId, 'pending', seatLabel),
+    [insertOwn]
+  )
+
+  const changeHoldSeat = useCallback<MyReservationsResult['changeHoldSeat']>(
+    (id, seatLabel) => updateOwn(id, { seat_label: seatLabel }),
+    [updateOwn]
+  )
+
+  const confirmHold = useCallback<MyReservationsResult['confirmHold']>(
+    (id) => updateOwn(id, { status: 'confirmed' }),
+    [updateOwn]
+  )
+
+  const releaseHold = useCallback<MyReservationsResult['releaseHold']>(async (id) => {
+    const { error } = await supabase.from('reservations').delete().eq('id', id).eq('status', 'pending')
+
+    if (error) {
+      return { error: describeCinemaError(error) }
+    }
+
+    setReservations((current) => current.filter((reservation) => reservation.id !== id))
+    return { error: null }
+  }, [])
+
+  return {
+    data: reservations,
+    loading,
+    error,
+    refresh,
+    book,
+    cancel,
+    hold,
+    changeHoldSeat,
+    confirmHold,
+    releaseHold,
+  }
+}
+
+// Signed ticket code that rotates every minute while the ticket is on screen. The last code is kept
+// when a refresh fails, so a brief connection drop does not blank the ticket.
+export function useReservationQr(reservationId: string | null) {
+  const [payload, setPayload] = useState<string | null>(null)
+  const [expiresAt, setExpiresAt] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!reservationId) {
+      setPayload(null)
+      setExpiresAt(null)
+      setError(null)
+      return
+    }
+
+    const { data, error } = await supabase.rpc('issue_reservation_qr', { p_reservation_id: reservationId })
+    const issued = (data as { payload: string; expires_at: string }[] | null)?.at(0)
+
+    if (error || !issued) {
+      setError(error ? describeCinemaError(error) : 'No se pudo generar el código.')
+      return
+    }
+
+    setError(null)
+    setPayload(issued.payload)
+    setExpiresAt(issued.expires_at)
+  }, [reservationId])
+
+  useEffect(() => {
+    setPayload(null)
+    void refresh()
+    if (!reservationId) return
+
+    const interval = window.setInterval(() => void refresh(), QR_ROTATION_MS)
+    return () => window.clearInterval(interval)
+  }, [refresh, reservationId])
+
+  return { payload, expiresAt, error, refresh }
+}
+
+export function useMyWaitlist() {
+  const { user } = useSupabase()
+  const [entries, setEntries] = useState<MyWaitlistEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const userId = user?.id
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setEntries([])
+      setLoading(false)
+      return
+    }
+
+    setLoading(true)
+    const { data, error } = await supabase
+      .from('my_waitlist_entries')
+      .select('*')
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      setError(error.message)
+      setEntries([])
+    } else {
+      setError(null)
+      setEntries((data ?? []) as MyWaitlistEntry[])
+    }
+    setLoading(false)
+  }, [userId])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  const join = useCallback(
+    async (screeningId: string) => {
+      if (!userId) {
+        return { error: 'User not authenticated' }
+      }
+
+      const { error } = await supabase.from('waitlist').insert({ screening_id: screeningId, user_id: userId })
+
+      if (error) {
+        return { error: describeCinemaError(error) }
+      }
+
+      // the position is computed by the view, so reload instead of appending.
+      await refresh()
+      return { error: null }
+    },
+    [refresh, userId]
+  )
+
+  const leave = useCallback(async (id: string) => {
+    const { error } = await supabase.from('waitlist').delete().eq('id', id)
+
+    if (error) {
+      return { error: describeCinemaError(error) }
+    }
+
+    setEntries((current) => current.filter((entry) => entry.id !== id))
+    return { error: null }
+  }, [])
+
+  return { data: entries, loading, error, refresh, join, leave }
+}
+
+export function useMyNotifications() {
+  const { user } = useSupabase()
+  const [notifications, setNotifications] = useState<UserNotification[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const userId = user?.id
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setNotifications([])
+      setLoading(false)
+      return
+    }
+
+    setLoading(true)
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(50)
+
+    if (error) {
+      setError(error.message)
+      setNotifications([])
+    } else {
+      setError(null)
+      setNotifications((data ?? []) as UserNotification[])
+    }
+    setLoading(false)
+  }, [userId])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  // Without ids every unread notification of the user is marked.
+  const markRead = useCallback(async (ids?: string[]) => {
+    const { error } = await supabase.rpc('mark_notifications_read', { p_ids: ids ?? null })
+
+    if (error) {
+      return { error: describeCinemaError(error) }
+    }
+
+    const readAt = new Date().toISOString()
+    setNotifications((current) =>
+      current.map((notification) =>
+        !notification.read_at && (!ids || ids.includes(notification.id))
+          ? { ...notification, read_at: readAt }
+          : notification
+      )
+    )
+    return { error: null }
+  }, [])
+
+  return { data: notifications, loading, error, refresh, markRead }
+}
+
+export function useScreeningWaitlist(screeningId: string | null) {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!screeningId) {
+      setEntries([])
+      setError(null)
+      return
+    }
+
+    setLoading(true)
+    const { data, error } = await supabase
+      .from('waitlist')
+      .select('*')
+      .eq('screening_id', screeningId)
+      .eq('status', 'waiting')
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      setError(error.message)
+      setEntries([])
+      setLoading(false)
+      return
+    }
+
+    // waitlist.user_id points at auth.users, so profiles are looked up separately.
+    const rows = (data ?? []) as WaitlistEntry[]
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('user_id, first_name, last_name, email, role')
+      .in(
+        'user_id',
+        rows.map((row) => row.user_id)
+      )
+
+    const profilesById = new Map((profiles ?? []).map((profile) => [profile.user_id, profile]))
+    setError(null)
+    setEntries(rows.map((row) => ({ ...row, profile: profilesById.get(row.user_id) ?? null })))
+    setLoading(false)
+  }, [screeningId])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  const promote = useCallback(
+    async (id: string) => {
+      const { error } = await supabase.rpc('admin_promote_waitlist_entry', { p_entry_id: id })
+
+      if (error) {
+        return { error: describeCinemaError(error) }
+      }
+
+      await refresh()
+      return { error: null }
+    },
+    [refresh]
+  )
+
+  const remove = useCallback(async (id: string) => {
+    const { error } = await supabase.from('waitlist').update({ status: 'removed' }).eq('id', id)
+
+    if (error) {
+      return { error: describeCinemaError(error) }
+    }
+
+    setEntries((current) => current.filter((entry) => entry.id !== id))
+    return { error: null }
+  }, [])
+
+  return { data: entries, loading, error, refresh, promote, remove }
+}
@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useState } from 'react'
+import { endOfDay, startOfDay } from 'date-fns'
+import { supabase } from '@/lib/supabase/client'
+import { describeCinemaError } from '@/lib/cinema-errors'
+import {
+  countManifestEntries,
+  getDeviceId,
+  getManifestDownloadedAt,
+  listQueuedAttempts,
+  listQueuedScans,
+  removeQueuedAttempts,
+  removeQueuedScans,
+  saveManifest,
+  validateOffline,
+  type ManifestEntry,
+  type QueuedScan,
+} from '@/lib/offline-scans'
+
+export type OfflineSyncOutcome = 'synced' | 'already_synced' | 'conflict' | 'rejected'
+
+// One row of public.sync_offline_scans, joined back to the queued scan it answers.
+export type OfflineSyncResult = {
+  local_id: string
+  reservation_id: string | null
+  outcome: OfflineSyncOutcome
+  message: string
+  conflict_scanned_at: string | null
+  conflict_device_id: string | null
+  scan: QueuedScan | null
+}
+
+const readOnline = () => (typeof navigator === 'undefined' ? true : navigator.onLine)
+
+const describeStorageError = (storageError: unknown) =>
+  storageError instanceof Error ? storageError.message : 'No se pudo abrir el almacenamiento local.'
+
+export function useOfflineScans() {
+  const [online, setOnline] = useState(readOnline)
+  const [manifestCount, setManifestCount] = useState(0)
+  const [downloadedAt, setDownloadedAt] = useState<string | null>(null)
+  const [pending, setPending] = useState<QueuedScan[]>([])
+  const [pendingAttempts, setPendingAttempts] = useState(0)
+  const [issues, setIssues] = useState<OfflineSyncResult[]>([])
+  const [downloading, setDownloading] = useState(false)
+  const [syncing, setSyncing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    try {
+      const [count, downloaded, queued, attempts] = await Promise.all([
+        countManifestEntries(),
+        getManifestDownloadedAt(),
+        listQueuedScans(),
+        listQueuedAttempts(),
+      ])
+      setManifestCount(count)
+      setDownloadedAt(downloaded ?? null)
+      setPending(queued)
+      setPendingAttempts(attempts.length)
+      setError(null)
+    } catch (storageError) {
+      setError(describeStorageError(storageError))
+    }
+  }, [])
+
+  useEffect(() => {
+    void reload()
+  }, [reload])
+
+  // Today's screenings in the scanner's local day.
+  const downloadManifest = useCallback(async () => {
+    setDownloading(true)
+    try {
+      const now = new Date()
+      const { data, error } = await supabase.rpc('offline_scan_manifest', {
+        p_from: startOfDay(now).toISOString(),
+        p_to: endOfDay(now).toISOString(),
+      })
+
+      if (error) {
+        return { data: null, error: describeCinemaError(error) }
+      }
+
+      const entries = (data ?? []) as ManifestEntry[]
+      await saveManifest(entries)
+      await reload()
+      return { data: entries.length, error: null }
+    } catch (storageError) {
+      return { data: null, error: describeStorageError(storageError) }
+    } finally {
+      setDownloading(false)
+    }
+  }, [reload])
+
+  const validate = useCallback(
+    async (token: string, screeningId: string) => {
+      // a failed check is left to the caller; the counters are refreshed either way.
+      try {
+        return await validateOffline(token, screeningId)
+      } finally {
+        await reload()
+      }
+    },
+    [reload]
+  )
+
+  // Every answered scan leaves the queue; conflicts and rejections are kept for the operator to review.
+  // Check-ins go first. Scans the device refused on its own are only recorded as attempts, so a failed
+  // attempt upload is reported without holding back attendance; those attempts stay queued.
+  const sync = useCallback(async (): Promise<{ data: OfflineSyncResult[] | null; error: string | null }> => {
+    setSyncing(true)
+    try {
+      const [queued, attempts] = await Promise.all([listQueuedScans(), listQueuedAttempts()])
+      if (queued.length === 0 && attempts.length === 0) {
+        return { data: [], error: null }
+      }
+
+      const deviceId = await getDeviceId()
+      let results: OfflineSyncResult[] = []
+
+      if (queued.length > 0) {
+        const { data, error } = await supabase.rpc('sync_offline_scans', {
+          p_device_id: deviceId,
+          p_scans: queued.map(({ local_id, token, screening_id, scanned_at }) => ({
+            local_id,
+            token,
+            screening_id,
+            scanned_at,
+          })),
+        })
+
+        if (error) {
+          return { data: null, error: describeCinemaError(error) }
+        }
+
+        const scansById = new Map(queued.map((scan) => [scan.local_id, scan]))
+        results = ((data ?? []) as Omit<OfflineSyncResult, 'scan'>[]).map((row) => ({
+          ...row,
+          scan: scansById.get(row.local_id) ?? null,
+        }))
+
+        await removeQueuedScans(results.map((result) => result.local_id))
+        setIssues((current) => [
+          ...results.filter((result) => result.outcome === 'conflict' || result.outcome === 'rejected'),
+          ...current,
+        ])
+      }
+
+      let attemptsError: string | null = null
+      if (attempts.length > 0) {
+        const { error } = await supabase.rpc('log_offline_scan_attempts', {
+          p_device_id: deviceId,
+          p_attempts: attempts.map(({ local_id, token, outcome, message, reservation_id, screening_id, attempted_at }) => ({
+            attempt_id: local_id,
+            token,
+            outcome,
+            message,
+            reservation_id,
+            screening_id,
+            attempted_at,
+          })),
+        })
+
+        if (error) {
+          attemptsError = `No se pudieron registrar los escaneos rechazados: ${describeCinemaError(error)}`
+        } else {
+          await removeQueuedAttempts(attempts.map((attempt) => attempt.local_id))
+        }
+      }
+
+      await reload()
+      return { data: results, error: attemptsError }
+    } catch (storageError) {
+      return { data: null, error: describeStorageError(storageError) }
+    } finally {
+      setSyncing(false)
+    }
+  }, [reload])
+
+  const dismissIssues = useCallback(() => setIssues([]), [])
+
+  // Queued scans are uploaded as soon as the browser reports the connection is back.
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true)
+      void sync().then(({ error }) => {
+        if (error) setError(error)
+      })
+    }
+    const handleOffline = () => setOnline(false)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [sync])
+
+  return {
+    online,
+    manifestCount,
+    downloadedAt,
+    pending,
+    pendingAttempts,
+    issues,
+    downloading,
+    syncing,
+    error,
+    downloadManifest,
+    validate,
+    sync,
+    dismissIssues,
+  }
+}
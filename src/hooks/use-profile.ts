@@ -6,16 +6,17 @@ export type Profile = {
   first_name: string | null
   last_name: string | null
   avatar_url: string | null
+  email: string | null
   role: string
   created_at: string
   updated_at: string
 }
 
+// role is deliberately absent: it can only change through the admin-only set_user_role RPC.
 export type ProfileInput = {
   first_name?: string | null
   last_name?: string | null
   avatar_url?: string | null
-  role?: string
 }
 
 export type UseProfileState = {
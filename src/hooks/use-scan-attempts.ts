@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import type { ScanAttemptOutcome } from '@/lib/scan-attempts'
+
+type AttemptProfile = {
+  user_id: string
+  first_name: string | null
+  last_name: string | null
+  email: string | null
+}
+
+export type ScanAttempt = {
+  id: number
+  outcome: ScanAttemptOutcome
+  message: string
+  token_fingerprint: string
+  reservation_id: string | null
+  screening_id: string | null
+  scanned_by: string | null
+  device_id: string | null
+  offline: boolean
+  attempted_at: string
+  scanner?: AttemptProfile | null
+  reservation?: {
+    id: string
+    seat_label: string | null
+    profile?: AttemptProfile | null
+    screening?: {
+      starts_at: string
+      movie?: { title: string } | null
+    } | null
+  } | null
+}
+
+// One row of public.scan_attempt_alerts: a ticket tried three or more times in the last day.
+export type ScanAttemptAlert = {
+  ticket_key: string
+  reservation_id: string | null
+  token_fingerprint: string
+  attempt_count: number
+  failed_count: number
+  scanner_count: number
+  first_attempt_at: string
+  last_attempt_at: string
+}
+
+const SCAN_ATTEMPTS_LIMIT = 200
+
+export function useScanAttempts() {
+  const [attempts, setAttempts] = useState<ScanAttempt[]>([])
+  const [alerts, setAlerts] = useState<ScanAttemptAlert[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    const [attemptsResult, alertsResult] = await Promise.all([
+      supabase
+        .from('scan_attempts')
+        .select(
+          '*, scanner:profiles(user_id, first_name, last_name, email), reservation:reservations(id, seat_label, profile:profiles(user_id, first_name, last_name, email), screening:screenings(starts_at, movie:movies(title)))'
+        )
+        .order('attempted_at', { ascending: false })
+        .limit(SCAN_ATTEMPTS_LIMIT),
+      supabase.from('scan_attempt_alerts').select('*').order('last_attempt_at', { ascending: false }),
+    ])
+
+    const queryError = attemptsResult.error ?? alertsResult.error
+    if (queryError) {
+      setError(queryError.message)
+      setAttempts([])
+      setAlerts([])
+    } else {
+      setError(null)
+      setAttempts((attemptsResult.data ?? []) as ScanAttempt[])
+      setAlerts((alertsResult.data ?? []) as ScanAttemptAlert[])
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  return { data: attempts, alerts, loading, error, refresh, limit: SCAN_ATTEMPTS_LIMIT }
+}
@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import type { UserRole } from '@/lib/roles'
+import { describeCinemaError } from '@/lib/cinema-errors'
+import { useSupabase } from '@/hooks/use-supabase'
+
+export type UserAccount = {
+  user_id: string
+  first_name: string | null
+  last_name: string | null
+  avatar_url: string | null
+  role: string
+  email: string | null
+  created_at: string
+  last_sign_in_at: string | null
+  reservation_count: number
+  attended_count: number
+  last_reserved_at: string | null
+  last_activity_at: string | null
+}
+
+export type RoleChange = {
+  id: string
+  user_id: string
+  old_role: string | null
+  new_role: string
+  changed_by: string | null
+  created_at: string
+}
+
+const ROLE_CHANGES_LIMIT = 20
+
+export function useUserAccounts() {
+  const [accounts, setAccounts] = useState<UserAccount[]>([])
+  const [roleChanges, setRoleChanges] = useState<RoleChange[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    const [overview, changes] = await Promise.all([
+      supabase.from('admin_user_overview').select('*').order('created_at', { ascending: false }),
+      supabase
+        .from('role_changes')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(ROLE_CHANGES_LIMIT),
+    ])
+
+    const failure = overview.error ?? changes.error
+    if (failure) {
+      setError(failure.message)
+      setAccounts([])
+      setRoleChanges([])
+    } else {
+      setError(null)
+      setAccounts((overview.data ?? []) as UserAccount[])
+      setRoleChanges((changes.data ?? []) as RoleChange[])
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  // goes through the audited set_user_role RPC; profiles.role cannot be written directly.
+  const setRole = useCallback(
+    async (userId: string, role: UserRole) => {
+      const { error } = await supabase.rpc('set_user_role', { p_user_id: userId, p_role: role })
+
+      if (error) {
+        return { error: error.message }
+      }
+
+      await refresh()
+      return { error: null }
+    },
+    [refresh]
+  )
+
+  return { data: accounts, roleChanges, loading, error, refresh, setRole }
+}
+
+export type UserInvitation = {
+  id: string
+  email: string
+  role: string
+  note: string | null
+  invited_by: string | null
+  accepted_user_id: string | null
+  accepted_at: string | null
+  created_at: string
+}
+
+export type UserInvitationInput = {
+  email: string
+  role: UserRole
+  note?: string | null
+}
+
+export type AllowedEmailDomain = {
+  domain: string
+  note: string | null
+  created_at: string
+}
+
+// sign-up access: the domains anyone can register with and the explicit invitations for everyone else.
+export function useSignupAccess() {
+  const { user } = useSupabase()
+  const [invitations, setInvitations] = useState<UserInvitation[]>([])
+  const [domains, setDomains] = useState<AllowedEmailDomain[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    const [invitationRows, domainRows] = await Promise.all([
+      supabase.from('user_invitations').select('*').order('created_at', { ascending: false }),
+      supabase.from('allowed_email_domains').select('*').order('domain', { ascending: true }),
+    ])
+
+    const failure = invitationRows.error ?? domainRows.error
+    if (failure) {
+      setError(failure.message)
+      setInvitations([])
+      setDomains([])
+    } else {
+      setError(null)
+      setInvitations((invitationRows.data ?? []) as UserInvitation[])
+      setDomains((domainRows.data ?? []) as AllowedEmailDomain[])
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  const invite = useCallback(
+    async (input: UserInvitationInput) => {
+      const { error } = await supabase.from('user_invitations').insert({
+        email: input.email.trim().toLowerCase(),
+        role: input.role,
+        note: input.note || null,
+        invited_by: user?.id ?? null,
+      })
+
+      if (error) {
+        return { error: describeCinemaError(error) }
+      }
+
+      await refresh()
+      return { error: null }
+    },
+    [refresh, user?.id]
+  )
+
+  const revokeInvitation = useCallback(
+    async (id: string) => {
+      const { error } = await supabase.from('user_invitations').delete().eq('id', id)
+
+      if (error) {
+        return { error: error.message }
+      }
+
+      await refresh()
+      return { error: null }
+    },
+    [refresh]
+  )
+
+  const addDomain = useCallback(
+    async (domain: string, note?: string | null) => {
+      const { error } = await supabase.from('allowed_email_domains').insert({
+        domain: domain.trim().toLowerCase().replace(/^@/, ''),
+        note: note || null,
+      })
+
+      if (error) {
+        return { error: describeCinemaError(error) }
+      }
+
+      await refresh()
+      return { error: null }
+    },
+    [refresh]
+  )
+
+  const removeDomain = useCallback(
+    async (domain: string) => {
+      const { error } = await supabase.from('allowed_email_domains').delete().eq('domain', domain)
+
+      if (error) {
+        return { error: error.message }
+      }
+
+      await refresh()
+      return { error: null }
+    },
+    [refresh]
+  )
+
+  return {
+    invitations,
+    domains,
+    loading,
+    error,
+    refresh,
+    invite,
+    revokeInvitation,
+    addDomain,
+    removeDomain,
+  }
+}
@@ -20,51 +20,104 @@ import { ModeToggle } from '@/components/mode-toggle'
 import { CurrentUserAvatar } from '@/components/auth/current-user-avatar'
 import { Button } from '@/components/ui/button'
 import {
+  Armchair,
   CalendarClock,
   Clapperboard,
+  Film,
+  History,
   LayoutDashboard,
   QrCode,
   Ticket,
+  Trash2,
+  Users,
+  type LucideIcon,
 } from 'lucide-react'
 import { useSupabase } from '@/hooks/use-supabase'
+import { useProfile } from '@/hooks/use-profile'
+import { hasRole, type UserRole } from '@/lib/roles'
 import { Separator } from '@/components/ui/separator'
 
-const NAV_ITEMS = [
+type NavItem = {
+  label: string
+  href: string
+  icon: LucideIcon
+  // roles that see the section; the routes in App.tsx follow the same split.
+  roles: UserRole[]
+  match: string
+}
+
+const NAV_ITEMS: NavItem[] = [
   {
     label: 'Dashboard',
     href: '/admin/dashboard',
     icon: LayoutDashboard,
+    roles: ['admin'],
     match: '/admin/dashboard',
   },
   {
     label: 'Películas',
     href: '/admin/movies',
     icon: Clapperboard,
+    roles: ['admin'],
     match: '/admin/movies',
   },
+  {
+    label: 'Salas',
+    href: '/admin/auditoriums',
+    icon: Armchair,
+    roles: ['admin'],
+    match: '/admin/auditoriums',
+  },
   {
     label: 'Funciones',
     href: '/admin/screenings',
     icon: CalendarClock,
+    roles: ['admin'],
     match: '/admin/screenings',
   },
   {
     label: 'Reservas',
     href: '/admin/reservations',
     icon: Ticket,
+    roles: ['admin'],
     match: '/admin/reservations',
   },
   {
     label: 'Asistencias',
     href: '/admin/attendance',
     icon: QrCode,
+    roles: ['admin', 'staff'],
     match: '/admin/attendance',
   },
+  {
+    label: 'Usuarios',
+    href: '/admin/users',
+    icon: Users,
+    roles: ['admin'],
+    match: '/admin/users',
+  },
+  {
+    label: 'Papelera',
+    href: '/admin/trash',
+    icon: Trash2,
+    roles: ['admin'],
+    match: '/admin/trash',
+  },
+  {
+    label: 'Auditoría',
+    href: '/admin/audit',
+    icon: History,
+    roles: ['admin'],
+    match: '/admin/audit',
+  },
 ]
 
 export function AdminLayout() {
   const location = useLocation()
   const { signOut } = useSupabase()
+  const { profile } = useProfile()
+
+  const navItems = NAV_ITEMS.filter((item) => hasRole(profile?.role, ...item.roles))
 
   const isActive = (match: string) => {
     return location.pathname === match || location.pathname.startsWith(`${match}/`)
@@ -74,7 +127,7 @@ export function AdminLayout() {
     <SidebarProvider>
       <Sidebar collapsible="icon" className="bg-muted/40">
         <SidebarHeader className="px-4 pb-2 pt-6">
-          <Link to="/admin/dashboard" className="flex items-center gap-2">
+          <Link to="/admin" className="flex items-center gap-2">
             <div className="flex h-9 w-9 items-center justify-center rounded-md bg-primary text-primary-foreground font-semibold">
               CU
             </div>
@@ -87,7 +140,7 @@ export function AdminLayout() {
             <SidebarGroupLabel>Gestión</SidebarGroupLabel>
             <SidebarGroupContent>
               <SidebarMenu>
-                {NAV_ITEMS.map((item) => {
+                {navItems.map((item) => {
                   const Icon = item.icon
                   return (
                     <SidebarMenuItem key={item.href}>
@@ -106,6 +159,12 @@ export function AdminLayout() {
         </SidebarContent>
         <SidebarFooter>
           <ModeToggle />
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/student/billboard" className="flex items-center gap-2">
+              <Film className="h-4 w-4" />
+              <span>Ver cartelera</span>
+            </Link>
+          </Button>
           <Button variant="ghost" size="sm" onClick={() => void signOut()}>
             Cerrar sesión
           </Button>
@@ -118,7 +177,7 @@ export function AdminLayout() {
             <div className="flex items-center gap-2">
               <SidebarTrigger className="md:hidden" />
               <span className="text-lg font-semibold">
-                {NAV_ITEMS.find((item) => location.pathname.startsWith(item.match))?.label ?? 'Panel'}
+                {navItems.find((item) => location.pathname.startsWith(item.match))?.label ?? 'Panel'}
               </span>
             </div>
             <div className="flex items-center gap-3">
@@ -0,0 +1,87 @@
+import { Outlet, Link, useLocation } from 'react-router-dom'
+import { ModeToggle } from '@/components/mode-toggle'
+import { CurrentUserAvatar } from '@/components/auth/current-user-avatar'
+import { Button } from '@/components/ui/button'
+import { Separator } from '@/components/ui/separator'
+import { useProfile } from '@/hooks/use-profile'
+import { canAccessPanel } from '@/lib/roles'
+import { cn } from '@/lib/utils'
+import { Film, LayoutDashboard, Ticket } from 'lucide-react'
+
+const NAV_ITEMS = [
+  {
+    label: 'Cartelera',
+    href: '/student/billboard',
+    icon: Film,
+    match: '/student/billboard',
+  },
+  {
+    label: 'Mis entradas',
+    href: '/student/tickets',
+    icon: Ticket,
+    match: '/student/tickets',
+  },
+]
+
+export function StudentLayout() {
+  const location = useLocation()
+  const { profile } = useProfile()
+
+  const isActive = (match: string) => {
+    return location.pathname === match || location.pathname.startsWith(`${match}/`)
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <header className="sticky top-0 z-10 border-b bg-background/80 backdrop-blur">
+        <div className="mx-auto flex w-full max-w-6xl items-center justify-between gap-4 px-4 py-3">
+          <div className="flex items-center gap-6">
+            <Link to="/student/billboard" className="flex items-center gap-2">
+              <div className="flex h-9 w-9 items-center justify-center rounded-md bg-primary text-primary-foreground font-semibold">
+                CU
+              </div>
+              <span className="hidden text-base font-semibold tracking-tight sm:inline">Cine ULEAM</span>
+            </Link>
+            <nav className="flex items-center gap-1">
+              {NAV_ITEMS.map((item) => {
+                const Icon = item.icon
+                return (
+                  <Button
+                    key={item.href}
+                    asChild
+                    variant="ghost"
+                    size="sm"
+                    className={cn(isActive(item.match) && 'bg-accent text-accent-foreground')}
+                  >
+                    <Link to={item.href} className="flex items-center gap-2">
+                      <Icon className="h-4 w-4" />
+                      <span>{item.label}</span>
+                    </Link>
+                  </Button>
+                )
+              })}
+            </nav>
+          </div>
+          <div className="flex items-center gap-3">
+            {canAccessPanel(profile?.role) && (
+              <Button asChild variant="outline" size="sm">
+                <Link to="/admin" className="flex items-center gap-2">
+                  <LayoutDashboard className="h-4 w-4" />
+                  <span className="hidden sm:inline">Panel</span>
+                </Link>
+              </Button>
+            )}
+            <ModeToggle />
+            <Separator orientation="vertical" className="h-6" />
+            <CurrentUserAvatar />
+          </div>
+        </div>
+      </header>
+      <main className="flex-1 px-4 py-6">
+        <div className="mx-auto flex w-full max-w-6xl flex-col gap-6">
+          <Outlet />
+        </div>
+      </main>
+    </div>
+  )
+}
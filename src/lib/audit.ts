@@ -0,0 +1,93 @@
+import type { AuditEntry } from '@/hooks/use-audit-log'
+
+// Tables with an audit trigger (see the audit_log migration).
+export type AuditTable =
+  | 'movies'
+  | 'auditoriums'
+  | 'screenings'
+  | 'screening_series'
+  | 'reservations'
+  | 'attendance_logs'
+  | 'waitlist'
+  | 'holidays'
+  | 'cinema_settings'
+
+export type AuditAction = 'insert' | 'update' | 'delete'
+
+export const AUDIT_TABLE_LABELS: Record<AuditTable, string> = {
+  movies: 'Películas',
+  auditoriums: 'Salas',
+  screenings: 'Funciones',
+  screening_series: 'Series de funciones',
+  reservations: 'Reservas',
+  attendance_logs: 'Asistencias',
+  waitlist: 'Lista de espera',
+  holidays: 'Feriados',
+  cinema_settings: 'Ajustes',
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  insert: 'Creación',
+  update: 'Edición',
+  delete: 'Eliminación',
+}
+
+export type AuditDiffRow = {
+  field: string
+  before: unknown
+  after: unknown
+  changed: boolean
+}
+
+// Columns of the snapshot worth naming a record by, in order of preference.
+const LABEL_FIELDS = ['title', 'name', 'seat_label', 'starts_at', 'holiday_date']
+
+export const describeAuditRecord = (entry: AuditEntry) => {
+  const data = entry.new_data ?? entry.old_data ?? {}
+  const field = LABEL_FIELDS.find((key) => data[key] !== null && data[key] !== undefined)
+  return field ? formatAuditValue(data[field]) : entry.record_id
+}
+
+// Values are raw JSON from to_jsonb; timestamps are shown in local time.
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—'
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No'
+  if (typeof value === 'string') {
+    if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)) {
+      return new Intl.DateTimeFormat('es-EC', { dateStyle: 'medium', timeStyle: 'short' }).format(
+        new Date(value)
+      )
+    }
+    return value
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map(formatAuditValue).join(', ') : '—'
+  }
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// Rows for the diff view: only the changed columns of an update, every column of an insert or delete.
+export const auditDiffRows = (entry: AuditEntry): AuditDiffRow[] => {
+  const before = entry.old_data ?? {}
+  const after = entry.new_data ?? {}
+
+  if (entry.action === 'update') {
+    return entry.changed_fields.map((field) => ({
+      field,
+      before: before[field],
+      after: after[field],
+      changed: true,
+    }))
+  }
+
+  const snapshot = entry.action === 'insert' ? after : before
+  return Object.keys(snapshot)
+    .sort()
+    .map((field) => ({
+      field,
+      before: before[field],
+      after: after[field],
+      changed: false,
+    }))
+}
@@ -0,0 +1,57 @@
+import type { PostgrestError } from '@supabase/supabase-js'
+
+// Custom SQLSTATE codes raised by the cinema migrations.
+export const CINEMA_ERROR_CODES = {
+  screeningFull: 'CU001',
+  capacityBelowReserved: 'CU002',
+  invalidSeat: 'CU003',
+  holdExpired: 'CU004',
+  waitlistUnavailable: 'CU005',
+  screeningNotEnded: 'CU006',
+  invalidStatusTransition: 'CU007',
+  screeningCancelled: 'CU008',
+  softDeleteBlocked: 'CU009',
+} as const
+
+const UNIQUE_VIOLATION = '23505'
+const FOREIGN_KEY_VIOLATION = '23503'
+const EXCLUSION_VIOLATION = '23P01'
+const CHECK_VIOLATION = '23514'
+
+const CONSTRAINT_MESSAGES: Record<string, string> = {
+  reservations_user_screening_unique: 'Ya existe una reserva de este usuario para la función.',
+  reservations_screening_seat_unique: 'Ese asiento acaba de ser reservado. Elige otro.',
+  waitlist_user_screening_unique: 'Ya estás en la lista de espera de esta función.',
+  auditoriums_name_unique: 'Ya existe una sala con ese nombre.',
+  auditoriums_blocked_seats_valid: 'Los asientos bloqueados deben existir en la sala y no repetirse.',
+  auditoriums_wheelchair_seats_valid: 'Los espacios para silla de ruedas deben existir en la sala y no repetirse.',
+  auditoriums_seat_markings_disjoint: 'Un asiento no puede estar bloqueado y reservado para silla de ruedas a la vez.',
+  user_invitations_email_unique: 'Ese correo ya tiene una invitación.',
+  allowed_email_domains_pkey: 'Ese dominio ya está permitido.',
+  holidays_pkey: 'Esa fecha ya está registrada como feriado.',
+  screenings_no_overlap:
+    'La sala ya tiene otra función en ese horario, contando el tiempo de limpieza entre funciones.',
+  screenings_auditorium_id_fkey: 'La sala tiene funciones asociadas y no puede eliminarse.',
+  reservations_screening_id_fkey: 'La función tiene reservas registradas y no puede eliminarse definitivamente.',
+}
+
+// Turns a PostgREST error into the message shown in toasts across the cinema pages.
+export const describeCinemaError = (error: Pick<PostgrestError, 'code' | 'message'>) => {
+  if (error.code === CINEMA_ERROR_CODES.screeningFull) {
+    return 'No quedan cupos disponibles para esta función.'
+  }
+
+  if (
+    error.code === UNIQUE_VIOLATION ||
+    error.code === FOREIGN_KEY_VIOLATION ||
+    error.code === EXCLUSION_VIOLATION ||
+    error.code === CHECK_VIOLATION
+  ) {
+    const constraint = Object.keys(CONSTRAINT_MESSAGES).find((name) => error.message.includes(name))
+    if (constraint) {
+      return CONSTRAINT_MESSAGES[constraint]
+    }
+  }
+
+  return error.message
+}
@@ -0,0 +1,295 @@
+import type { ReservationStatus } from '@/hooks/use-cinema'
+import { parseQrPayload, qrFreshnessFailure, verifyQrSignature } from '@/lib/qr-payload'
+import type { ScanAttemptOutcome } from '@/lib/scan-attempts'
+
+// One row of public.offline_scan_manifest.
+export type ManifestEntry = {
+  reservation_id: string
+  screening_id: string
+  // Hex HMAC key of the screening, used to check ticket signatures offline.
+  signing_key: string
+  status: ReservationStatus
+  seat_label: string | null
+  attendee: string
+  movie_title: string
+  starts_at: string
+  doors_open_at: string
+  entry_closes_at: string
+  checked_in_at: string | null
+}
+
+export type QueuedScan = {
+  local_id: string
+  // The scanned payload, verified again by the server on sync.
+  token: string
+  reservation_id: string
+  screening_id: string
+  attendee: string
+  movie_title: string
+  scanned_at: string
+}
+
+// A scan refused on this device, uploaded with log_offline_scan_attempts.
+export type QueuedAttempt = {
+  local_id: string
+  token: string
+  outcome: ScanAttemptOutcome
+  message: string
+  reservation_id: string | null
+  screening_id: string
+  attempted_at: string
+}
+
+export type OfflineValidation = {
+  outcome: ScanAttemptOutcome
+  message: string
+  isValid: boolean
+  alreadyScanned: boolean
+  entry: ManifestEntry | null
+}
+
+const DB_NAME = 'cinema-offline-scans'
+const DB_VERSION = 3
+const MANIFEST_STORE = 'manifest'
+const QUEUE_STORE = 'queue'
+const META_STORE = 'meta'
+const ATTEMPTS_STORE = 'attempts'
+
+const DEVICE_ID_KEY = 'device_id'
+const DOWNLOADED_AT_KEY = 'manifest_downloaded_at'
+
+const formatTime = (iso: string) =>
+  new Intl.DateTimeFormat('es-EC', { timeStyle: 'short' }).format(new Date(iso))
+
+const formatDateTime = (iso: string) =>
+  new Intl.DateTimeFormat('es-EC', { dateStyle: 'short', timeStyle: 'short' }).format(new Date(iso))
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = (event) => {
+        const db = request.result
+        if (event.oldVersion < 1) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'local_id' })
+          db.createObjectStore(META_STORE)
+        }
+        // Version 1 keyed the manifest by the raw qr_token, which signed tickets no longer carry.
+        if (event.oldVersion < 2) {
+          if (event.oldVersion === 1) {
+            db.deleteObjectStore(MANIFEST_STORE)
+          }
+          db.createObjectStore(MANIFEST_STORE, { keyPath: 'reservation_id' })
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(ATTEMPTS_STORE, { keyPath: 'local_id' })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+const readMeta = async <T>(key: string) => {
+  const db = await openDb()
+  return requestToPromise(db.transaction(META_STORE).objectStore(META_STORE).get(key)) as Promise<T | undefined>
+}
+
+const writeMeta = async (key: string, value: unknown) => {
+  const db = await openDb()
+  const transaction = db.transaction(META_STORE, 'readwrite')
+  transaction.objectStore(META_STORE).put(value, key)
+  await transactionDone(transaction)
+}
+
+// Stable per browser, so the server can tell a retried upload from a scan made on another device.
+export const getDeviceId = async () => {
+  const existing = await readMeta<string>(DEVICE_ID_KEY)
+  if (existing) return existing
+  const deviceId = crypto.randomUUID()
+  await writeMeta(DEVICE_ID_KEY, deviceId)
+  return deviceId
+}
+
+export const getManifestDownloadedAt = () => readMeta<string>(DOWNLOADED_AT_KEY)
+
+// Replaces the stored manifest. Reservations scanned locally but not yet synced stay checked in.
+export const saveManifest = async (entries: ManifestEntry[]) => {
+  const db = await openDb()
+  const queued = await listQueuedScans()
+  const scannedLocally = new Map(queued.map((scan) => [scan.reservation_id, scan.scanned_at]))
+
+  const transaction = db.transaction([MANIFEST_STORE, META_STORE], 'readwrite')
+  const store = transaction.objectStore(MANIFEST_STORE)
+  store.clear()
+  entries.forEach((entry) => {
+    const localScan = scannedLocally.get(entry.reservation_id)
+    store.put(localScan && !entry.checked_in_at ? { ...entry, status: 'checked_in', checked_in_at: localScan } : entry)
+  })
+  transaction.objectStore(META_STORE).put(new Date().toISOString(), DOWNLOADED_AT_KEY)
+  await transactionDone(transaction)
+}
+
+export const countManifestEntries = async () => {
+  const db = await openDb()
+  return requestToPromise(db.transaction(MANIFEST_STORE).objectStore(MANIFEST_STORE).count())
+}
+
+export const listQueuedScans = async () => {
+  const db = await openDb()
+  const scans = await requestToPromise(db.transaction(QUEUE_STORE).objectStore(QUEUE_STORE).getAll())
+  return (scans as QueuedScan[]).sort((a, b) => a.scanned_at.localeCompare(b.scanned_at))
+}
+
+export const listQueuedAttempts = async () => {
+  const db = await openDb()
+  return (await requestToPromise(
+    db.transaction(ATTEMPTS_STORE).objectStore(ATTEMPTS_STORE).getAll()
+  )) as QueuedAttempt[]
+}
+
+export const removeQueuedAttempts = async (localIds: string[]) => {
+  if (localIds.length === 0) return
+  const db = await openDb()
+  const transaction = db.transaction(ATTEMPTS_STORE, 'readwrite')
+  const store = transaction.objectStore(ATTEMPTS_STORE)
+  localIds.forEach((id) => store.delete(id))
+  await transactionDone(transaction)
+}
+
+export const removeQueuedScans = async (localIds: string[]) => {
+  if (localIds.length === 0) return
+  const db = await openDb()
+  const transaction = db.transaction(QUEUE_STORE, 'readwrite')
+  const store = transaction.objectStore(QUEUE_STORE)
+  localIds.forEach((id) => store.delete(id))
+  await transactionDone(transaction)
+}
+
+// Same rules as validate_reservation_qr, applied to the downloaded manifest. A valid scan is queued for
+// sync and marks the reservation as checked in on this device.
+const checkOfflineScan = async (token: string, screeningId: string): Promise<OfflineValidation> => {
+  const rejected = (outcome: ScanAttemptOutcome, message: string, entry: ManifestEntry | null = null) => ({
+    outcome,
+    message,
+    isValid: false,
+    alreadyScanned: outcome === 'already_scanned',
+    entry,
+  })
+
+  const payload = parseQrPayload(token)
+  if (!payload) {
+    return rejected('invalid', 'Código QR inválido. Pide que abran la entrada en la aplicación.')
+  }
+
+  const db = await openDb()
+  const entry = (await requestToPromise(
+    db.transaction(MANIFEST_STORE).objectStore(MANIFEST_STORE).get(payload.reservationId)
+  )) as ManifestEntry | undefined
+
+  if (!entry) {
+    return rejected('not_found', 'El código no está en las reservas descargadas.')
+  }
+
+  if (payload.screeningId !== entry.screening_id || !(await verifyQrSignature(payload, entry.signing_key))) {
+    return rejected('bad_signature', 'La firma del código QR no es válida.')
+  }
+
+  const now = new Date()
+  const freshnessFailure = qrFreshnessFailure(payload, now)
+  if (freshnessFailure) {
+    return rejected(freshnessFailure.outcome, freshnessFailure.message, entry)
+  }
+
+  if (entry.status === 'cancelled') {
+    return rejected('cancelled', 'La reserva está cancelada y no puede registrarse asistencia.', entry)
+  }
+
+  if (entry.screening_id !== screeningId) {
+    return rejected(
+      'wrong_screening',
+      `Función equivocada: la entrada es para ${entry.movie_title} el ${formatDateTime(entry.starts_at)}.`,
+      entry
+    )
+  }
+
+  if (entry.checked_in_at) {
+    return rejected('already_scanned', 'Esta reserva ya fue validada previamente.', entry)
+  }
+
+  if (now < new Date(entry.doors_open_at)) {
+    return rejected('too_early', `Demasiado pronto: la entrada abre a las ${formatTime(entry.doors_open_at)}.`, entry)
+  }
+  if (now > new Date(entry.entry_closes_at)) {
+    return rejected('too_late', `Demasiado tarde: la entrada cerró a las ${formatTime(entry.entry_closes_at)}.`, entry)
+  }
+
+  if (entry.status !== 'confirmed' && entry.status !== 'no_show') {
+    return rejected('not_admissible', 'La reserva no puede registrarse en su estado actual.', entry)
+  }
+
+  const scannedAt = now.toISOString()
+  const checkedIn: ManifestEntry = { ...entry, status: 'checked_in', checked_in_at: scannedAt }
+  const transaction = db.transaction([MANIFEST_STORE, QUEUE_STORE], 'readwrite')
+  transaction.objectStore(MANIFEST_STORE).put(checkedIn)
+  transaction.objectStore(QUEUE_STORE).put({
+    local_id: crypto.randomUUID(),
+    token,
+    reservation_id: entry.reservation_id,
+    screening_id: entry.screening_id,
+    attendee: entry.attendee,
+    movie_title: entry.movie_title,
+    scanned_at: scannedAt,
+  } satisfies QueuedScan)
+  await transactionDone(transaction)
+
+  return {
+    outcome: 'checked_in',
+    message: 'Asistencia registrada sin conexión.',
+    isValid: true,
+    alreadyScanned: false,
+    entry: checkedIn,
+  }
+}
+
+// Refused scans are kept as attempts and uploaded with the next sync.
+export const validateOffline = async (token: string, screeningId: string) => {
+  const result = await checkOfflineScan(token, screeningId)
+
+  if (!result.isValid) {
+    const db = await openDb()
+    const transaction = db.transaction(ATTEMPTS_STORE, 'readwrite')
+    transaction.objectStore(ATTEMPTS_STORE).put({
+      local_id: crypto.randomUUID(),
+      token,
+      outcome: result.outcome,
+      message: result.message,
+      reservation_id: result.entry?.reservation_id ?? null,
+      screening_id: screeningId,
+      attempted_at: new Date().toISOString(),
+    } satisfies QueuedAttempt)
+    await transactionDone(transaction)
+  }
+
+  return result
+}
@@ -0,0 +1,72 @@
+// Signed ticket payloads, see the signed_qr_payloads migration for the format and the server side checks.
+export const QR_PAYLOAD_PREFIX = 'CU1'
+
+// The ticket view asks for a new code every minute; the door accepts a code for 90 seconds plus 30 of
+// clock skew, the same numbers private.resolve_qr_payload uses.
+export const QR_ROTATION_MS = 60_000
+const QR_MAX_AGE_SECONDS = 120
+const QR_MAX_SKEW_SECONDS = 30
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export type QrPayload = {
+  reservationId: string
+  screeningId: string
+  issuedAt: number
+  signature: string
+}
+
+export const parseQrPayload = (value: string): QrPayload | null => {
+  const parts = value.trim().split('.')
+  if (parts.length !== 5 || parts[0] !== QR_PAYLOAD_PREFIX) return null
+
+  const [, reservationId, screeningId, issuedAt, signature] = parts
+  if (!UUID_PATTERN.test(reservationId) || !UUID_PATTERN.test(screeningId) || !/^\d{1,12}$/.test(issuedAt)) {
+    return null
+  }
+
+  return { reservationId, screeningId, issuedAt: Number(issuedAt), signature: signature.toLowerCase() }
+}
+
+const hexToBytes = (hex: string) => {
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let index = 0; index < bytes.length; index += 1) {
+    bytes[index] = parseInt(hex.slice(index * 2, index * 2 + 2), 16)
+  }
+  return bytes
+}
+
+const bytesToHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('')
+
+// Offline check with the screening key from the manifest; the server checks again on sync.
+export const verifyQrSignature = async (payload: QrPayload, screeningKeyHex: string) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    hexToBytes(screeningKeyHex),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const message = new TextEncoder().encode(`${payload.reservationId}.${payload.screeningId}.${payload.issuedAt}`)
+  const signature = bytesToHex(await crypto.subtle.sign('HMAC', key, message))
+  return signature.slice(0, 32) === payload.signature
+}
+
+export type QrFreshnessFailure = {
+  outcome: 'clock_skew' | 'expired'
+  message: string
+}
+
+// Null while the code is fresh at `now`, otherwise why it was refused. A code from the future is a
+// clock problem, not an old screenshot, so it gets its own outcome.
+export const qrFreshnessFailure = (payload: QrPayload, now: Date): QrFreshnessFailure | null => {
+  const ageSeconds = now.getTime() / 1000 - payload.issuedAt
+  if (ageSeconds < -QR_MAX_SKEW_SECONDS) {
+    return { outcome: 'clock_skew', message: 'El código QR tiene una hora inválida.' }
+  }
+  if (ageSeconds > QR_MAX_AGE_SECONDS) {
+    return { outcome: 'expired', message: 'El código QR expiró. Pide que muestren el código actualizado.' }
+  }
+  return null
+}
@@ -0,0 +1,15 @@
+export type UserRole = 'admin' | 'staff' | 'student'
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrador',
+  staff: 'Personal de sala',
+  student: 'Estudiante',
+}
+
+// Mirrors public.has_role: profiles.role is checked in the database with the same values.
+export const hasRole = (role: string | null | undefined, ...roles: UserRole[]) => {
+  return !!role && (roles as string[]).includes(role)
+}
+
+// Roles that can open the /admin panel; staff only sees the attendance scanner.
+export const canAccessPanel = (role: string | null | undefined) => hasRole(role, 'admin', 'staff')
@@ -0,0 +1,50 @@
+// Mirrors the outcome check of public.scan_attempts.
+export type ScanAttemptOutcome =
+  | 'checked_in'
+  | 'already_scanned'
+  | 'invalid'
+  | 'bad_signature'
+  | 'expired'
+  | 'clock_skew'
+  | 'not_found'
+  | 'stale'
+  | 'cancelled'
+  | 'deleted'
+  | 'wrong_screening'
+  | 'too_early'
+  | 'too_late'
+  | 'not_admissible'
+
+export const SCAN_OUTCOME_LABELS: Record<ScanAttemptOutcome, string> = {
+  checked_in: 'Ingreso',
+  already_scanned: 'Repetido',
+  invalid: 'Código inválido',
+  bad_signature: 'Firma inválida',
+  expired: 'Código vencido',
+  clock_skew: 'Hora inválida',
+  not_found: 'Sin reserva',
+  stale: 'Código desactualizado',
+  cancelled: 'Cancelada',
+  deleted: 'Eliminada',
+  wrong_screening: 'Otra función',
+  too_early: 'Muy temprano',
+  too_late: 'Muy tarde',
+  not_admissible: 'Estado no válido',
+}
+
+export const SCAN_OUTCOME_VARIANTS: Record<ScanAttemptOutcome, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  checked_in: 'default',
+  already_scanned: 'secondary',
+  invalid: 'destructive',
+  bad_signature: 'destructive',
+  expired: 'outline',
+  clock_skew: 'destructive',
+  not_found: 'destructive',
+  stale: 'outline',
+  cancelled: 'outline',
+  deleted: 'destructive',
+  wrong_screening: 'secondary',
+  too_early: 'outline',
+  too_late: 'outline',
+  not_admissible: 'outline',
+}
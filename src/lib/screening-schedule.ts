@@ -0,0 +1,68 @@
+import { addMinutes, differenceInMinutes, format, startOfDay } from 'date-fns'
+import type { Screening } from '@/hooks/use-cinema'
+
+// Calendar views snap drops and empty-slot clicks to this many minutes.
+export const SLOT_MINUTES = 30
+
+// Hours shown by the week and timeline views unless a screening falls outside them.
+export const DEFAULT_FIRST_HOUR = 8
+export const DEFAULT_LAST_HOUR = 23
+
+// Drag payload type used by the calendar views; the value is the screening id.
+export const SCREENING_DRAG_TYPE = 'application/x-screening-id'
+
+// Mirrors public.screening_ended_at: ends_at, or starts_at plus the movie duration.
+export const screeningEndsAt = (screening: Screening) => {
+  if (screening.ends_at) {
+    return new Date(screening.ends_at).getTime()
+  }
+  return new Date(screening.starts_at).getTime() + (screening.movie?.duration_minutes ?? 0) * 60_000
+}
+
+// Local calendar day of a timestamp, e.g. "2025-11-08".
+export const dayKey = (date: Date | string) => format(new Date(date), 'yyyy-MM-dd')
+
+export const groupScreeningsByDay = (screenings: Screening[]) => {
+  const groups = new Map<string, Screening[]>()
+  for (const screening of screenings) {
+    const key = dayKey(screening.starts_at)
+    groups.set(key, [...(groups.get(key) ?? []), screening])
+  }
+  return groups
+}
+
+// Minutes from local midnight of `day` until `date`; negative or above 1440 when on another day.
+export const minutesIntoDay = (day: Date, date: Date | string | number) =>
+  differenceInMinutes(new Date(date), startOfDay(day))
+
+// Visible hour range for the given screenings, widened to fit any that start early or end late.
+export const visibleHours = (screenings: Screening[]) => {
+  let first = DEFAULT_FIRST_HOUR
+  let last = DEFAULT_LAST_HOUR
+  for (const screening of screenings) {
+    const startsAt = new Date(screening.starts_at)
+    const endMinutes = minutesIntoDay(startsAt, screeningEndsAt(screening))
+    first = Math.min(first, startsAt.getHours())
+    last = Math.max(last, Math.min(23, Math.ceil(endMinutes / 60) - 1))
+  }
+  return { first, last }
+}
+
+// New start when a screening is dropped on `day` at `minutes` after midnight. A drop on a whole day
+// (month view) passes null and keeps the original time of day.
+export const rescheduledStart = (screening: Screening, day: Date, minutes: number | null) => {
+  const original = new Date(screening.starts_at)
+  const offset = minutes ?? original.getHours() * 60 + original.getMinutes()
+  return addMinutes(startOfDay(day), offset)
+}
+
+// Past and cancelled screenings stay on the calendars but cannot be dragged.
+export const isScreeningLocked = (screening: Screening) =>
+  screening.cancelled_at !== null || new Date(screening.starts_at).getTime() < Date.now()
+
+// Callbacks shared by the calendar views of the screenings page.
+export type ScreeningViewHandlers = {
+  onSelect: (screening: Screening) => void
+  onCreateAt: (startsAt: Date, auditoriumId?: string) => void
+  onReschedule: (screening: Screening, startsAt: Date, auditoriumId?: string) => void
+}
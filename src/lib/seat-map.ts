@@ -0,0 +1,79 @@
+import type { Auditorium } from '@/hooks/use-cinema'
+
+export type SeatLayout = Pick<
+  Auditorium,
+  'row_count' | 'seats_per_row' | 'aisle_after_seats' | 'aisle_after_rows' | 'blocked_seats' | 'wheelchair_seats'
+>
+
+export type SeatCell =
+  | { kind: 'seat'; label: string; number: number; blocked: boolean; wheelchair: boolean }
+  | { kind: 'aisle'; key: string }
+
+export type SeatRow =
+  | { kind: 'row'; label: string; cells: SeatCell[] }
+  | { kind: 'aisle'; key: string }
+
+export const MAX_ROWS = 26
+export const MAX_SEATS_PER_ROW = 60
+
+export const rowLabel = (index: number) => String.fromCharCode(65 + index)
+
+export const seatLabel = (rowIndex: number, seatNumber: number) => `${rowLabel(rowIndex)}${seatNumber}`
+
+// Mirrors public.auditoriums.capacity so the form can preview it before saving.
+export const layoutCapacity = (layout: SeatLayout) => {
+  return layout.row_count * layout.seats_per_row - layout.blocked_seats.length
+}
+
+// Builds the rows rendered by SeatMap, inserting aisles where the layout asks for them.
+export const buildSeatRows = (layout: SeatLayout): SeatRow[] => {
+  const blocked = new Set(layout.blocked_seats)
+  const wheelchair = new Set(layout.wheelchair_seats)
+  const seatAisles = new Set(layout.aisle_after_seats)
+  const rowAisles = new Set(layout.aisle_after_rows)
+  const rows: SeatRow[] = []
+
+  for (let rowIndex = 0; rowIndex < layout.row_count; rowIndex += 1) {
+    const cells: SeatCell[] = []
+    for (let seatNumber = 1; seatNumber <= layout.seats_per_row; seatNumber += 1) {
+      const label = seatLabel(rowIndex, seatNumber)
+      cells.push({
+        kind: 'seat',
+        label,
+        number: seatNumber,
+        blocked: blocked.has(label),
+        wheelchair: wheelchair.has(label),
+      })
+      if (seatAisles.has(seatNumber) && seatNumber < layout.seats_per_row) {
+        cells.push({ kind: 'aisle', key: `${rowLabel(rowIndex)}-aisle-${seatNumber}` })
+      }
+    }
+    rows.push({ kind: 'row', label: rowLabel(rowIndex), cells })
+    if (rowAisles.has(rowIndex + 1) && rowIndex + 1 < layout.row_count) {
+      rows.push({ kind: 'aisle', key: `aisle-${rowIndex + 1}` })
+    }
+  }
+
+  return rows
+}
+
+// Whether a seat label still fits the grid, e.g. after shrinking rows or seats per row.
+export const isSeatInLayout = (label: string, layout: Pick<SeatLayout, 'row_count' | 'seats_per_row'>) => {
+  const match = /^([A-Z])(\d{1,2})$/.exec(label)
+  if (!match) return false
+  const rowIndex = match[1].charCodeAt(0) - 65
+  const seatNumber = Number(match[2])
+  return rowIndex < layout.row_count && seatNumber >= 1 && seatNumber <= layout.seats_per_row
+}
+
+// Parses "4, 8" style inputs used by the auditorium form.
+export const parseNumberList = (value: string) => {
+  return [
+    ...new Set(
+      value
+        .split(/[,\s]+/)
+        .map((part) => Number(part))
+        .filter((part) => Number.isInteger(part) && part > 0)
+    ),
+  ].sort((a, b) => a - b)
+}
@@ -1,10 +1,19 @@
-import { useCallback, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { isSameDay } from 'date-fns'
 import { Scanner, type IDetectedBarcode } from '@yudiel/react-qr-scanner'
 import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import {
   Table,
   TableBody,
@@ -14,8 +23,13 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Spinner } from '@/components/ui/spinner'
-import { useAttendanceLogs, type AttendanceLog } from '@/hooks/use-cinema'
+import { OfflineScanPanel } from '@/components/attendance/offline-scan-panel'
+import { ScanAttemptsPanel } from '@/components/attendance/scan-attempts-panel'
+import { useAttendanceLogs, useScreenings, type AttendanceLog } from '@/hooks/use-cinema'
+import { useOfflineScans } from '@/hooks/use-offline-scans'
+import { useScanAttempts } from '@/hooks/use-scan-attempts'
 import { useSupabase } from '@/hooks/use-supabase'
 import { supabase } from '@/lib/supabase/client'
 import { ClipboardCopy, RefreshCw, ShieldCheck } from 'lucide-react'
@@ -44,6 +58,10 @@ const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'outline' | 'des
   no_show: 'destructive',
 }
 
+const formatTime = (iso: string) => {
+  return new Intl.DateTimeFormat('es-EC', { timeStyle: 'short' }).format(new Date(iso))
+}
+
 const formatDateTime = (iso: string) => {
   return new Intl.DateTimeFormat('es-EC', {
     dateStyle: 'medium',
@@ -53,12 +71,30 @@ const formatDateTime = (iso: string) => {
 
 export function AttendancePage() {
   const { data: logs, loading, error, refresh } = useAttendanceLogs()
+  const { data: screenings } = useScreenings()
+  const {
+    data: attempts,
+    alerts,
+    loading: attemptsLoading,
+    error: attemptsError,
+    refresh: refreshAttempts,
+    limit: attemptsLimit,
+  } = useScanAttempts()
   const { user } = useSupabase()
+  const [tab, setTab] = useState<'scanner' | 'attempts'>('scanner')
+  const seenAlerts = useRef<Set<string> | null>(null)
+  const [screeningId, setScreeningId] = useState<string | null>(null)
   const [processing, setProcessing] = useState(false)
   const [lastToken, setLastToken] = useState<string | null>(null)
   const [lastScanTime, setLastScanTime] = useState<number>(0)
   const [manualToken, setManualToken] = useState('')
   const [result, setResult] = useState<ValidationResult | null>(null)
+  const [offlineMode, setOfflineMode] = useState(false)
+  const offlineScans = useOfflineScans()
+  const validateOffline = offlineScans.validate
+
+  // Without a connection the scan is checked against the downloaded reservations and queued for sync.
+  const offline = offlineMode || !offlineScans.online
 
   const totalAttendance = logs.length
   const uniqueReservations = useMemo(
@@ -67,11 +103,37 @@ export function AttendancePage() {
   )
   const lastAttendance = logs.at(0)
 
+  // Warns once per ticket when it starts to be scanned repeatedly; alerts present on load are not toasted.
+  useEffect(() => {
+    if (attemptsLoading) return
+    if (!seenAlerts.current) {
+      seenAlerts.current = new Set(alerts.map((alert) => alert.ticket_key))
+      return
+    }
+    alerts.forEach((alert) => {
+      if (seenAlerts.current?.has(alert.ticket_key)) return
+      seenAlerts.current?.add(alert.ticket_key)
+      toast.warning(
+        `Posible entrada compartida: el mismo código se intentó ${alert.attempt_count} veces. Revisa la pestaña Intentos.`
+      )
+    })
+  }, [alerts, attemptsLoading])
+
+  // Only today's screenings can be at the door.
+  const todayScreenings = useMemo(() => {
+    const today = new Date()
+    return screenings.filter(
+      (screening) => !screening.cancelled_at && isSameDay(new Date(screening.starts_at), today)
+    )
+  }, [screenings])
+
   const summarizeLog = (log: AttendanceLog) => {
     const reservation = log.reservation
     const profile = reservation?.profile
     const attendee = profile
-      ? `${[profile.first_name, profile.last_name].filter(Boolean).join(' ')} · ${profile.user_id.slice(0, 8)}…`
+      ? [profile.first_name, profile.last_name].filter(Boolean).join(' ') ||
+        profile.email ||
+        `${profile.user_id.slice(0, 8)}…`
       : reservation?.user_id.slice(0, 8) ?? 'Desconocido'
     const movie = reservation?.screening?.movie?.title ?? 'Película eliminada'
     const startsAt = reservation?.screening ? formatDateTime(reservation.screening.starts_at) : '—'
@@ -84,6 +146,11 @@ export function AttendancePage() {
       const token = rawToken.trim()
       if (!token) return
 
+      if (!screeningId) {
+        toast.error('Selecciona la función que está ingresando antes de escanear.')
+        return
+      }
+
       const now = Date.now()
       if (token === lastToken && now - lastScanTime < 4000) {
         return
@@ -94,9 +161,47 @@ export function AttendancePage() {
 
       setProcessing(true)
 
+      // local storage or webcrypto can fail on this device; the scanner must not stay paused.
+      if (offline) {
+        try {
+          const outcome = await validateOffline(token, screeningId)
+          setResult({
+            message: outcome.message,
+            isValid: outcome.isValid,
+            alreadyScanned: outcome.alreadyScanned,
+            reservationId: outcome.entry?.reservation_id ?? null,
+            status: outcome.entry?.status ?? null,
+          })
+
+          if (outcome.isValid) {
+            toast.success(`Asistencia guardada sin conexión: ${outcome.entry?.attendee}.`)
+          } else if (outcome.alreadyScanned) {
+            toast.info('Este código ya fue utilizado.')
+          } else {
+            toast.error(outcome.message)
+          }
+        } catch (validationError) {
+          const message = `No se pudo validar sin conexión: ${
+            validationError instanceof Error ? validationError.message : 'error desconocido.'
+          }`
+          toast.error(message)
+          setResult({
+            message,
+            isValid: false,
+            alreadyScanned: false,
+            reservationId: null,
+            status: null,
+          })
+        } finally {
+          setProcessing(false)
+        }
+        return
+      }
+
       const { data, error } = await supabase.rpc('validate_reservation_qr', {
         p_token: token,
         p_scanner: user?.id ?? null,
+        p_screening_id: screeningId,
       })
 
       if (error) {
@@ -127,6 +232,7 @@ export function AttendancePage() {
       }
 
       setResult(outcome)
+      void refreshAttempts()
 
       if (data.is_valid) {
         toast.success('Asistencia registrada correctamente.')
@@ -139,7 +245,7 @@ export function AttendancePage() {
 
       setProcessing(false)
     },
-    [lastScanTime, lastToken, refresh, user?.id]
+    [lastScanTime, lastToken, offline, refresh, refreshAttempts, screeningId, user?.id, validateOffline]
   )
 
   const handleScan = (detectedCodes: IDetectedBarcode[]) => {
@@ -156,9 +262,10 @@ export function AttendancePage() {
     setManualToken('')
   }
 
-  const handleCopyToken = (token: string) => {
-    void navigator.clipboard.writeText(token)
-    toast.success('Token copiado al portapapeles.')
+  // the reference code identifies the reservation for support; the door only accepts the signed code.
+  const handleCopyReference = (reference: string) => {
+    void navigator.clipboard.writeText(reference)
+    toast.success('Código de referencia copiado al portapapeles.')
   }
 
   return (
@@ -181,147 +288,196 @@ export function AttendancePage() {
         </Alert>
       )}
 
-      <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
-        <Card>
-          <CardHeader>
-            <CardTitle>Escáner QR</CardTitle>
-            <CardDescription>
-              Permite el acceso mostrando el código de la reserva. También puedes ingresar el token manualmente.
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="overflow-hidden rounded-lg border">
-              <Scanner
-                onScan={handleScan}
-                onError={(scannerError) => {
-                  console.error(scannerError)
-                }}
-                paused={processing}
-                scanDelay={1500}
-                classNames={{ container: 'aspect-video bg-black' }}
-              />
-            </div>
-
-            <form onSubmit={handleManualSubmit} className="flex flex-col gap-2 sm:flex-row">
-              <Input
-                placeholder="Ingresar token manualmente"
-                value={manualToken}
-                onChange={(event) => setManualToken(event.target.value)}
-              />
-              <Button type="submit" disabled={processing}>
-                Validar código
-              </Button>
-            </form>
-
-            {result && (
-              <div
-                className="rounded-md border p-4"
-                data-state={result.isValid ? 'success' : result.alreadyScanned ? 'warning' : 'error'}
-              >
-                <div className="flex items-center gap-2 text-sm font-medium">
-                  <ShieldCheck
-                    className={`h-4 w-4 ${
-                      result.isValid
-                        ? 'text-emerald-500'
-                        : result.alreadyScanned
-                        ? 'text-amber-500'
-                        : 'text-destructive'
-                    }`}
+      <Tabs value={tab} onValueChange={(value) => setTab(value as 'scanner' | 'attempts')}>
+        <TabsList>
+          <TabsTrigger value="scanner">Validación</TabsTrigger>
+          <TabsTrigger value="attempts">
+            Intentos
+            {alerts.length > 0 && (
+              <Badge variant="destructive" className="ml-2">
+                {alerts.length}
+              </Badge>
+            )}
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="scanner" className="pt-2">
+          <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
+            <Card>
+              <CardHeader>
+                <CardTitle>Escáner QR</CardTitle>
+                <CardDescription>
+                  Permite el acceso mostrando el código de la reserva. Si la cámara falla, pega el contenido del código leído por otro lector.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Función en puerta</Label>
+                  <Select value={screeningId ?? ''} onValueChange={setScreeningId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecciona la función de hoy" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {todayScreenings.map((screening) => (
+                        <SelectItem key={screening.id} value={screening.id}>
+                          {formatTime(screening.starts_at)} · {screening.movie?.title ?? 'Película eliminada'} · {screening.auditorium}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {todayScreenings.length === 0 && (
+                    <p className="text-xs text-muted-foreground">No hay funciones programadas para hoy.</p>
+                  )}
+                </div>
+
+                <div className="overflow-hidden rounded-lg border">
+                  <Scanner
+                    onScan={handleScan}
+                    onError={(scannerError) => {
+                      console.error(scannerError)
+                    }}
+                    paused={processing || !screeningId}
+                    scanDelay={1500}
+                    classNames={{ container: 'aspect-video bg-black' }}
                   />
-                  {result.message}
                 </div>
-                {result.reservationId && (
-                  <div className="mt-2 text-xs text-muted-foreground">
-                    Reserva {result.reservationId.slice(0, 8)}… • Estado {STATUS_LABELS[result.status ?? 'confirmed'] ?? result.status}
+
+                <OfflineScanPanel
+                  scans={offlineScans}
+                  offlineMode={offlineMode}
+                  onOfflineModeChange={setOfflineMode}
+                />
+
+                <form onSubmit={handleManualSubmit} className="flex flex-col gap-2 sm:flex-row">
+                  <Input
+                    placeholder="Pegar código QR"
+                    value={manualToken}
+                    onChange={(event) => setManualToken(event.target.value)}
+                  />
+                  <Button type="submit" disabled={processing || !screeningId}>
+                    Validar código
+                  </Button>
+                </form>
+
+                {result && (
+                  <div
+                    className="rounded-md border p-4"
+                    data-state={result.isValid ? 'success' : result.alreadyScanned ? 'warning' : 'error'}
+                  >
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      <ShieldCheck
+                        className={`h-4 w-4 ${
+                          result.isValid
+                            ? 'text-emerald-500'
+                            : result.alreadyScanned
+                            ? 'text-amber-500'
+                            : 'text-destructive'
+                        }`}
+                      />
+                      {result.message}
+                    </div>
+                    {result.reservationId && (
+                      <div className="mt-2 text-xs text-muted-foreground">
+                        Reserva {result.reservationId.slice(0, 8)}… • Estado {STATUS_LABELS[result.status ?? 'confirmed'] ?? result.status}
+                      </div>
+                    )}
                   </div>
                 )}
-              </div>
-            )}
 
-            <div className="grid gap-4 sm:grid-cols-3">
-              <div className="rounded-lg border p-4">
-                <div className="text-sm text-muted-foreground">Asistencias registradas</div>
-                <div className="text-2xl font-semibold">{totalAttendance}</div>
-              </div>
-              <div className="rounded-lg border p-4">
-                <div className="text-sm text-muted-foreground">Reservas únicas</div>
-                <div className="text-2xl font-semibold">{uniqueReservations}</div>
-              </div>
-              <div className="rounded-lg border p-4">
-                <div className="text-sm text-muted-foreground">Último escaneo</div>
-                <div className="text-sm font-medium">
-                  {lastAttendance ? formatDateTime(lastAttendance.scanned_at) : 'Sin registros'}
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <div className="rounded-lg border p-4">
+                    <div className="text-sm text-muted-foreground">Asistencias registradas</div>
+                    <div className="text-2xl font-semibold">{totalAttendance}</div>
+                  </div>
+                  <div className="rounded-lg border p-4">
+                    <div className="text-sm text-muted-foreground">Reservas únicas</div>
+                    <div className="text-2xl font-semibold">{uniqueReservations}</div>
+                  </div>
+                  <div className="rounded-lg border p-4">
+                    <div className="text-sm text-muted-foreground">Último escaneo</div>
+                    <div className="text-sm font-medium">
+                      {lastAttendance ? formatDateTime(lastAttendance.scanned_at) : 'Sin registros'}
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader>
-            <CardTitle>Últimos registros</CardTitle>
-            <CardDescription>Verifica la bitácora de validaciones en tiempo real.</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {loading ? (
-              <div className="flex justify-center py-10">
-                <Spinner className="h-6 w-6" />
-              </div>
-            ) : logs.length === 0 ? (
-              <p className="py-6 text-center text-sm text-muted-foreground">Aún no hay asistencias registradas.</p>
-            ) : (
-              <div className="max-h-[420px] overflow-y-auto">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Fecha</TableHead>
-                      <TableHead>Usuario</TableHead>
-                      <TableHead>Función</TableHead>
-                      <TableHead className="hidden lg:table-cell">Estado</TableHead>
-                      <TableHead className="hidden xl:table-cell text-right">Token</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {logs.map((log) => {
-                      const summary = summarizeLog(log)
-                      return (
-                        <TableRow key={log.id}>
-                          <TableCell className="text-sm">{formatDateTime(log.scanned_at)}</TableCell>
-                          <TableCell className="text-sm">{summary.attendee}</TableCell>
-                          <TableCell className="text-sm">
-                            <div className="font-medium leading-tight">{summary.movie}</div>
-                            <div className="text-xs text-muted-foreground">{summary.startsAt}</div>
-                          </TableCell>
-                          <TableCell className="hidden lg:table-cell">
-                            <Badge variant={STATUS_VARIANTS[summary.status] ?? 'secondary'}>
-                              {STATUS_LABELS[summary.status] ?? summary.status}
-                            </Badge>
-                          </TableCell>
-                          <TableCell className="hidden xl:table-cell text-right">
-                            <div className="flex items-center justify-end gap-2">
-                              <code className="rounded bg-muted px-2 py-1 text-xs">
-                                {log.reservation?.qr_token.slice(0, 10)}…
-                              </code>
-                              <Button
-                                type="button"
-                                size="icon"
-                                variant="ghost"
-                                onClick={() => log.reservation?.qr_token && handleCopyToken(log.reservation.qr_token)}
-                              >
-                                <ClipboardCopy className="h-4 w-4" />
-                              </Button>
-                            </div>
-                          </TableCell>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Últimos registros</CardTitle>
+                <CardDescription>Verifica la bitácora de validaciones en tiempo real.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {loading ? (
+                  <div className="flex justify-center py-10">
+                    <Spinner className="h-6 w-6" />
+                  </div>
+                ) : logs.length === 0 ? (
+                  <p className="py-6 text-center text-sm text-muted-foreground">Aún no hay asistencias registradas.</p>
+                ) : (
+                  <div className="max-h-[420px] overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Fecha</TableHead>
+                          <TableHead>Usuario</TableHead>
+                          <TableHead>Función</TableHead>
+                          <TableHead className="hidden lg:table-cell">Estado</TableHead>
+                          <TableHead className="hidden xl:table-cell text-right">Referencia</TableHead>
                         </TableRow>
-                      )
-                    })}
-                  </TableBody>
-                </Table>
-              </div>
-            )}
-          </CardContent>
-        </Card>
-      </div>
+                      </TableHeader>
+                      <TableBody>
+                        {logs.map((log) => {
+                          const summary = summarizeLog(log)
+                          return (
+                            <TableRow key={log.id}>
+                              <TableCell className="text-sm">{formatDateTime(log.scanned_at)}</TableCell>
+                              <TableCell className="text-sm">{summary.attendee}</TableCell>
+                              <TableCell className="text-sm">
+                                <div className="font-medium leading-tight">{summary.movie}</div>
+                                <div className="text-xs text-muted-foreground">{summary.startsAt}</div>
+                              </TableCell>
+                              <TableCell className="hidden lg:table-cell">
+                                <Badge variant={STATUS_VARIANTS[summary.status] ?? 'secondary'}>
+                                  {STATUS_LABELS[summary.status] ?? summary.status}
+                                </Badge>
+                              </TableCell>
+                              <TableCell className="hidden xl:table-cell text-right">
+                                <div className="flex items-center justify-end gap-2">
+                                  <code className="rounded bg-muted px-2 py-1 text-xs">
+                                    {log.reservation?.qr_token.slice(0, 10)}…
+                                  </code>
+                                  <Button
+                                    type="button"
+                                    size="icon"
+                                    variant="ghost"
+                                    onClick={() => log.reservation?.qr_token && handleCopyReference(log.reservation.qr_token)}
+                                  >
+                                    <ClipboardCopy className="h-4 w-4" />
+                                    <span className="sr-only">Copiar código de referencia</span>
+                                  </Button>
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          )
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+        <TabsContent value="attempts" className="space-y-4 pt-2">
+          {attemptsError && (
+            <Alert variant="destructive">
+              <AlertDescription>{attemptsError}</AlertDescription>
+            </Alert>
+          )}
+          <ScanAttemptsPanel attempts={attempts} alerts={alerts} loading={attemptsLoading} limit={attemptsLimit} />
+        </TabsContent>
+      </Tabs>
     </div>
   )
 }
@@ -0,0 +1,225 @@
+import { useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Spinner } from '@/components/ui/spinner'
+import { AuditDiffDialog } from '@/components/audit/audit-diff-dialog'
+import { useAuditLog, type AuditEntry } from '@/hooks/use-audit-log'
+import { useUserAccounts } from '@/hooks/use-user-accounts'
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_TABLE_LABELS,
+  describeAuditRecord,
+  formatAuditValue,
+  type AuditAction,
+  type AuditTable,
+} from '@/lib/audit'
+import { FileDiff, RefreshCw, X } from 'lucide-react'
+
+const ALL = 'all'
+
+const ACTION_VARIANTS: Record<AuditAction, 'default' | 'secondary' | 'destructive'> = {
+  insert: 'default',
+  update: 'secondary',
+  delete: 'destructive',
+}
+
+const buildActorLabel = (actor: AuditEntry['actor']) => {
+  if (!actor) return 'Sistema'
+  const name = [actor.first_name, actor.last_name].filter(Boolean).join(' ')
+  return name || actor.email || 'Usuario sin nombre'
+}
+
+export function AuditPage() {
+  const [table, setTable] = useState<AuditTable | null>(null)
+  const [actorId, setActorId] = useState<string | null>(null)
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [activeEntry, setActiveEntry] = useState<AuditEntry | null>(null)
+
+  const { data: entries, loading, error, refresh, limit } = useAuditLog({
+    table,
+    actorId,
+    from: from || null,
+    to: to || null,
+  })
+  const { data: accounts } = useUserAccounts()
+
+  const actorOptions = useMemo(
+    () =>
+      accounts
+        .map((account) => ({
+          id: account.user_id,
+          label: buildActorLabel(account),
+        }))
+        .sort((a, b) => a.label.localeCompare(b.label, 'es-ES', { sensitivity: 'base' })),
+    [accounts]
+  )
+
+  const hasFilters = table !== null || actorId !== null || from !== '' || to !== ''
+
+  const clearFilters = () => {
+    setTable(null)
+    setActorId(null)
+    setFrom('')
+    setTo('')
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Auditoría</h1>
+          <p className="text-sm text-muted-foreground">
+            Consulta quién creó, editó o eliminó películas, funciones, reservas y demás registros del cine.
+          </p>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => void refresh()} disabled={loading}>
+          <RefreshCw className="mr-2 h-4 w-4" /> Actualizar
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Historial de cambios</CardTitle>
+          <CardDescription>Se muestran los {limit} cambios más recientes que coinciden con los filtros.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-[repeat(4,minmax(0,1fr))_auto] lg:items-end">
+            <div className="space-y-2">
+              <Label>Entidad</Label>
+              <Select
+                value={table ?? ALL}
+                onValueChange={(value) => setTable(value === ALL ? null : (value as AuditTable))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todas</SelectItem>
+                  {(Object.keys(AUDIT_TABLE_LABELS) as AuditTable[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {AUDIT_TABLE_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Usuario</Label>
+              <Select value={actorId ?? ALL} onValueChange={(value) => setActorId(value === ALL ? null : value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todos</SelectItem>
+                  {actorOptions.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">Desde</Label>
+              <Input id="audit-from" type="date" value={from} max={to || undefined} onChange={(event) => setFrom(event.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">Hasta</Label>
+              <Input id="audit-to" type="date" value={to} min={from || undefined} onChange={(event) => setTo(event.target.value)} />
+            </div>
+            <Button variant="ghost" onClick={clearFilters} disabled={!hasFilters}>
+              <X className="mr-2 h-4 w-4" /> Limpiar
+            </Button>
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-10">
+              <Spinner className="h-6 w-6" />
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Usuario</TableHead>
+                    <TableHead>Acción</TableHead>
+                    <TableHead>Registro</TableHead>
+                    <TableHead className="hidden lg:table-cell">Campos</TableHead>
+                    <TableHead className="w-0 text-right">Cambios</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.length > 0 ? (
+                    entries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="whitespace-nowrap text-sm">{formatAuditValue(entry.created_at)}</TableCell>
+                        <TableCell className="text-sm">{buildActorLabel(entry.actor)}</TableCell>
+                        <TableCell>
+                          <Badge variant={ACTION_VARIANTS[entry.action]}>{AUDIT_ACTION_LABELS[entry.action]}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{describeAuditRecord(entry)}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {AUDIT_TABLE_LABELS[entry.table_name] ?? entry.table_name}
+                          </div>
+                        </TableCell>
+                        <TableCell className="hidden max-w-xs truncate text-xs text-muted-foreground lg:table-cell">
+                          {entry.action === 'update' ? entry.changed_fields.join(', ') : '—'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="icon" onClick={() => setActiveEntry(entry)}>
+                            <FileDiff className="h-4 w-4" />
+                            <span className="sr-only">Ver cambios</span>
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="py-10 text-center text-sm text-muted-foreground">
+                        No hay cambios registrados con estos filtros.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AuditDiffDialog
+        entry={activeEntry}
+        actorLabel={buildActorLabel(activeEntry?.actor ?? null)}
+        onOpenChange={(open) => !open && setActiveEntry(null)}
+      />
+    </div>
+  )
+}
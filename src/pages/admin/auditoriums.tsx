@@ -0,0 +1,520 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { z } from 'zod'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Spinner } from '@/components/ui/spinner'
+import { SeatMap, SeatMapLegend, type Seat } from '@/components/seating/seat-map'
+import { useAuditoriums, type Auditorium, type AuditoriumInput } from '@/hooks/use-cinema'
+import {
+  MAX_ROWS,
+  MAX_SEATS_PER_ROW,
+  isSeatInLayout,
+  layoutCapacity,
+  parseNumberList,
+  type SeatLayout,
+} from '@/lib/seat-map'
+import { MoreHorizontal, Pencil, Trash } from 'lucide-react'
+
+const auditoriumSchema = z.object({
+  name: z.string().trim().min(1, 'El nombre es obligatorio.'),
+  location: z.string().max(200, 'Usa una descripción corta.').optional(),
+  row_count: z
+    .number('Ingresa el número de filas.')
+    .int()
+    .min(1, 'Debe haber al menos una fila.')
+    .max(MAX_ROWS, `Máximo ${MAX_ROWS} filas.`),
+  seats_per_row: z
+    .number('Ingresa los asientos por fila.')
+    .int()
+    .min(1, 'Debe haber al menos un asiento por fila.')
+    .max(MAX_SEATS_PER_ROW, `Máximo ${MAX_SEATS_PER_ROW} asientos por fila.`),
+  aisle_after_seats: z.string().optional(),
+  aisle_after_rows: z.string().optional(),
+  is_active: z.boolean(),
+})
+
+type AuditoriumFormValues = z.infer<typeof auditoriumSchema>
+
+type SeatMarking = 'wheelchair' | 'blocked'
+
+const EMPTY_AUDITORIUM: AuditoriumFormValues = {
+  name: '',
+  location: '',
+  row_count: 8,
+  seats_per_row: 12,
+  aisle_after_seats: '',
+  aisle_after_rows: '',
+  is_active: true,
+}
+
+// Clicking a seat in the editor cycles it through normal → accessible → blocked.
+const nextMarking = (seat: Seat): SeatMarking | null => {
+  if (seat.blocked) return null
+  if (seat.wheelchair) return 'blocked'
+  return 'wheelchair'
+}
+
+export function AuditoriumsPage() {
+  const { data: auditoriums, loading, error, create, update, remove } = useAuditoriums()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [activeAuditorium, setActiveAuditorium] = useState<Auditorium | null>(null)
+  const [pendingDelete, setPendingDelete] = useState<Auditorium | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [blockedSeats, setBlockedSeats] = useState<string[]>([])
+  const [wheelchairSeats, setWheelchairSeats] = useState<string[]>([])
+
+  const form = useForm<AuditoriumFormValues>({
+    resolver: zodResolver(auditoriumSchema),
+    defaultValues: EMPTY_AUDITORIUM,
+  })
+
+  useEffect(() => {
+    if (!dialogOpen) {
+      setActiveAuditorium(null)
+      setSubmitting(false)
+      setBlockedSeats([])
+      setWheelchairSeats([])
+      form.reset(EMPTY_AUDITORIUM)
+    }
+  }, [dialogOpen, form])
+
+  const rowCount = form.watch('row_count')
+  const seatsPerRow = form.watch('seats_per_row')
+  const aisleAfterSeats = form.watch('aisle_after_seats')
+  const aisleAfterRows = form.watch('aisle_after_rows')
+
+  const previewLayout = useMemo<SeatLayout | null>(() => {
+    const rows = Number(rowCount)
+    const seats = Number(seatsPerRow)
+    if (!Number.isInteger(rows) || !Number.isInteger(seats)) return null
+    if (rows < 1 || rows > MAX_ROWS || seats < 1 || seats > MAX_SEATS_PER_ROW) return null
+    const bounds = { row_count: rows, seats_per_row: seats }
+    return {
+      ...bounds,
+      aisle_after_seats: parseNumberList(aisleAfterSeats ?? ''),
+      aisle_after_rows: parseNumberList(aisleAfterRows ?? ''),
+      blocked_seats: blockedSeats.filter((label) => isSeatInLayout(label, bounds)),
+      wheelchair_seats: wheelchairSeats.filter((label) => isSeatInLayout(label, bounds)),
+    }
+  }, [rowCount, seatsPerRow, aisleAfterSeats, aisleAfterRows, blockedSeats, wheelchairSeats])
+
+  const handleOpenCreate = () => {
+    setActiveAuditorium(null)
+    form.reset(EMPTY_AUDITORIUM)
+    setBlockedSeats([])
+    setWheelchairSeats([])
+    setDialogOpen(true)
+  }
+
+  const handleOpenEdit = (auditorium: Auditorium) => {
+    setActiveAuditorium(auditorium)
+    form.reset({
+      name: auditorium.name,
+      location: auditorium.location ?? '',
+      row_count: auditorium.row_count,
+      seats_per_row: auditorium.seats_per_row,
+      aisle_after_seats: auditorium.aisle_after_seats.join(', '),
+      aisle_after_rows: auditorium.aisle_after_rows.join(', '),
+      is_active: auditorium.is_active,
+    })
+    setBlockedSeats(auditorium.blocked_seats)
+    setWheelchairSeats(auditorium.wheelchair_seats)
+    setDialogOpen(true)
+  }
+
+  const handleSeatClick = (seat: Seat) => {
+    const marking = nextMarking(seat)
+    setWheelchairSeats((current) =>
+      marking === 'wheelchair' ? [...current, seat.label] : current.filter((label) => label !== seat.label)
+    )
+    setBlockedSeats((current) =>
+      marking === 'blocked' ? [...current, seat.label] : current.filter((label) => label !== seat.label)
+    )
+  }
+
+  const handleSubmit = form.handleSubmit(async (values) => {
+    if (!previewLayout || layoutCapacity(previewLayout) < 1) {
+      toast.error('La sala debe tener al menos un asiento habilitado.')
+      return
+    }
+
+    setSubmitting(true)
+
+    const payload: AuditoriumInput = {
+      name: values.name.trim(),
+      location: values.location?.trim() ? values.location.trim() : null,
+      row_count: values.row_count,
+      seats_per_row: values.seats_per_row,
+      aisle_after_seats: previewLayout.aisle_after_seats,
+      aisle_after_rows: previewLayout.aisle_after_rows,
+      blocked_seats: previewLayout.blocked_seats,
+      wheelchair_seats: previewLayout.wheelchair_seats,
+      is_active: values.is_active,
+    }
+
+    const result = activeAuditorium
+      ? await update(activeAuditorium.id, payload)
+      : await create(payload)
+
+    if (result.error) {
+      toast.error(result.error)
+      setSubmitting(false)
+      return
+    }
+
+    toast.success(activeAuditorium ? 'Sala actualizada.' : 'Sala creada.')
+    setSubmitting(false)
+    setDialogOpen(false)
+  })
+
+  const handleDelete = useCallback(
+    async (auditorium: Auditorium) => {
+      const result = await remove(auditorium.id)
+      if (result.error) {
+        toast.error(result.error)
+      } else {
+        toast.success('Sala eliminada.')
+      }
+      setPendingDelete(null)
+    },
+    [remove]
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Salas</h1>
+          <p className="text-sm text-muted-foreground">
+            Registra los auditorios y su distribución de asientos.
+          </p>
+        </div>
+        <Button size="sm" onClick={handleOpenCreate}>
+          Nueva sala
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Registro de salas</CardTitle>
+          <CardDescription>La capacidad de cada función se calcula a partir de la distribución de la sala.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-10">
+              <Spinner className="h-6 w-6" />
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Sala</TableHead>
+                    <TableHead className="hidden md:table-cell">Distribución</TableHead>
+                    <TableHead className="hidden sm:table-cell text-center">Capacidad</TableHead>
+                    <TableHead className="hidden lg:table-cell">Accesibles</TableHead>
+                    <TableHead className="w-0 text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {auditoriums.length > 0 ? (
+                    auditoriums.map((auditorium) => (
+                      <TableRow key={auditorium.id}>
+                        <TableCell>
+                          <div className="flex items-center gap-2 font-medium">
+                            {auditorium.name}
+                            {!auditorium.is_active && <Badge variant="secondary">Inactiva</Badge>}
+                          </div>
+                          <div className="text-xs text-muted-foreground">{auditorium.location ?? 'Sin ubicación'}</div>
+                        </TableCell>
+                        <TableCell className="hidden md:table-cell text-sm">
+                          {auditorium.row_count} filas × {auditorium.seats_per_row} asientos
+                        </TableCell>
+                        <TableCell className="hidden sm:table-cell text-center text-sm">{auditorium.capacity}</TableCell>
+                        <TableCell className="hidden lg:table-cell text-sm">
+                          {auditorium.wheelchair_seats.length > 0 ? auditorium.wheelchair_seats.join(', ') : '—'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon">
+                                <MoreHorizontal className="h-4 w-4" />
+                                <span className="sr-only">Abrir menú</span>
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onClick={() => handleOpenEdit(auditorium)}>
+                                <Pencil className="mr-2 h-4 w-4" /> Editar
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setPendingDelete(auditorium)}
+                                className="text-destructive focus:text-destructive"
+                              >
+                                <Trash className="mr-2 h-4 w-4" /> Eliminar
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="py-10 text-center text-sm text-muted-foreground">
+                        Aún no hay salas registradas.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{activeAuditorium ? 'Editar sala' : 'Nueva sala'}</DialogTitle>
+            <DialogDescription>
+              Define la grilla de asientos. Haz clic en un asiento para marcarlo como accesible o bloquearlo.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nombre</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Aula Magna" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="location"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ubicación (opcional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Edificio central, planta baja" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="row_count"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Filas</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={MAX_ROWS}
+                          step={1}
+                          value={Number.isNaN(field.value) ? '' : field.value}
+                          onChange={(event) => {
+                            const value = event.target.value
+                            field.onChange(value === '' ? value : Number(value))
+                          }}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="seats_per_row"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Asientos por fila</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={MAX_SEATS_PER_ROW}
+                          step={1}
+                          value={Number.isNaN(field.value) ? '' : field.value}
+                          onChange={(event) => {
+                            const value = event.target.value
+                            field.onChange(value === '' ? value : Number(value))
+                          }}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="aisle_after_seats"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pasillos después del asiento</FormLabel>
+                      <FormControl>
+                        <Input placeholder="4, 8" {...field} />
+                      </FormControl>
+                      <FormDescription>Números de asiento separados por comas.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="aisle_after_rows"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pasillos después de la fila</FormLabel>
+                      <FormControl>
+                        <Input placeholder="5" {...field} />
+                      </FormControl>
+                      <FormDescription>Números de fila (A = 1) separados por comas.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="is_active"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel>Sala activa</FormLabel>
+                      <FormDescription>Solo las salas activas pueden usarse en nuevas funciones.</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <div className="space-y-3 rounded-lg border p-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-sm font-medium">Vista previa</span>
+                  <Badge variant="secondary">
+                    Capacidad {previewLayout ? layoutCapacity(previewLayout) : '—'}
+                  </Badge>
+                </div>
+                {previewLayout ? (
+                  <SeatMap
+                    layout={previewLayout}
+                    isSeatInteractive={() => true}
+                    onSeatClick={handleSeatClick}
+                  />
+                ) : (
+                  <p className="py-6 text-center text-sm text-muted-foreground">
+                    Ingresa filas y asientos válidos para ver la distribución.
+                  </p>
+                )}
+                <SeatMapLegend states={['available', 'blocked']} />
+              </div>
+              <DialogFooter className="gap-2 sm:gap-0">
+                <DialogClose asChild>
+                  <Button type="button" variant="outline">
+                    Cancelar
+                  </Button>
+                </DialogClose>
+                <Button type="submit" disabled={submitting}>
+                  {submitting ? 'Guardando...' : activeAuditorium ? 'Guardar cambios' : 'Crear sala'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={() => setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Eliminar sala?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Solo puedes eliminar salas que no tengan funciones asociadas. Para conservar el historial, márcala como inactiva.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) {
+                  void handleDelete(pendingDelete)
+                }
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -149,7 +149,7 @@ export function MoviesPage() {
       if (result.error) {
         toast.error(result.error)
       } else {
-        toast.success(`Se eliminó "${movie.title}".`)
+        toast.success(`"${movie.title}" se movió a la papelera.`)
       }
       setPendingDelete(null)
     },
@@ -393,7 +393,7 @@ export function MoviesPage() {
           <AlertDialogHeader>
             <AlertDialogTitle>¿Eliminar película?</AlertDialogTitle>
             <AlertDialogDescription>
-              Esta acción no se puede deshacer y eliminará la película de la cartelera.
+              La película saldrá de la cartelera y pasará a la papelera, desde donde puedes restaurarla.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
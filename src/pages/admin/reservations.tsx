@@ -14,8 +14,15 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
-import { Input } from '@/components/ui/input'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
 import { Badge } from '@/components/ui/badge'
 import {
   Table,
@@ -50,7 +57,10 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
+import { SeatPicker } from '@/components/seating/seat-picker'
 import {
+  useAuditoriums,
+  useReservationStatusTransitions,
   useReservations,
   useScreenings,
   type Reservation,
@@ -97,12 +107,17 @@ const STATUS_VARIANTS: Record<ReservationStatus, 'default' | 'secondary' | 'outl
   no_show: 'destructive',
 }
 
-const buildProfileLabel = (userId: string, firstName?: string | null, lastName?: string | null) => {
+const buildProfileLabel = (
+  userId: string,
+  firstName?: string | null,
+  lastName?: string | null,
+  email?: string | null
+) => {
   const fullName = [firstName, lastName].filter(Boolean).join(' ')
   if (fullName) {
-    return `${fullName} · ${userId.slice(0, 8)}…`
+    return `${fullName} · ${email ?? `${userId.slice(0, 8)}…`}`
   }
-  return userId
+  return email ?? userId
 }
 
 const formatDateTime = (iso: string) => {
@@ -112,9 +127,15 @@ const formatDateTime = (iso: string) => {
   }).format(new Date(iso))
 }
 
+const formatTime = (iso: string) => {
+  return new Intl.DateTimeFormat('es-EC', { timeStyle: 'short' }).format(new Date(iso))
+}
+
 export function ReservationsPage() {
   const { data: reservations, loading, error, create, update, remove } = useReservations()
   const { data: screenings, loading: screeningsLoading } = useScreenings()
+  const { data: auditoriums } = useAuditoriums()
+  const { data: transitions } = useReservationStatusTransitions()
   const [profiles, setProfiles] = useState<ProfileOption[]>([])
   const [profilesLoading, setProfilesLoading] = useState(true)
   const [profilesError, setProfilesError] = useState<string | null>(null)
@@ -134,8 +155,9 @@ export function ReservationsPage() {
       setProfilesLoading(true)
       const { data, error } = await supabase
         .from('profiles')
-        .select('user_id, first_name, last_name')
-        .order('first_name', { ascending: true })
+        .select('user_id, first_name, last_name, email')
+        .order('first_name', { ascending: true, nullsFirst: false })
+        .order('email', { ascending: true })
 
       if (cancelled) return
 
@@ -147,7 +169,7 @@ export function ReservationsPage() {
         setProfiles(
           (data ?? []).map((profile) => ({
             user_id: profile.user_id,
-            label: buildProfileLabel(profile.user_id, profile.first_name, profile.last_name),
+            label: buildProfileLabel(profile.user_id, profile.first_name, profile.last_name, profile.email),
           }))
         )
       }
@@ -171,10 +193,36 @@ export function ReservationsPage() {
   const screeningOptions = useMemo(() => {
     return screenings.map((screening) => ({
       id: screening.id,
-      label: `${screening.movie?.title ?? 'Película sin título'} · ${formatDateTime(screening.starts_at)}`,
+      label: `${screening.movie?.title ?? 'Película sin título'} · ${formatDateTime(screening.starts_at)}${
+        screening.cancelled_at ? ' (cancelada)' : ''
+      }`,
     }))
   }, [screenings])
 
+  const selectedScreeningId = form.watch('screening_id')
+  const selectedLayout = useMemo(() => {
+    const screening = screenings.find((item) => item.id === selectedScreeningId)
+    return auditoriums.find((auditorium) => auditorium.id === screening?.auditorium_id) ?? null
+  }, [auditoriums, screenings, selectedScreeningId])
+
+  // the database enforces the same table; offer only the statuses it would accept.
+  const statusOptions = useMemo(() => {
+    const fromStatus = activeReservation?.status ?? null
+    const targets = transitions
+      .filter((transition) => transition.actor === 'admin' && transition.from_status === fromStatus)
+      .map((transition) => transition.to_status)
+    return (Object.keys(STATUS_LABELS) as ReservationStatus[]).filter(
+      (status) => status === fromStatus || targets.includes(status)
+    )
+  }, [activeReservation, transitions])
+
+  const handleSeatChange = useCallback(
+    (seatLabel: string | null) => {
+      form.setValue('seat_label', seatLabel ?? '', { shouldDirty: true })
+    },
+    [form]
+  )
+
   const handleOpenCreate = () => {
     setActiveReservation(null)
     form.reset({
@@ -229,7 +277,7 @@ export function ReservationsPage() {
       if (result.error) {
         toast.error(result.error)
       } else {
-        toast.success('Reserva eliminada.')
+        toast.success('Reserva movida a la papelera.')
       }
       setPendingDelete(null)
     },
@@ -238,7 +286,7 @@ export function ReservationsPage() {
 
   const handleCopyQr = (token: string) => {
     void navigator.clipboard.writeText(token)
-    toast.success('Código QR copiado al portapapeles.')
+    toast.success('Código de referencia copiado al portapapeles.')
   }
 
   return (
@@ -294,7 +342,7 @@ export function ReservationsPage() {
                     <TableHead>Función</TableHead>
                     <TableHead className="hidden sm:table-cell">Estado</TableHead>
                     <TableHead className="hidden md:table-cell">Asiento</TableHead>
-                    <TableHead className="hidden lg:table-cell">QR</TableHead>
+                    <TableHead className="hidden lg:table-cell">Referencia</TableHead>
                     <TableHead className="w-0 text-right">Acciones</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -308,7 +356,8 @@ export function ReservationsPage() {
                               ? buildProfileLabel(
                                   reservation.profile.user_id,
                                   reservation.profile.first_name,
-                                  reservation.profile.last_name
+                                  reservation.profile.last_name,
+                                  reservation.profile.email
                                 )
                               : reservation.user_id}
                           </div>
@@ -326,6 +375,11 @@ export function ReservationsPage() {
                           <Badge variant={STATUS_VARIANTS[reservation.status]}>
                             {STATUS_LABELS[reservation.status]}
                           </Badge>
+                          {reservation.status === 'pending' && reservation.hold_expires_at && (
+                            <div className="mt-1 text-xs text-muted-foreground">
+                              Retenida hasta {formatTime(reservation.hold_expires_at)}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell className="hidden md:table-cell text-sm">
                           {reservation.seat_label ?? 'No asignado'}
@@ -341,7 +395,7 @@ export function ReservationsPage() {
                               onClick={() => handleCopyQr(reservation.qr_token)}
                             >
                               <ClipboardCopy className="h-4 w-4" />
-                              <span className="sr-only">Copiar QR</span>
+                              <span className="sr-only">Copiar código de referencia</span>
                             </Button>
                           </div>
                         </TableCell>
@@ -383,7 +437,7 @@ export function ReservationsPage() {
       </Card>
 
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-        <DialogContent className="sm:max-w-xl">
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
           <DialogHeader>
             <DialogTitle>{activeReservation ? 'Editar reserva' : 'Nueva reserva'}</DialogTitle>
             <DialogDescription>
@@ -401,7 +455,14 @@ export function ReservationsPage() {
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Función</FormLabel>
-                      <Select onValueChange={field.onChange} value={field.value} disabled={screeningOptions.length === 0}>
+                      <Select
+                        onValueChange={(value) => {
+                          field.onChange(value)
+                          form.setValue('seat_label', '')
+                        }}
+                        value={field.value}
+                        disabled={screeningOptions.length === 0}
+                      >
                         <FormControl>
                           <SelectTrigger>
                             <SelectValue placeholder="Selecciona una función" />
@@ -461,7 +522,7 @@ export function ReservationsPage() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {(Object.keys(STATUS_LABELS) as ReservationStatus[]).map((status) => (
+                        {statusOptions.map((status) => (
                           <SelectItem key={status} value={status}>
                             {STATUS_LABELS[status]}
                           </SelectItem>
@@ -477,10 +538,25 @@ export function ReservationsPage() {
                 name="seat_label"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Asiento / Referencia</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Fila 3 - Asiento 12" {...field} />
-                    </FormControl>
+                    <FormLabel>Asiento</FormLabel>
+                    {selectedLayout ? (
+                      <SeatPicker
+                        screeningId={selectedScreeningId}
+                        layout={selectedLayout}
+                        value={field.value || null}
+                        onChange={handleSeatChange}
+                        ownSeat={
+                          activeReservation?.screening_id === selectedScreeningId ? activeReservation.seat_label : null
+                        }
+                      />
+                    ) : null}
+                    <FormDescription>
+                      {!selectedLayout
+                        ? 'La función no tiene una sala con distribución de asientos.'
+                        : field.value
+                          ? `Asiento seleccionado: ${field.value}. Haz clic de nuevo para liberarlo.`
+                          : 'Sin asiento asignado. Selecciona uno en el mapa.'}
+                    </FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -505,7 +581,7 @@ export function ReservationsPage() {
           <AlertDialogHeader>
             <AlertDialogTitle>¿Eliminar reserva?</AlertDialogTitle>
             <AlertDialogDescription>
-              Esta acción liberará el cupo asociado a la función.
+              La reserva pasará a la papelera. Si sigue activa se cancelará y se liberará su cupo.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
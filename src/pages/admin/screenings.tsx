@@ -14,9 +14,20 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
 import { Badge } from '@/components/ui/badge'
 import {
   Table,
@@ -44,6 +55,7 @@ import {
 } from '@/components/ui/alert-dialog'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Spinner } from '@/components/ui/spinner'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import {
   Select,
   SelectContent,
@@ -51,30 +63,100 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { useMovies, useScreenings, type Screening, type ScreeningInput } from '@/hooks/use-cinema'
-import { CalendarClock, MapPin, MoreHorizontal, Pencil, Trash } from 'lucide-react'
+import {
+  useAuditoriums,
+  useCinemaSettings,
+  useMovies,
+  useScreenings,
+  type Screening,
+  type ScreeningInput,
+  type ScreeningConflict,
+  type ScreeningSeriesInput,
+} from '@/hooks/use-cinema'
+import { WaitlistQueueDialog } from '@/components/waitlist/waitlist-queue-dialog'
+import { HolidaysDialog } from '@/components/screenings/holidays-dialog'
+import { ScheduleSettingsDialog } from '@/components/screenings/schedule-settings-dialog'
+import { CancelScreeningDialog } from '@/components/screenings/cancel-screening-dialog'
+import { DateNavigator } from '@/components/screenings/date-navigator'
+import { ScreeningWeekView } from '@/components/screenings/screening-week-view'
+import { ScreeningMonthView } from '@/components/screenings/screening-month-view'
+import { ScreeningTimeline } from '@/components/screenings/screening-timeline'
+import { screeningEndsAt } from '@/lib/screening-schedule'
+import { addDays, format, startOfWeek } from 'date-fns'
+import { es } from 'date-fns/locale'
+import {
+  Ban,
+  CalendarClock,
+  CalendarOff,
+  ListOrdered,
+  MapPin,
+  MoreHorizontal,
+  Pencil,
+  Repeat,
+  Timer,
+  Trash,
+  UserX,
+} from 'lucide-react'
+
+const MAX_OCCURRENCES = 200
 
 const screeningSchema = z
   .object({
     movie_id: z.string().uuid('Selecciona una película válida.'),
     starts_at: z.string().min(1, 'Selecciona fecha y hora de inicio.'),
     ends_at: z.string().optional(),
-    auditorium: z.string().min(1, 'Ingresa el auditorio o sala.'),
-    capacity: z.coerce.number().int().positive('La capacidad debe ser mayor a cero.'),
+    ends_at_override: z.boolean(),
+    auditorium_id: z.string().uuid('Selecciona una sala.'),
     notes: z.string().max(2000, 'Las notas pueden tener hasta 2000 caracteres.').optional(),
+    repeat: z.enum(['none', 'daily', 'weekly']),
+    weekdays: z.array(z.string()),
+    end_mode: z.enum(['until', 'count']),
+    until_date: z.string().optional(),
+    occurrence_count: z.string().optional(),
+    skip_holidays: z.boolean(),
   })
   .refine(
     (payload) => {
-      if (!payload.ends_at) return true
+      if (!payload.ends_at_override) return true
+      if (!payload.ends_at) return false
       const starts = new Date(payload.starts_at)
       const ends = new Date(payload.ends_at)
       return ends > starts
     },
     {
-      message: 'La hora de fin debe ser posterior al inicio.',
+      message: 'Indica una hora de fin posterior al inicio.',
       path: ['ends_at'],
     }
   )
+  .superRefine((payload, ctx) => {
+    if (payload.repeat === 'none') return
+
+    if (payload.repeat === 'weekly' && payload.weekdays.length === 0) {
+      ctx.addIssue({ code: 'custom', message: 'Elige al menos un día de la semana.', path: ['weekdays'] })
+    }
+
+    if (payload.end_mode === 'until') {
+      if (!payload.until_date) {
+        ctx.addIssue({ code: 'custom', message: 'Indica hasta qué fecha se repite.', path: ['until_date'] })
+      } else if (payload.starts_at && payload.until_date < payload.starts_at.slice(0, 10)) {
+        ctx.addIssue({
+          code: 'custom',
+          message: 'La fecha final debe ser posterior al inicio.',
+          path: ['until_date'],
+        })
+      }
+      return
+    }
+
+    const count = Number(payload.occurrence_count)
+    if (!Number.isInteger(count) || count < 1 || count > MAX_OCCURRENCES) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Ingresa entre 1 y ${MAX_OCCURRENCES} funciones.`,
+        path: ['occurrence_count'],
+      })
+    }
+  })
 
 type ScreeningFormValues = z.infer<typeof screeningSchema>
 
@@ -82,9 +164,47 @@ const EMPTY_SCREENING: ScreeningFormValues = {
   movie_id: '',
   starts_at: '',
   ends_at: '',
-  auditorium: '',
-  capacity: 50,
+  ends_at_override: false,
+  auditorium_id: '',
   notes: '',
+  repeat: 'none',
+  weekdays: [],
+  end_mode: 'count',
+  until_date: '',
+  occurrence_count: '8',
+  skip_holidays: true,
+}
+
+type EditScope = 'single' | 'following'
+
+// Monday first, values follow Date#getDay.
+const WEEKDAYS = [
+  { value: '1', short: 'L', label: 'Lunes' },
+  { value: '2', short: 'M', label: 'Martes' },
+  { value: '3', short: 'X', label: 'Miércoles' },
+  { value: '4', short: 'J', label: 'Jueves' },
+  { value: '5', short: 'V', label: 'Viernes' },
+  { value: '6', short: 'S', label: 'Sábado' },
+  { value: '0', short: 'D', label: 'Domingo' },
+]
+
+type ScheduleView = 'list' | 'week' | 'month' | 'timeline'
+
+const VIEW_STEPS = {
+  week: 'week',
+  month: 'month',
+  timeline: 'day',
+} as const
+
+const viewLabel = (view: Exclude<ScheduleView, 'list'>, date: Date) => {
+  if (view === 'month') {
+    return format(date, 'MMMM yyyy', { locale: es })
+  }
+  if (view === 'timeline') {
+    return format(date, "EEEE d 'de' MMMM", { locale: es })
+  }
+  const weekStart = startOfWeek(date, { weekStartsOn: 1 })
+  return `${format(weekStart, 'd MMM', { locale: es })} – ${format(addDays(weekStart, 6), 'd MMM yyyy', { locale: es })}`
 }
 
 const toDateTimeInputValue = (iso: string | null) => {
@@ -100,17 +220,67 @@ const fromDateTimeInputValue = (value: string) => {
   return new Date(value).toISOString()
 }
 
+// datetime-local values are "YYYY-MM-DDTHH:mm" in local time, which is what the series rule stores.
+const buildSeriesInput = (values: ScreeningFormValues): ScreeningSeriesInput => {
+  const durationMinutes = values.ends_at_override && values.ends_at
+    ? Math.round((new Date(values.ends_at).getTime() - new Date(values.starts_at).getTime()) / 60_000)
+    : null
+
+  return {
+    movie_id: values.movie_id,
+    auditorium_id: values.auditorium_id,
+    frequency: values.repeat === 'daily' ? 'daily' : 'weekly',
+    weekdays: values.repeat === 'weekly' ? values.weekdays.map(Number) : [],
+    starts_on: values.starts_at.slice(0, 10),
+    start_time: values.starts_at.slice(11, 16),
+    duration_minutes: durationMinutes,
+    until_date: values.end_mode === 'until' ? values.until_date || null : null,
+    occurrence_count: values.end_mode === 'count' ? Number(values.occurrence_count) : null,
+    skip_holidays: values.skip_holidays,
+    notes: values.notes?.trim() ? values.notes.trim() : null,
+  }
+}
+
 export function ScreeningsPage() {
-  const { data: screenings, loading, error, create, update, remove } = useScreenings()
+  const {
+    data: screenings,
+    loading,
+    error,
+    create,
+    update,
+    remove,
+    markNoShows,
+    cancel,
+    createSeries,
+    updateFollowing,
+    removeFollowing,
+    findConflicts,
+    findSeriesConflicts,
+  } = useScreenings()
   const {
     data: movies,
     loading: moviesLoading,
     error: moviesError,
   } = useMovies()
+  const {
+    data: auditoriums,
+    loading: auditoriumsLoading,
+    error: auditoriumsError,
+  } = useAuditoriums()
+  const { data: settings, update: updateSettings } = useCinemaSettings()
   const [dialogOpen, setDialogOpen] = useState(false)
   const [activeScreening, setActiveScreening] = useState<Screening | null>(null)
   const [pendingDelete, setPendingDelete] = useState<Screening | null>(null)
+  const [waitlistScreening, setWaitlistScreening] = useState<Screening | null>(null)
+  const [pendingNoShow, setPendingNoShow] = useState<Screening | null>(null)
+  const [pendingCancel, setPendingCancel] = useState<Screening | null>(null)
+  const [holidaysOpen, setHolidaysOpen] = useState(false)
+  const [settingsOpen, setSettingsOpen] = useState(false)
+  const [conflicts, setConflicts] = useState<ScreeningConflict[]>([])
+  const [editScope, setEditScope] = useState<EditScope>('single')
   const [submitting, setSubmitting] = useState(false)
+  const [view, setView] = useState<ScheduleView>('list')
+  const [calendarDate, setCalendarDate] = useState(() => new Date())
 
   const form = useForm<ScreeningFormValues>({
     resolver: zodResolver(screeningSchema),
@@ -121,10 +291,18 @@ export function ScreeningsPage() {
     if (!dialogOpen) {
       setActiveScreening(null)
       setSubmitting(false)
+      setEditScope('single')
+      setConflicts([])
       form.reset(EMPTY_SCREENING)
     }
   }, [dialogOpen, form])
 
+  // a reported conflict no longer applies once the admin changes any field.
+  useEffect(() => {
+    const subscription = form.watch(() => setConflicts([]))
+    return () => subscription.unsubscribe()
+  }, [form])
+
   const activeMovies = useMemo(
     () =>
       movies
@@ -133,27 +311,94 @@ export function ScreeningsPage() {
     [movies]
   )
 
-  const handleOpenCreate = () => {
-    setActiveScreening(null)
-    form.reset({
-      ...EMPTY_SCREENING,
-      movie_id: activeMovies[0]?.id ?? '',
-    })
-    setDialogOpen(true)
-  }
+  const activeAuditoriums = useMemo(
+    () => auditoriums.filter((auditorium) => auditorium.is_active),
+    [auditoriums]
+  )
 
-  const handleOpenEdit = (screening: Screening) => {
-    setActiveScreening(screening)
-    form.reset({
-      movie_id: screening.movie_id,
-      starts_at: toDateTimeInputValue(screening.starts_at),
-      ends_at: toDateTimeInputValue(screening.ends_at ?? null),
-      auditorium: screening.auditorium,
-      capacity: screening.capacity,
-      notes: screening.notes ?? '',
-    })
-    setDialogOpen(true)
-  }
+  const selectedAuditoriumId = form.watch('auditorium_id')
+  const selectedAuditorium = auditoriums.find((auditorium) => auditorium.id === selectedAuditoriumId) ?? null
+  const selectedMovie = movies.find((movie) => movie.id === form.watch('movie_id')) ?? null
+  const startsAtValue = form.watch('starts_at')
+  const endsAtOverride = form.watch('ends_at_override')
+  const paddingMinutes = settings?.screening_padding_minutes ?? 0
+
+  // Mirrors public.screening_default_ends_at: start + movie duration + trailer padding.
+  const derivedEndsAt = useMemo(() => {
+    if (!startsAtValue || !selectedMovie?.duration_minutes) return null
+    const startsAt = new Date(startsAtValue).getTime()
+    if (Number.isNaN(startsAt)) return null
+    return new Date(startsAt + (selectedMovie.duration_minutes + paddingMinutes) * 60_000).toISOString()
+  }, [startsAtValue, selectedMovie?.duration_minutes, paddingMinutes])
+  const repeat = form.watch('repeat')
+  const endMode = form.watch('end_mode')
+
+  // calendar views pass the clicked slot so the form opens on that time and auditorium.
+  const handleOpenCreate = useCallback(
+    (startsAt?: Date, auditoriumId?: string) => {
+      setActiveScreening(null)
+      form.reset({
+        ...EMPTY_SCREENING,
+        movie_id: activeMovies[0]?.id ?? '',
+        starts_at: startsAt ? toDateTimeInputValue(startsAt.toISOString()) : '',
+        auditorium_id: auditoriumId ?? activeAuditoriums[0]?.id ?? '',
+      })
+      setDialogOpen(true)
+    },
+    [form, activeMovies, activeAuditoriums]
+  )
+
+  const handleOpenEdit = useCallback(
+    (screening: Screening) => {
+      setActiveScreening(screening)
+      form.reset({
+        ...EMPTY_SCREENING,
+        movie_id: screening.movie_id,
+        starts_at: toDateTimeInputValue(screening.starts_at),
+        ends_at: toDateTimeInputValue(screening.ends_at ?? null),
+        ends_at_override: screening.ends_at_override,
+        auditorium_id: screening.auditorium_id ?? '',
+        notes: screening.notes ?? '',
+      })
+      setDialogOpen(true)
+    },
+    [form]
+  )
+
+  // cancelled screenings stay on the calendars for reference but can no longer be edited.
+  const handleSelect = useCallback(
+    (screening: Screening) => {
+      if (screening.cancelled_at) {
+        toast.info(`Función cancelada. Motivo: ${screening.cancellation_reason ?? 'sin especificar'}`)
+        return
+      }
+      handleOpenEdit(screening)
+    },
+    [handleOpenEdit]
+  )
+
+  const handleReschedule = useCallback(
+    async (screening: Screening, startsAt: Date, auditoriumId?: string) => {
+      const delta = startsAt.getTime() - new Date(screening.starts_at).getTime()
+      const targetAuditoriumId = auditoriumId ?? screening.auditorium_id ?? undefined
+      if (delta === 0 && targetAuditoriumId === screening.auditorium_id) return
+
+      // derived end times follow the new start on their own; a manual end moves by the same amount.
+      const result = await update(screening.id, {
+        starts_at: startsAt.toISOString(),
+        auditorium_id: targetAuditoriumId,
+        ...(screening.ends_at_override && screening.ends_at
+          ? { ends_at: new Date(new Date(screening.ends_at).getTime() + delta).toISOString() }
+          : {}),
+      })
+      if (result.error) {
+        toast.error(result.error)
+      } else {
+        toast.success('Función reprogramada.')
+      }
+    },
+    [update]
+  )
 
   const handleSubmit = form.handleSubmit(async (values) => {
     setSubmitting(true)
@@ -161,12 +406,54 @@ export function ScreeningsPage() {
     const payload: ScreeningInput = {
       movie_id: values.movie_id,
       starts_at: fromDateTimeInputValue(values.starts_at) ?? new Date().toISOString(),
-      ends_at: values.ends_at ? fromDateTimeInputValue(values.ends_at) : null,
-      auditorium: values.auditorium.trim(),
-      capacity: values.capacity,
+      ends_at: values.ends_at_override && values.ends_at ? fromDateTimeInputValue(values.ends_at) : null,
+      ends_at_override: values.ends_at_override,
+      auditorium_id: values.auditorium_id,
       notes: values.notes?.trim() ? values.notes.trim() : null,
     }
 
+    if (activeScreening?.series_id && editScope === 'following') {
+      const result = await updateFollowing(activeScreening, payload)
+      if (result.error) {
+        toast.error(result.error)
+        setSubmitting(false)
+        return
+      }
+      toast.success(
+        result.data === 1 ? 'Se actualizó 1 función de la serie.' : `Se actualizaron ${result.data} funciones de la serie.`
+      )
+      setDialogOpen(false)
+      return
+    }
+
+    // a new series is checked occurrence by occurrence, so the overlap is named before anything is saved.
+    const check =
+      activeScreening || values.repeat === 'none'
+        ? await findConflicts(payload, activeScreening?.id)
+        : await findSeriesConflicts(buildSeriesInput(values))
+    if (check.error) {
+      toast.error(check.error)
+      setSubmitting(false)
+      return
+    }
+    if (check.data.length > 0) {
+      setConflicts(check.data)
+      setSubmitting(false)
+      return
+    }
+
+    if (!activeScreening && values.repeat !== 'none') {
+      const result = await createSeries(buildSeriesInput(values))
+      if (result.error) {
+        toast.error(result.error)
+        setSubmitting(false)
+        return
+      }
+      toast.success(result.data === 1 ? 'Se programó 1 función.' : `Se programaron ${result.data} funciones.`)
+      setDialogOpen(false)
+      return
+    }
+
     const result = activeScreening
       ? await update(activeScreening.id, payload)
       : await create(payload)
@@ -190,13 +477,58 @@ export function ScreeningsPage() {
       if (result.error) {
         toast.error(result.error)
       } else {
-        toast.success('Función eliminada.')
+        toast.success('Función movida a la papelera.')
       }
       setPendingDelete(null)
     },
     [remove]
   )
 
+  const handleDeleteFollowing = useCallback(
+    async (screening: Screening) => {
+      const result = await removeFollowing(screening.id)
+      if (result.error) {
+        toast.error(result.error)
+      } else {
+        toast.success(
+          result.data === 1
+            ? 'Se movió 1 función de la serie a la papelera.'
+            : `Se movieron ${result.data} funciones de la serie a la papelera.`
+        )
+      }
+      setPendingDelete(null)
+    },
+    [removeFollowing]
+  )
+
+  const handleRepeatChange = (value: ScreeningFormValues['repeat']) => {
+    form.setValue('repeat', value)
+    const startsAt = form.getValues('starts_at')
+    // weekly repeats default to the weekday of the first screening.
+    if (value === 'weekly' && form.getValues('weekdays').length === 0 && startsAt) {
+      form.setValue('weekdays', [String(new Date(startsAt).getDay())])
+    }
+  }
+
+  const handleMarkNoShows = useCallback(
+    async (screening: Screening) => {
+      const result = await markNoShows(screening.id)
+      if (result.error) {
+        toast.error(result.error)
+      } else if (result.data) {
+        toast.success(
+          result.data === 1
+            ? 'Se marcó 1 reserva como inasistencia.'
+            : `Se marcaron ${result.data} reservas como inasistencia.`
+        )
+      } else {
+        toast.info('No había reservas confirmadas sin asistencia.')
+      }
+      setPendingNoShow(null)
+    },
+    [markNoShows]
+  )
+
   const formatter = useMemo(
     () =>
       new Intl.DateTimeFormat('es-EC', {
@@ -213,6 +545,8 @@ export function ScreeningsPage() {
       startLabel: formatter.format(new Date(screening.starts_at)),
       endLabel: screening.ends_at ? formatter.format(new Date(screening.ends_at)) : null,
       isFuture: new Date(screening.starts_at).getTime() >= now,
+      isCancelled: screening.cancelled_at !== null,
+      hasEnded: screeningEndsAt(screening) < now,
     }))
   }, [screenings, formatter])
 
@@ -225,9 +559,21 @@ export function ScreeningsPage() {
             Programa horarios, auditorios y capacidad por película.
           </p>
         </div>
-        <Button size="sm" onClick={handleOpenCreate} disabled={activeMovies.length === 0}>
-          Nueva función
-        </Button>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => setHolidaysOpen(true)}>
+            <CalendarOff className="mr-2 h-4 w-4" /> Feriados
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setSettingsOpen(true)}>
+            <Timer className="mr-2 h-4 w-4" /> Horarios
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => handleOpenCreate()}
+            disabled={activeMovies.length === 0 || activeAuditoriums.length === 0}
+          >
+            Nueva función
+          </Button>
+        </div>
       </div>
 
       {activeMovies.length === 0 && !moviesLoading && (
@@ -238,15 +584,23 @@ export function ScreeningsPage() {
         </Alert>
       )}
 
+      {activeAuditoriums.length === 0 && !auditoriumsLoading && (
+        <Alert>
+          <AlertDescription>
+            Para crear funciones primero registra al menos una sala activa.
+          </AlertDescription>
+        </Alert>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Agenda de funciones</CardTitle>
           <CardDescription>Configura la agenda para habilitar reservas y seguimiento de asistencia.</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          {(error || moviesError) && (
+          {(error || moviesError || auditoriumsError) && (
             <Alert variant="destructive">
-              <AlertDescription>{error ?? moviesError}</AlertDescription>
+              <AlertDescription>{error ?? moviesError ?? auditoriumsError}</AlertDescription>
             </Alert>
           )}
 
@@ -255,78 +609,156 @@ export function ScreeningsPage() {
               <Spinner className="h-6 w-6" />
             </div>
           ) : (
-            <div className="overflow-x-auto">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Película</TableHead>
-                    <TableHead className="hidden md:table-cell">Inicio</TableHead>
-                    <TableHead className="hidden lg:table-cell">Fin</TableHead>
-                    <TableHead className="hidden sm:table-cell">Auditorio</TableHead>
-                    <TableHead className="hidden sm:table-cell text-center">Capacidad</TableHead>
-                    <TableHead className="w-0 text-right">Acciones</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {rows.length > 0 ? (
-                    rows.map((row) => (
-                      <TableRow key={row.id}>
-                        <TableCell>
-                          <div className="font-medium">{row.movie?.title ?? 'Película eliminada'}</div>
-                          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
-                            <span className="inline-flex items-center gap-1">
-                              <CalendarClock className="h-3.5 w-3.5" /> {row.startLabel}
-                            </span>
-                            <Badge variant={row.isFuture ? 'default' : 'secondary'}>
-                              {row.isFuture ? 'Próxima' : 'Finalizada'}
-                            </Badge>
-                          </div>
-                        </TableCell>
-                        <TableCell className="hidden md:table-cell text-sm">{row.startLabel}</TableCell>
-                        <TableCell className="hidden lg:table-cell text-sm">
-                          {row.endLabel ?? '—'}
-                        </TableCell>
-                        <TableCell className="hidden sm:table-cell text-sm">
-                          <span className="inline-flex items-center gap-1">
-                            <MapPin className="h-3.5 w-3.5" /> {row.auditorium}
-                          </span>
-                        </TableCell>
-                        <TableCell className="hidden sm:table-cell text-center text-sm">
-                          {row.capacity}
-                        </TableCell>
-                        <TableCell className="text-right">
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button variant="ghost" size="icon">
-                                <MoreHorizontal className="h-4 w-4" />
-                                <span className="sr-only">Abrir menú</span>
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="end">
-                              <DropdownMenuItem onClick={() => handleOpenEdit(row)}>
-                                <Pencil className="mr-2 h-4 w-4" /> Editar
-                              </DropdownMenuItem>
-                              <DropdownMenuItem
-                                onClick={() => setPendingDelete(row)}
-                                className="text-destructive focus:text-destructive"
-                              >
-                                <Trash className="mr-2 h-4 w-4" /> Eliminar
-                              </DropdownMenuItem>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
-                        </TableCell>
+            <Tabs value={view} onValueChange={(value) => setView(value as ScheduleView)} className="space-y-4">
+              <div className="flex flex-col gap-2 lg:flex-row lg:items-center lg:justify-between">
+                <TabsList>
+                  <TabsTrigger value="list">Lista</TabsTrigger>
+                  <TabsTrigger value="week">Semana</TabsTrigger>
+                  <TabsTrigger value="month">Mes</TabsTrigger>
+                  <TabsTrigger value="timeline">Salas</TabsTrigger>
+                </TabsList>
+                {view !== 'list' && (
+                  <DateNavigator
+                    date={calendarDate}
+                    onDateChange={setCalendarDate}
+                    step={VIEW_STEPS[view]}
+                    label={viewLabel(view, calendarDate)}
+                  />
+                )}
+              </div>
+              {view !== 'list' && (
+                <p className="text-xs text-muted-foreground">
+                  Arrastra una función para reprogramarla o haz clic en un espacio libre para crear una nueva.
+                </p>
+              )}
+              <TabsContent value="list">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Película</TableHead>
+                        <TableHead className="hidden md:table-cell">Inicio</TableHead>
+                        <TableHead className="hidden lg:table-cell">Fin</TableHead>
+                        <TableHead className="hidden sm:table-cell">Auditorio</TableHead>
+                        <TableHead className="hidden sm:table-cell text-center">Capacidad</TableHead>
+                        <TableHead className="w-0 text-right">Acciones</TableHead>
                       </TableRow>
-                    ))
-                  ) : (
-                    <TableRow>
-                      <TableCell colSpan={6} className="py-10 text-center text-sm text-muted-foreground">
-                        Aún no hay funciones programadas.
-                      </TableCell>
-                    </TableRow>
-                  )}
-                </TableBody>
-              </Table>
-            </div>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.length > 0 ? (
+                        rows.map((row) => (
+                          <TableRow key={row.id}>
+                            <TableCell>
+                              <div className="font-medium">{row.movie?.title ?? 'Película eliminada'}</div>
+                              <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                                <span className="inline-flex items-center gap-1">
+                                  <CalendarClock className="h-3.5 w-3.5" /> {row.startLabel}
+                                </span>
+                                {row.isCancelled ? (
+                                  <Badge variant="destructive">Cancelada</Badge>
+                                ) : (
+                                  <Badge variant={row.isFuture ? 'default' : 'secondary'}>
+                                    {row.isFuture ? 'Próxima' : 'Finalizada'}
+                                  </Badge>
+                                )}
+                                {row.series_id && (
+                                  <Badge variant="outline" className="gap-1">
+                                    <Repeat className="h-3 w-3" /> Serie
+                                  </Badge>
+                                )}
+                              </div>
+                              {row.cancellation_reason && (
+                                <div className="text-xs text-muted-foreground">Motivo: {row.cancellation_reason}</div>
+                              )}
+                            </TableCell>
+                            <TableCell className="hidden md:table-cell text-sm">{row.startLabel}</TableCell>
+                            <TableCell className="hidden lg:table-cell text-sm">
+                              {row.endLabel ?? '—'}
+                            </TableCell>
+                            <TableCell className="hidden sm:table-cell text-sm">
+                              <span className="inline-flex items-center gap-1">
+                                <MapPin className="h-3.5 w-3.5" /> {row.auditorium}
+                              </span>
+                            </TableCell>
+                            <TableCell className="hidden sm:table-cell text-center text-sm">
+                              {row.capacity}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button variant="ghost" size="icon">
+                                    <MoreHorizontal className="h-4 w-4" />
+                                    <span className="sr-only">Abrir menú</span>
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  <DropdownMenuItem disabled={row.isCancelled} onClick={() => handleOpenEdit(row)}>
+                                    <Pencil className="mr-2 h-4 w-4" /> Editar
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem onClick={() => setWaitlistScreening(row)}>
+                                    <ListOrdered className="mr-2 h-4 w-4" /> Lista de espera
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem disabled={!row.hasEnded} onClick={() => setPendingNoShow(row)}>
+                                    <UserX className="mr-2 h-4 w-4" /> Marcar inasistencias
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    disabled={row.isCancelled || !row.isFuture}
+                                    onClick={() => setPendingCancel(row)}
+                                  >
+                                    <Ban className="mr-2 h-4 w-4" /> Cancelar función
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={() => setPendingDelete(row)}
+                                    className="text-destructive focus:text-destructive"
+                                  >
+                                    <Trash className="mr-2 h-4 w-4" /> Eliminar
+                                  </DropdownMenuItem>
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      ) : (
+                        <TableRow>
+                          <TableCell colSpan={6} className="py-10 text-center text-sm text-muted-foreground">
+                            Aún no hay funciones programadas.
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </TabsContent>
+              <TabsContent value="week">
+                <ScreeningWeekView
+                  screenings={screenings}
+                  date={calendarDate}
+                  onSelect={handleSelect}
+                  onCreateAt={handleOpenCreate}
+                  onReschedule={handleReschedule}
+                />
+              </TabsContent>
+              <TabsContent value="month">
+                <ScreeningMonthView
+                  screenings={screenings}
+                  date={calendarDate}
+                  onDateChange={setCalendarDate}
+                  onSelect={handleSelect}
+                  onCreateAt={handleOpenCreate}
+                  onReschedule={handleReschedule}
+                />
+              </TabsContent>
+              <TabsContent value="timeline">
+                <ScreeningTimeline
+                  screenings={screenings}
+                  auditoriums={auditoriums}
+                  date={calendarDate}
+                  onSelect={handleSelect}
+                  onCreateAt={handleOpenCreate}
+                  onReschedule={handleReschedule}
+                />
+              </TabsContent>
+            </Tabs>
           )}
         </CardContent>
       </Card>
@@ -379,61 +811,241 @@ export function ScreeningsPage() {
                     </FormItem>
                   )}
                 />
-                <FormField
-                  control={form.control}
-                  name="ends_at"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Fin (opcional)</FormLabel>
-                      <FormControl>
-                        <Input
-                          type="datetime-local"
-                          value={field.value ?? ''}
-                          onChange={(event) => field.onChange(event.target.value)}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                {endsAtOverride ? (
+                  <FormField
+                    control={form.control}
+                    name="ends_at"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Fin</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="datetime-local"
+                            value={field.value ?? ''}
+                            onChange={(event) => field.onChange(event.target.value)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ) : (
+                  <FormItem>
+                    <FormLabel>Fin</FormLabel>
+                    <Input
+                      readOnly
+                      disabled
+                      value={derivedEndsAt ? formatter.format(new Date(derivedEndsAt)) : '—'}
+                    />
+                    <FormDescription>
+                      {selectedMovie?.duration_minutes
+                        ? `${selectedMovie.duration_minutes} min de película + ${paddingMinutes} min de cortos e intermedio.`
+                        : 'La película no tiene duración registrada; fija la hora de fin manualmente.'}
+                    </FormDescription>
+                  </FormItem>
+                )}
               </div>
-              <div className="grid gap-4 sm:grid-cols-2">
-                <FormField
-                  control={form.control}
-                  name="auditorium"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Auditorio / Sala</FormLabel>
+              <FormField
+                control={form.control}
+                name="ends_at_override"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between gap-4">
+                    <div className="space-y-0.5">
+                      <FormLabel>Fijar hora de fin manualmente</FormLabel>
+                      <FormDescription>
+                        Si no, se recalcula cuando cambie la duración de la película o el tiempo de cortos.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={(checked) => {
+                          field.onChange(checked)
+                          if (checked && !form.getValues('ends_at') && derivedEndsAt) {
+                            form.setValue('ends_at', toDateTimeInputValue(derivedEndsAt))
+                          }
+                        }}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="auditorium_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sala</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={auditoriums.length === 0}>
                       <FormControl>
-                        <Input placeholder="Aula Magna" {...field} />
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecciona una sala" />
+                        </SelectTrigger>
                       </FormControl>
-                      <FormMessage />
-                    </FormItem>
+                      <SelectContent>
+                        {auditoriums
+                          .filter((auditorium) => auditorium.is_active || auditorium.id === field.value)
+                          .map((auditorium) => (
+                            <SelectItem key={auditorium.id} value={auditorium.id}>
+                              {auditorium.name} · {auditorium.capacity} asientos
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      {selectedAuditorium
+                        ? `Capacidad calculada: ${selectedAuditorium.capacity} asientos (${selectedAuditorium.row_count} filas × ${selectedAuditorium.seats_per_row}).`
+                        : 'La capacidad se calcula a partir de la distribución de la sala.'}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {!activeScreening && (
+                <div className="space-y-4 rounded-md border p-4">
+                  <FormField
+                    control={form.control}
+                    name="repeat"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Repetir</FormLabel>
+                        <Select
+                          onValueChange={(value) => handleRepeatChange(value as ScreeningFormValues['repeat'])}
+                          value={field.value}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">No se repite</SelectItem>
+                            <SelectItem value="daily">Todos los días</SelectItem>
+                            <SelectItem value="weekly">Semanalmente</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {repeat === 'weekly' && (
+                    <FormField
+                      control={form.control}
+                      name="weekdays"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Días</FormLabel>
+                          <FormControl>
+                            <ToggleGroup
+                              type="multiple"
+                              variant="outline"
+                              value={field.value}
+                              onValueChange={field.onChange}
+                              className="justify-start"
+                            >
+                              {WEEKDAYS.map((weekday) => (
+                                <ToggleGroupItem
+                                  key={weekday.value}
+                                  value={weekday.value}
+                                  aria-label={weekday.label}
+                                  title={weekday.label}
+                                >
+                                  {weekday.short}
+                                </ToggleGroupItem>
+                              ))}
+                            </ToggleGroup>
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   )}
-                />
-                <FormField
-                  control={form.control}
-                  name="capacity"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Capacidad</FormLabel>
-                      <FormControl>
-                        <Input
-                          type="number"
-                          min={1}
-                          step={1}
-                          value={Number.isNaN(field.value) ? '' : field.value}
-                          onChange={(event) => {
-                            const value = event.target.value
-                            field.onChange(value === '' ? value : Number(value))
-                          }}
+                  {repeat !== 'none' && (
+                    <>
+                      <div className="grid gap-4 sm:grid-cols-2">
+                        <FormField
+                          control={form.control}
+                          name="end_mode"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Termina</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="count">Tras un número de funciones</SelectItem>
+                                  <SelectItem value="until">En una fecha</SelectItem>
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
                         />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
+                        {endMode === 'until' ? (
+                          <FormField
+                            control={form.control}
+                            name="until_date"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Hasta</FormLabel>
+                                <FormControl>
+                                  <Input type="date" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        ) : (
+                          <FormField
+                            control={form.control}
+                            name="occurrence_count"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Funciones</FormLabel>
+                                <FormControl>
+                                  <Input type="number" min={1} max={MAX_OCCURRENCES} step={1} {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
+                      </div>
+                      <FormField
+                        control={form.control}
+                        name="skip_holidays"
+                        render={({ field }) => (
+                          <FormItem className="flex items-center justify-between gap-4">
+                            <div className="space-y-0.5">
+                              <FormLabel>Omitir feriados</FormLabel>
+                              <FormDescription>No se programan funciones en los feriados registrados.</FormDescription>
+                            </div>
+                            <FormControl>
+                              <Switch checked={field.value} onCheckedChange={field.onChange} />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                    </>
                   )}
-                />
-              </div>
+                </div>
+              )}
+              {activeScreening?.series_id && (
+                <div className="space-y-2 rounded-md border p-4">
+                  <p className="text-sm font-medium">Aplicar cambios a</p>
+                  <RadioGroup value={editScope} onValueChange={(value) => setEditScope(value as EditScope)}>
+                    <label className="flex items-center gap-2 text-sm">
+                      <RadioGroupItem value="single" /> Solo esta función
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                      <RadioGroupItem value="following" /> Esta y las siguientes de la serie
+                    </label>
+                  </RadioGroup>
+                </div>
+              )}
               <FormField
                 control={form.control}
                 name="notes"
@@ -447,13 +1059,28 @@ export function ScreeningsPage() {
                   </FormItem>
                 )}
               />
+              {conflicts.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    <p>La sala está ocupada en ese horario por:</p>
+                    <ul className="mt-1 list-disc pl-4">
+                      {conflicts.map((conflict) => (
+                        <li key={conflict.screening_id}>
+                          {conflict.movie_title} · {formatter.format(new Date(conflict.starts_at))} (libre desde{' '}
+                          {formatter.format(new Date(conflict.occupied_until))})
+                        </li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
               <DialogFooter className="gap-2 sm:gap-0">
                 <DialogClose asChild>
                   <Button type="button" variant="outline">
                     Cancelar
                   </Button>
                 </DialogClose>
-                <Button type="submit" disabled={submitting || activeMovies.length === 0}>
+                <Button type="submit" disabled={submitting || activeMovies.length === 0 || activeAuditoriums.length === 0}>
                   {submitting ? 'Guardando...' : activeScreening ? 'Guardar cambios' : 'Crear función'}
                 </Button>
               </DialogFooter>
@@ -462,16 +1089,50 @@ export function ScreeningsPage() {
         </DialogContent>
       </Dialog>
 
+      <HolidaysDialog open={holidaysOpen} onOpenChange={setHolidaysOpen} />
+
+      <ScheduleSettingsDialog
+        open={settingsOpen}
+        onOpenChange={setSettingsOpen}
+        settings={settings}
+        onSave={updateSettings}
+      />
+
+      <WaitlistQueueDialog
+        screening={waitlistScreening}
+        onOpenChange={(open) => !open && setWaitlistScreening(null)}
+      />
+
+      <CancelScreeningDialog
+        screening={pendingCancel}
+        onOpenChange={(open) => !open && setPendingCancel(null)}
+        onConfirm={(screening, reason) => cancel(screening.id, reason)}
+      />
+
       <AlertDialog open={!!pendingDelete} onOpenChange={() => setPendingDelete(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>¿Eliminar función?</AlertDialogTitle>
             <AlertDialogDescription>
-              Esta acción eliminará la función y sus reservas asociadas.
+              {pendingDelete?.series_id
+                ? 'La función es parte de una serie. Puedes mover a la papelera solo esta o también las siguientes. Las funciones con reservas activas deben cancelarse primero.'
+                : 'La función pasará a la papelera, desde donde puedes restaurarla. Si tiene reservas activas, cancélala primero.'}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            {pendingDelete?.series_id && (
+              <AlertDialogAction
+                onClick={() => {
+                  if (pendingDelete) {
+                    void handleDeleteFollowing(pendingDelete)
+                  }
+                }}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Esta y las siguientes
+              </AlertDialogAction>
+            )}
             <AlertDialogAction
               onClick={() => {
                 if (pendingDelete) {
@@ -480,7 +1141,31 @@ export function ScreeningsPage() {
               }}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             >
-              Eliminar
+              {pendingDelete?.series_id ? 'Solo esta' : 'Eliminar'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!pendingNoShow} onOpenChange={() => setPendingNoShow(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Marcar inasistencias?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Las reservas confirmadas que no registraron asistencia pasarán a "No asistió". Esto también
+              ocurre automáticamente cada pocos minutos después de que termina la función.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingNoShow) {
+                  void handleMarkNoShows(pendingNoShow)
+                }
+              }}
+            >
+              Marcar inasistencias
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -0,0 +1,237 @@
+import { useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Spinner } from '@/components/ui/spinner'
+import { useTrash, type TrashTable } from '@/hooks/use-cinema'
+import { RefreshCw, RotateCcw, Trash } from 'lucide-react'
+
+type TrashRow = {
+  id: string
+  title: string
+  detail: string
+  deletedAt: string
+}
+
+type PendingPurge = {
+  table: TrashTable
+  row: TrashRow
+}
+
+const TAB_LABELS: Record<TrashTable, string> = {
+  movies: 'Películas',
+  screenings: 'Funciones',
+  reservations: 'Reservas',
+}
+
+const PURGE_WARNINGS: Record<TrashTable, string> = {
+  movies: 'Se borrará la película junto con sus funciones. Las funciones con reservas impiden el borrado.',
+  screenings: 'Se borrará la función. Si tiene reservas registradas no podrá borrarse.',
+  reservations: 'Se borrará la reserva junto con su registro de asistencia.',
+}
+
+const formatDateTime = (iso: string) => {
+  return new Intl.DateTimeFormat('es-EC', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  }).format(new Date(iso))
+}
+
+export function TrashPage() {
+  const { data, loading, error, refresh, restore, purge } = useTrash()
+  const [tab, setTab] = useState<TrashTable>('movies')
+  const [pendingPurge, setPendingPurge] = useState<PendingPurge | null>(null)
+
+  const rows = useMemo<Record<TrashTable, TrashRow[]>>(
+    () => ({
+      movies: data.movies.map((movie) => ({
+        id: movie.id,
+        title: movie.title,
+        detail: movie.duration_minutes ? `${movie.duration_minutes} min` : 'Sin duración',
+        deletedAt: movie.deleted_at ?? movie.updated_at,
+      })),
+      screenings: data.screenings.map((screening) => ({
+        id: screening.id,
+        title: screening.movie?.title ?? 'Película eliminada',
+        detail: `${formatDateTime(screening.starts_at)} · ${screening.auditorium}`,
+        deletedAt: screening.deleted_at ?? screening.updated_at,
+      })),
+      reservations: data.reservations.map((reservation) => {
+        const profile = reservation.profile
+        const name = [profile?.first_name, profile?.last_name].filter(Boolean).join(' ')
+        return {
+          id: reservation.id,
+          title: name || profile?.email || 'Usuario sin perfil',
+          detail: `${reservation.screening?.movie?.title ?? 'Función no disponible'}${
+            reservation.screening ? ` · ${formatDateTime(reservation.screening.starts_at)}` : ''
+          }`,
+          deletedAt: reservation.deleted_at ?? reservation.updated_at,
+        }
+      }),
+    }),
+    [data]
+  )
+
+  const handleRestore = async (table: TrashTable, row: TrashRow) => {
+    const result = await restore(table, row.id)
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      toast.success(`"${row.title}" se restauró.`)
+    }
+  }
+
+  const handlePurge = async ({ table, row }: PendingPurge) => {
+    const result = await purge(table, row.id)
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      toast.success(`"${row.title}" se eliminó definitivamente.`)
+    }
+    setPendingPurge(null)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Papelera</h1>
+          <p className="text-sm text-muted-foreground">
+            Restaura elementos eliminados o bórralos de forma definitiva.
+          </p>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => void refresh()} disabled={loading}>
+          <RefreshCw className="mr-2 h-4 w-4" /> Actualizar
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Elementos eliminados</CardTitle>
+          <CardDescription>
+            Las reservas restauradas vuelven como canceladas; confírmalas de nuevo desde Reservas si corresponde.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-10">
+              <Spinner className="h-6 w-6" />
+            </div>
+          ) : (
+            <Tabs value={tab} onValueChange={(value) => setTab(value as TrashTable)}>
+              <TabsList>
+                {(Object.keys(TAB_LABELS) as TrashTable[]).map((table) => (
+                  <TabsTrigger key={table} value={table}>
+                    {TAB_LABELS[table]} ({rows[table].length})
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              {(Object.keys(TAB_LABELS) as TrashTable[]).map((table) => (
+                <TabsContent key={table} value={table} className="pt-2">
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Elemento</TableHead>
+                          <TableHead className="hidden md:table-cell">Eliminado</TableHead>
+                          <TableHead className="w-0 text-right">Acciones</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rows[table].length > 0 ? (
+                          rows[table].map((row) => (
+                            <TableRow key={row.id}>
+                              <TableCell>
+                                <div className="font-medium">{row.title}</div>
+                                <div className="text-xs text-muted-foreground">{row.detail}</div>
+                              </TableCell>
+                              <TableCell className="hidden md:table-cell text-sm">
+                                {formatDateTime(row.deletedAt)}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                <div className="flex justify-end gap-2">
+                                  <Button size="sm" variant="outline" onClick={() => void handleRestore(table, row)}>
+                                    <RotateCcw className="mr-2 h-4 w-4" /> Restaurar
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="text-destructive hover:text-destructive"
+                                    onClick={() => setPendingPurge({ table, row })}
+                                  >
+                                    <Trash className="h-4 w-4" />
+                                    <span className="sr-only">Eliminar definitivamente</span>
+                                  </Button>
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        ) : (
+                          <TableRow>
+                            <TableCell colSpan={3} className="py-10 text-center text-sm text-muted-foreground">
+                              No hay {TAB_LABELS[table].toLowerCase()} en la papelera.
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </TabsContent>
+              ))}
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!pendingPurge} onOpenChange={() => setPendingPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Eliminar definitivamente?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingPurge ? PURGE_WARNINGS[pendingPurge.table] : null} Esta acción no se puede deshacer.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingPurge) {
+                  void handlePurge(pendingPurge)
+                }
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Eliminar definitivamente
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,301 @@
+import { useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Spinner } from '@/components/ui/spinner'
+import { SignupAccessCard } from '@/components/users/signup-access-card'
+import { useSupabase } from '@/hooks/use-supabase'
+import { useProfile } from '@/hooks/use-profile'
+import { useUserAccounts, type UserAccount } from '@/hooks/use-user-accounts'
+import { ROLE_LABELS, type UserRole } from '@/lib/roles'
+import { GraduationCap, MoreHorizontal, ScanLine, Search, ShieldCheck } from 'lucide-react'
+
+type PendingRoleChange = {
+  account: UserAccount
+  role: UserRole
+}
+
+const ROLE_ACTIONS: { role: UserRole; label: string; icon: typeof ShieldCheck }[] = [
+  { role: 'admin', label: 'Hacer administrador', icon: ShieldCheck },
+  { role: 'staff', label: 'Hacer personal de sala', icon: ScanLine },
+  { role: 'student', label: 'Volver a estudiante', icon: GraduationCap },
+]
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  admin: 'tendrá acceso completo al panel de administración.',
+  staff: 'solo podrá validar entradas en la sección de asistencias.',
+  student: 'perderá el acceso al panel y solo podrá reservar funciones.',
+}
+
+const ROLE_VARIANTS: Record<string, 'default' | 'secondary' | 'outline'> = {
+  admin: 'default',
+  staff: 'outline',
+  student: 'secondary',
+}
+
+const describeRole = (role: string | null) => {
+  if (!role) return '—'
+  return ROLE_LABELS[role as UserRole] ?? role
+}
+
+const formatDateTime = (iso: string) => {
+  return new Intl.DateTimeFormat('es-EC', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  }).format(new Date(iso))
+}
+
+const buildAccountName = (account: Pick<UserAccount, 'first_name' | 'last_name'>) => {
+  return [account.first_name, account.last_name].filter(Boolean).join(' ')
+}
+
+export function UsersPage() {
+  const { user } = useSupabase()
+  const { refresh: refreshProfile } = useProfile()
+  const { data: accounts, roleChanges, loading, error, setRole } = useUserAccounts()
+  const [query, setQuery] = useState('')
+  const [pendingChange, setPendingChange] = useState<PendingRoleChange | null>(null)
+
+  const filteredAccounts = useMemo(() => {
+    const normalized = query.trim().toLowerCase()
+    if (!normalized) {
+      return accounts
+    }
+    return accounts.filter((account) =>
+      [buildAccountName(account), account.email ?? '', account.user_id].some((value) =>
+        value.toLowerCase().includes(normalized)
+      )
+    )
+  }, [accounts, query])
+
+  const accountsById = useMemo(
+    () => new Map(accounts.map((account) => [account.user_id, account])),
+    [accounts]
+  )
+
+  const describeAccount = (userId: string | null) => {
+    if (!userId) return 'Sistema'
+    const account = accountsById.get(userId)
+    if (!account) return `${userId.slice(0, 8)}…`
+    return buildAccountName(account) || account.email || `${userId.slice(0, 8)}…`
+  }
+
+  const handleConfirmRoleChange = async (change: PendingRoleChange) => {
+    const result = await setRole(change.account.user_id, change.role)
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      toast.success(`Rol actualizado a ${ROLE_LABELS[change.role].toLowerCase()}.`)
+      // changing your own role must update the visible sections right away.
+      if (change.account.user_id === user?.id) {
+        await refreshProfile()
+      }
+    }
+    setPendingChange(null)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Usuarios</h1>
+          <p className="text-sm text-muted-foreground">
+            Consulta las cuentas registradas y administra quién tiene acceso al panel.
+          </p>
+        </div>
+        <div className="relative w-full sm:w-72">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Buscar por nombre o correo"
+            className="pl-8"
+          />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Cuentas</CardTitle>
+          <CardDescription>Reservas realizadas, asistencias y última actividad de cada usuario.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-10">
+              <Spinner className="h-6 w-6" />
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Usuario</TableHead>
+                    <TableHead>Rol</TableHead>
+                    <TableHead className="hidden sm:table-cell text-center">Reservas</TableHead>
+                    <TableHead className="hidden md:table-cell text-center">Asistencias</TableHead>
+                    <TableHead className="hidden lg:table-cell">Última actividad</TableHead>
+                    <TableHead className="w-0 text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredAccounts.length > 0 ? (
+                    filteredAccounts.map((account) => (
+                      <TableRow key={account.user_id}>
+                        <TableCell>
+                          <div className="font-medium">
+                            {buildAccountName(account) || 'Sin nombre'}
+                            {account.user_id === user?.id && (
+                              <span className="ml-2 text-xs text-muted-foreground">(tú)</span>
+                            )}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {account.email ?? `${account.user_id.slice(0, 8)}…`}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={ROLE_VARIANTS[account.role] ?? 'secondary'}>
+                            {describeRole(account.role)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="hidden sm:table-cell text-center text-sm">
+                          {account.reservation_count}
+                        </TableCell>
+                        <TableCell className="hidden md:table-cell text-center text-sm">
+                          {account.attended_count}
+                        </TableCell>
+                        <TableCell className="hidden lg:table-cell text-sm">
+                          {account.last_activity_at ? formatDateTime(account.last_activity_at) : '—'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon">
+                                <MoreHorizontal className="h-4 w-4" />
+                                <span className="sr-only">Abrir menú</span>
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              {ROLE_ACTIONS.filter((action) => action.role !== account.role).map((action) => {
+                                const Icon = action.icon
+                                return (
+                                  <DropdownMenuItem
+                                    key={action.role}
+                                    onClick={() => setPendingChange({ account, role: action.role })}
+                                  >
+                                    <Icon className="mr-2 h-4 w-4" /> {action.label}
+                                  </DropdownMenuItem>
+                                )
+                              })}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="py-10 text-center text-sm text-muted-foreground">
+                        {query ? 'Ningún usuario coincide con la búsqueda.' : 'Aún no hay usuarios registrados.'}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <SignupAccessCard />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Historial de roles</CardTitle>
+          <CardDescription>Últimos cambios de rol y quién los realizó.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {roleChanges.length > 0 ? (
+            <ul className="space-y-2 text-sm">
+              {roleChanges.map((change) => (
+                <li key={change.id} className="flex flex-col gap-0.5 sm:flex-row sm:items-center sm:justify-between">
+                  <span>
+                    <span className="font-medium">{describeAccount(change.user_id)}</span>:{' '}
+                    {describeRole(change.old_role)} → {describeRole(change.new_role)}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {describeAccount(change.changed_by)} · {formatDateTime(change.created_at)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">Todavía no se registran cambios de rol.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!pendingChange} onOpenChange={() => setPendingChange(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingChange ? `¿Cambiar rol a ${ROLE_LABELS[pendingChange.role].toLowerCase()}?` : ''}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingChange
+                ? `${
+                    pendingChange.account.user_id === user?.id
+                      ? 'Tu cuenta'
+                      : buildAccountName(pendingChange.account) || pendingChange.account.email || 'El usuario'
+                  } ${ROLE_DESCRIPTIONS[pendingChange.role]}`
+                : ''}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingChange) {
+                  void handleConfirmRoleChange(pendingChange)
+                }
+              }}
+            >
+              Confirmar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,389 @@
+import { useCallback, useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Spinner } from '@/components/ui/spinner'
+import { HoldCountdown } from '@/components/seating/hold-countdown'
+import { SeatPicker } from '@/components/seating/seat-picker'
+import {
+  useAuditoriums,
+  useMyReservations,
+  useMyWaitlist,
+  useScreeningAvailability,
+  type Reservation,
+  type ScreeningAvailability,
+} from '@/hooks/use-cinema'
+import { CalendarClock, Clock, MapPin, RefreshCw } from 'lucide-react'
+
+type MovieGroup = {
+  movieId: string
+  title: string
+  synopsis: string | null
+  durationMinutes: number | null
+  rating: string | null
+  posterUrl: string | null
+  screenings: ScreeningAvailability[]
+}
+
+const formatDateTime = (iso: string) => {
+  return new Intl.DateTimeFormat('es-EC', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  }).format(new Date(iso))
+}
+
+export function BillboardPage() {
+  const { data: availability, loading, error, refresh } = useScreeningAvailability()
+  const { data: reservations, book, hold, changeHoldSeat, confirmHold, releaseHold } = useMyReservations()
+  const { data: auditoriums } = useAuditoriums()
+  const { data: waitlist, join: joinWaitlist, leave: leaveWaitlist, refresh: refreshWaitlist } = useMyWaitlist()
+  const [waitlistBusyId, setWaitlistBusyId] = useState<string | null>(null)
+  const [pendingBooking, setPendingBooking] = useState<ScreeningAvailability | null>(null)
+  const [seatHold, setSeatHold] = useState<Reservation | null>(null)
+  const [holding, setHolding] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+
+  const movies = useMemo(() => {
+    const groups = new Map<string, MovieGroup>()
+    availability.forEach((screening) => {
+      const group = groups.get(screening.movie_id) ?? {
+        movieId: screening.movie_id,
+        title: screening.movie_title,
+        synopsis: screening.movie_synopsis,
+        durationMinutes: screening.movie_duration_minutes,
+        rating: screening.movie_rating,
+        posterUrl: screening.movie_poster_url,
+        screenings: [],
+      }
+      group.screenings.push(screening)
+      groups.set(screening.movie_id, group)
+    })
+    return [...groups.values()].sort((a, b) =>
+      a.title.localeCompare(b.title, 'es-ES', { sensitivity: 'base' })
+    )
+  }, [availability])
+
+  // pending reservations are seat holds from an unfinished checkout, not tickets.
+  const bookedScreeningIds = useMemo(
+    () =>
+      new Set(
+        reservations
+          .filter((reservation) => reservation.status !== 'cancelled' && reservation.status !== 'pending')
+          .map((reservation) => reservation.screening_id)
+      ),
+    [reservations]
+  )
+
+  const waitlistByScreening = useMemo(
+    () => new Map(waitlist.map((entry) => [entry.screening_id, entry])),
+    [waitlist]
+  )
+
+  const handleJoinWaitlist = async (screening: ScreeningAvailability) => {
+    setWaitlistBusyId(screening.screening_id)
+    const result = await joinWaitlist(screening.screening_id)
+    if (result.error) {
+      toast.error(result.error)
+      await refresh()
+    } else {
+      toast.success('Te uniste a la lista de espera. Si se libera un cupo, tu reserva se confirmará automáticamente.')
+    }
+    setWaitlistBusyId(null)
+  }
+
+  const handleLeaveWaitlist = async (screening: ScreeningAvailability) => {
+    const entry = waitlistByScreening.get(screening.screening_id)
+    if (!entry) return
+    setWaitlistBusyId(screening.screening_id)
+    const result = await leaveWaitlist(entry.id)
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      toast.success('Saliste de la lista de espera.')
+    }
+    setWaitlistBusyId(null)
+  }
+
+  const bookingLayout = useMemo(
+    () => auditoriums.find((auditorium) => auditorium.id === pendingBooking?.auditorium_id) ?? null,
+    [auditoriums, pendingBooking]
+  )
+
+  const handleOpenBooking = (screening: ScreeningAvailability) => {
+    // resume a hold that is still running, e.g. after closing the dialog or navigating away mid-checkout.
+    const activeHold = reservations.find(
+      (reservation) =>
+        reservation.screening_id === screening.screening_id &&
+        reservation.status === 'pending' &&
+        !!reservation.hold_expires_at &&
+        new Date(reservation.hold_expires_at).getTime() > Date.now()
+    )
+    setSeatHold(activeHold ?? null)
+    setPendingBooking(screening)
+  }
+
+  // closing keeps the hold until it expires; clearing the seat in the picker releases it right away.
+  const handleCloseBooking = () => {
+    setSeatHold(null)
+    setPendingBooking(null)
+  }
+
+  const handleSeatChange = useCallback(
+    async (label: string | null) => {
+      if (!pendingBooking) return
+      setHolding(true)
+
+      if (!label) {
+        if (seatHold) {
+          await releaseHold(seatHold.id)
+        }
+        setSeatHold(null)
+        setHolding(false)
+        return
+      }
+
+      const result = seatHold
+        ? await changeHoldSeat(seatHold.id, label)
+        : await hold(pendingBooking.screening_id, label)
+
+      if (result.error) {
+        toast.error(result.error)
+      } else {
+        setSeatHold(result.data)
+      }
+      setHolding(false)
+    },
+    [changeHoldSeat, hold, pendingBooking, releaseHold, seatHold]
+  )
+
+  const handleHoldExpired = useCallback(() => {
+    toast.warning('Tu asiento se liberó porque la retención venció. Elige uno nuevamente.')
+    setSeatHold(null)
+  }, [])
+
+  const handleConfirmBooking = async () => {
+    if (!pendingBooking) return
+    setSubmitting(true)
+
+    const result = seatHold ? await confirmHold(seatHold.id) : await book(pendingBooking.screening_id, null)
+
+    if (result.error) {
+      toast.error(result.error)
+      setSubmitting(false)
+      // the seat count may have changed while the dialog was open.
+      await refresh()
+      return
+    }
+
+    toast.success('Reserva confirmada. ¡Te esperamos en la función!')
+    setSubmitting(false)
+    setSeatHold(null)
+    setPendingBooking(null)
+    await refresh()
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Cartelera</h1>
+          <p className="text-sm text-muted-foreground">
+            Explora las películas en cartelera y reserva tu lugar en las próximas funciones.
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => void Promise.all([refresh(), refreshWaitlist()])}
+          disabled={loading}
+        >
+          <RefreshCw className="mr-2 h-4 w-4" /> Actualizar
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-10">
+          <Spinner className="h-6 w-6" />
+        </div>
+      ) : movies.length === 0 ? (
+        <Card>
+          <CardContent className="py-10 text-center text-sm text-muted-foreground">
+            No hay funciones próximas disponibles por ahora. Vuelve pronto.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          {movies.map((movie) => (
+            <Card key={movie.movieId}>
+              <CardHeader className="grid-cols-[auto_1fr] gap-4">
+                {movie.posterUrl ? (
+                  <img
+                    src={movie.posterUrl}
+                    alt={movie.title}
+                    className="row-span-2 h-28 w-20 rounded-md object-cover"
+                  />
+                ) : (
+                  <div className="row-span-2 flex h-28 w-20 items-center justify-center rounded-md bg-muted text-xs text-muted-foreground">
+                    Sin póster
+                  </div>
+                )}
+                <CardTitle className="text-lg">{movie.title}</CardTitle>
+                <CardDescription className="space-y-2">
+                  <div className="flex flex-wrap items-center gap-2 text-xs">
+                    {movie.durationMinutes && (
+                      <span className="inline-flex items-center gap-1">
+                        <Clock className="h-3.5 w-3.5" /> {movie.durationMinutes} min
+                      </span>
+                    )}
+                    {movie.rating && <Badge variant="outline">{movie.rating}</Badge>}
+                  </div>
+                  {movie.synopsis && <p className="line-clamp-3 text-sm">{movie.synopsis}</p>}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {movie.screenings.map((screening) => {
+                  const booked = bookedScreeningIds.has(screening.screening_id)
+                  const soldOut = screening.available_seats <= 0
+                  const waitlistEntry = waitlistByScreening.get(screening.screening_id)
+                  return (
+                    <div
+                      key={screening.screening_id}
+                      className="flex flex-col gap-3 rounded-lg border p-3 sm:flex-row sm:items-center sm:justify-between"
+                    >
+                      <div className="space-y-1 text-sm">
+                        <div className="inline-flex items-center gap-1 font-medium">
+                          <CalendarClock className="h-3.5 w-3.5" /> {formatDateTime(screening.starts_at)}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                          <span className="inline-flex items-center gap-1">
+                            <MapPin className="h-3.5 w-3.5" /> {screening.auditorium}
+                          </span>
+                          <Badge variant={soldOut ? 'destructive' : 'secondary'}>
+                            {soldOut ? 'Agotada' : `${screening.available_seats} cupos libres`}
+                          </Badge>
+                        </div>
+                      </div>
+                      {soldOut && !booked ? (
+                        waitlistEntry ? (
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline">#{waitlistEntry.position} en espera</Badge>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              disabled={waitlistBusyId === screening.screening_id}
+                              onClick={() => void handleLeaveWaitlist(screening)}
+                            >
+                              Salir
+                            </Button>
+                          </div>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            disabled={waitlistBusyId === screening.screening_id}
+                            onClick={() => void handleJoinWaitlist(screening)}
+                          >
+                            Lista de espera
+                          </Button>
+                        )
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant={booked ? 'outline' : 'default'}
+                          disabled={booked || soldOut}
+                          onClick={() => handleOpenBooking(screening)}
+                        >
+                          {booked ? 'Reservada' : 'Reservar'}
+                        </Button>
+                      )}
+                    </div>
+                  )
+                })}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!pendingBooking} onOpenChange={(open) => !open && handleCloseBooking()}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Confirmar reserva</DialogTitle>
+            <DialogDescription>
+              {pendingBooking
+                ? `${pendingBooking.movie_title} · ${formatDateTime(pendingBooking.starts_at)} · ${pendingBooking.auditorium}`
+                : ''}
+            </DialogDescription>
+          </DialogHeader>
+          {pendingBooking && bookingLayout ? (
+            <div className="space-y-2">
+              <SeatPicker
+                screeningId={pendingBooking.screening_id}
+                layout={bookingLayout}
+                value={seatHold?.seat_label ?? null}
+                ownSeat={seatHold?.seat_label ?? null}
+                onChange={(label) => void handleSeatChange(label)}
+                className={holding ? 'pointer-events-none opacity-70' : undefined}
+              />
+              {seatHold?.hold_expires_at ? (
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="text-sm">
+                      Asiento seleccionado: <span className="font-medium">{seatHold.seat_label}</span>
+                    </p>
+                    <HoldCountdown
+                      key={seatHold.id}
+                      expiresAt={seatHold.hold_expires_at}
+                      onExpire={handleHoldExpired}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Si cierras esta ventana, el asiento sigue retenido hasta que termine el tiempo.
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Selecciona tu asiento en el mapa. Lo retendremos unos minutos mientras confirmas.
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Esta función no tiene asientos numerados; tu cupo se asignará al ingresar.
+            </p>
+          )}
+          <DialogFooter className="gap-2 sm:gap-0">
+            <DialogClose asChild>
+              <Button type="button" variant="outline">
+                Cancelar
+              </Button>
+            </DialogClose>
+            <Button
+              onClick={() => void handleConfirmBooking()}
+              disabled={submitting || holding || (!!bookingLayout && !seatHold)}
+            >
+              {submitting ? 'Reservando...' : 'Confirmar reserva'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
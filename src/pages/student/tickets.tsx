@@ -0,0 +1,330 @@
+import { useEffect, useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Spinner } from '@/components/ui/spinner'
+import { SignedTicketQr } from '@/components/tickets/ticket-qr'
+import {
+  useMyNotifications,
+  useMyReservations,
+  type Reservation,
+  type ReservationStatus,
+} from '@/hooks/use-cinema'
+import { Armchair, BellRing, CalendarClock, MapPin, Maximize2, QrCode, RefreshCw } from 'lucide-react'
+
+type TicketTab = 'upcoming' | 'past' | 'cancelled'
+
+const STATUS_LABELS: Record<ReservationStatus, string> = {
+  pending: 'Pendiente',
+  confirmed: 'Confirmada',
+  cancelled: 'Cancelada',
+  checked_in: 'Asistencia validada',
+  no_show: 'No asistió',
+}
+
+const STATUS_VARIANTS: Record<ReservationStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  pending: 'secondary',
+  confirmed: 'default',
+  cancelled: 'outline',
+  checked_in: 'default',
+  no_show: 'destructive',
+}
+
+const EMPTY_MESSAGES: Record<TicketTab, string> = {
+  upcoming: 'No tienes entradas para próximas funciones. Reserva desde la cartelera.',
+  past: 'Aún no has asistido a ninguna función.',
+  cancelled: 'No tienes reservas canceladas.',
+}
+
+const formatDateTime = (iso: string) => {
+  return new Intl.DateTimeFormat('es-EC', {
+    dateStyle: 'full',
+    timeStyle: 'short',
+  }).format(new Date(iso))
+}
+
+const classifyTicket = (reservation: Reservation, now: number): TicketTab => {
+  if (reservation.status === 'cancelled') {
+    return 'cancelled'
+  }
+  if (reservation.status === 'checked_in' || reservation.status === 'no_show') {
+    return 'past'
+  }
+  const screening = reservation.screening
+  const endsAt = screening?.ends_at ?? screening?.starts_at
+  if (!endsAt || new Date(endsAt).getTime() < now) {
+    return 'past'
+  }
+  return 'upcoming'
+}
+
+// Keeps the screen awake while the ticket is shown at the door, where supported.
+const useScreenWakeLock = (active: boolean) => {
+  useEffect(() => {
+    if (!active || !('wakeLock' in navigator)) {
+      return
+    }
+
+    let sentinel: WakeLockSentinel | null = null
+    let released = false
+
+    navigator.wakeLock
+      .request('screen')
+      .then((lock) => {
+        if (released) {
+          void lock.release()
+        } else {
+          sentinel = lock
+        }
+      })
+      .catch(() => undefined)
+
+    return () => {
+      released = true
+      void sentinel?.release()
+    }
+  }, [active])
+}
+
+export function TicketsPage() {
+  const { data: reservations, loading, error, refresh, cancel } = useMyReservations()
+  const { data: notifications, refresh: refreshNotifications, markRead } = useMyNotifications()
+  const [tab, setTab] = useState<TicketTab>('upcoming')
+  const [doorTicket, setDoorTicket] = useState<Reservation | null>(null)
+  const [pendingCancel, setPendingCancel] = useState<Reservation | null>(null)
+
+  useScreenWakeLock(!!doorTicket)
+
+  const grouped = useMemo(() => {
+    const now = Date.now()
+    const groups: Record<TicketTab, Reservation[]> = { upcoming: [], past: [], cancelled: [] }
+    // pending reservations are seat holds from an unfinished checkout, not tickets yet.
+    reservations
+      .filter((reservation) => reservation.status !== 'pending')
+      .forEach((reservation) => {
+        groups[classifyTicket(reservation, now)].push(reservation)
+      })
+    const byStart = (a: Reservation, b: Reservation) =>
+      new Date(a.screening?.starts_at ?? 0).getTime() - new Date(b.screening?.starts_at ?? 0).getTime()
+    groups.upcoming.sort(byStart)
+    groups.past.sort((a, b) => byStart(b, a))
+    groups.cancelled.sort((a, b) => byStart(b, a))
+    return groups
+  }, [reservations])
+
+  const unreadNotifications = useMemo(
+    () => notifications.filter((notification) => !notification.read_at),
+    [notifications]
+  )
+
+  const handleMarkRead = async () => {
+    const result = await markRead()
+    if (result.error) {
+      toast.error(result.error)
+    }
+  }
+
+  const handleCancel = async (reservation: Reservation) => {
+    const result = await cancel(reservation.id)
+    if (result.error) {
+      toast.error(result.error)
+    } else {
+      toast.success('Reserva cancelada.')
+    }
+    setPendingCancel(null)
+  }
+
+  const renderTicket = (reservation: Reservation, ticketTab: TicketTab) => {
+    const screening = reservation.screening
+    return (
+      <Card key={reservation.id} className={ticketTab === 'upcoming' ? undefined : 'opacity-80'}>
+        <CardContent className="flex flex-col gap-4 sm:flex-row sm:items-center">
+          {ticketTab === 'upcoming' ? (
+            <button
+              type="button"
+              className="flex h-[140px] w-[140px] flex-col items-center justify-center gap-2 self-center rounded-lg border border-dashed text-xs text-muted-foreground hover:bg-muted"
+              onClick={() => setDoorTicket(reservation)}
+              aria-label="Mostrar código en pantalla completa"
+            >
+              <QrCode className="h-12 w-12" />
+              Ver código
+            </button>
+          ) : null}
+          <div className="flex flex-1 flex-col gap-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h3 className="text-base font-semibold leading-tight">
+                {screening?.movie?.title ?? 'Película no disponible'}
+              </h3>
+              <Badge variant={STATUS_VARIANTS[reservation.status]}>{STATUS_LABELS[reservation.status]}</Badge>
+            </div>
+            <div className="space-y-1 text-sm text-muted-foreground">
+              <div className="inline-flex items-center gap-1">
+                <CalendarClock className="h-3.5 w-3.5" />
+                {screening ? formatDateTime(screening.starts_at) : '—'}
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="inline-flex items-center gap-1">
+                  <MapPin className="h-3.5 w-3.5" /> {screening?.auditorium ?? '—'}
+                </span>
+                <span className="inline-flex items-center gap-1">
+                  <Armchair className="h-3.5 w-3.5" /> {reservation.seat_label ?? 'Asiento libre'}
+                </span>
+              </div>
+            </div>
+            {screening?.cancelled_at && (
+              <p className="text-sm text-destructive">
+                La función fue cancelada. Motivo: {screening.cancellation_reason}
+              </p>
+            )}
+            {ticketTab === 'upcoming' && (
+              <div className="flex flex-wrap gap-2 pt-1">
+                <Button size="sm" onClick={() => setDoorTicket(reservation)}>
+                  <Maximize2 className="mr-2 h-4 w-4" /> Mostrar en la puerta
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setPendingCancel(reservation)}>
+                  Cancelar reserva
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Mis entradas</h1>
+          <p className="text-sm text-muted-foreground">
+            Presenta el código QR de tu reserva en la entrada del auditorio. El código cambia cada minuto, así que
+            ábrelo desde aquí al llegar; las capturas de pantalla no sirven.
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            void refresh()
+            void refreshNotifications()
+          }}
+          disabled={loading}
+        >
+          <RefreshCw className="mr-2 h-4 w-4" /> Actualizar
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {unreadNotifications.length > 0 && (
+        <Alert>
+          <BellRing className="h-4 w-4" />
+          <AlertTitle>Tienes avisos nuevos</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <ul className="space-y-1">
+              {unreadNotifications.map((notification) => (
+                <li key={notification.id}>
+                  <span className="font-medium text-foreground">{notification.title}:</span> {notification.body}
+                </li>
+              ))}
+            </ul>
+            <Button size="sm" variant="outline" onClick={() => void handleMarkRead()}>
+              Marcar como leídos
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Tabs value={tab} onValueChange={(value) => setTab(value as TicketTab)}>
+        <TabsList>
+          <TabsTrigger value="upcoming">Próximas ({grouped.upcoming.length})</TabsTrigger>
+          <TabsTrigger value="past">Pasadas ({grouped.past.length})</TabsTrigger>
+          <TabsTrigger value="cancelled">Canceladas ({grouped.cancelled.length})</TabsTrigger>
+        </TabsList>
+        {(Object.keys(EMPTY_MESSAGES) as TicketTab[]).map((ticketTab) => (
+          <TabsContent key={ticketTab} value={ticketTab} className="space-y-4 pt-2">
+            {loading ? (
+              <div className="flex justify-center py-10">
+                <Spinner className="h-6 w-6" />
+              </div>
+            ) : grouped[ticketTab].length === 0 ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Sin entradas</CardTitle>
+                  <CardDescription>{EMPTY_MESSAGES[ticketTab]}</CardDescription>
+                </CardHeader>
+              </Card>
+            ) : (
+              grouped[ticketTab].map((reservation) => renderTicket(reservation, ticketTab))
+            )}
+          </TabsContent>
+        ))}
+      </Tabs>
+
+      <Dialog open={!!doorTicket} onOpenChange={(open) => !open && setDoorTicket(null)}>
+        <DialogContent className="flex h-[100dvh] max-w-none flex-col items-center justify-center gap-6 rounded-none border-0 bg-white text-black sm:max-w-none">
+          {doorTicket && (
+            <>
+              <DialogTitle className="text-center text-2xl font-semibold">
+                {doorTicket.screening?.movie?.title ?? 'Entrada'}
+              </DialogTitle>
+              <SignedTicketQr reservationId={doorTicket.id} size={300} className="p-4" />
+              <DialogDescription className="space-y-1 text-center text-base text-black/70">
+                <span className="block">
+                  {doorTicket.screening ? formatDateTime(doorTicket.screening.starts_at) : '—'}
+                </span>
+                <span className="block">
+                  {doorTicket.screening?.auditorium ?? '—'} · {doorTicket.seat_label ?? 'Asiento libre'}
+                </span>
+              </DialogDescription>
+              <p className="text-sm text-black/60">Sube el brillo de tu pantalla para facilitar el escaneo.</p>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingCancel} onOpenChange={() => setPendingCancel(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Cancelar reserva?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Liberarás tu cupo para que otra persona pueda asistir a la función.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Volver</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingCancel) {
+                  void handleCancel(pendingCancel)
+                }
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Cancelar reserva
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
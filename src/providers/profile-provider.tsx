@@ -37,15 +37,8 @@ const useProvideProfile = (): UseProfileState => {
         role: (data as Profile).role ?? 'student',
       })
     } else {
-      setProfile({
-        user_id: userId,
-        first_name: null,
-        last_name: null,
-        avatar_url: null,
-        role: 'student',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
+      // the on_auth_user_created trigger creates the row, so a miss means it is not visible yet.
+      setProfile(null)
     }
 
     setLoading(false)
@@ -69,7 +62,6 @@ const useProvideProfile = (): UseProfileState => {
         first_name: input.first_name ?? profile?.first_name ?? null,
         last_name: input.last_name ?? profile?.last_name ?? null,
         avatar_url: input.avatar_url ?? profile?.avatar_url ?? null,
-        role: input.role ?? profile?.role ?? 'student',
       }
 
       const { data, error } = await supabase
@@ -99,7 +91,6 @@ const useProvideProfile = (): UseProfileState => {
       profile?.first_name,
       profile?.last_name,
       profile?.avatar_url,
-      profile?.role,
     ]
   )
 
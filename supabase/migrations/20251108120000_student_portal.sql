@@ -0,0 +1,67 @@
+-- migration: student_portal
+-- purpose: let authenticated students browse the active catalog and upcoming screenings so they can
+-- book their own seats through the existing "users can insert own reservations" policy.
+-- affected: public.movies (new select policy), public.screenings (new select policy),
+-- public.screening_availability (new view), public.reservations (one active reservation per user and
+-- screening instead of one ever).
+
+-- allow any authenticated user to read movies that are currently active in the catalog.
+create policy "authenticated users can read active movies"
+  on public.movies
+  for select
+  to authenticated
+  using (is_active);
+
+-- allow any authenticated user to read screenings that belong to an active movie.
+create policy "authenticated users can read screenings of active movies"
+  on public.screenings
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.movies m
+      where m.id = movie_id
+        and m.is_active
+    )
+  );
+
+-- view exposing remaining seats for upcoming screenings without leaking other users' reservations.
+create or replace view public.screening_availability as
+select
+  s.id as screening_id,
+  s.movie_id,
+  m.title as movie_title,
+  m.synopsis as movie_synopsis,
+  m.duration_minutes as movie_duration_minutes,
+  m.rating as movie_rating,
+  m.poster_url as movie_poster_url,
+  s.starts_at,
+  s.ends_at,
+  s.auditorium,
+  s.capacity,
+  count(r.id) filter (where r.status in ('pending', 'confirmed', 'checked_in')) as reserved_seats,
+  greatest(
+    s.capacity - count(r.id) filter (where r.status in ('pending', 'confirmed', 'checked_in')),
+    0
+  ) as available_seats
+from public.screenings s
+join public.movies m on m.id = s.movie_id
+left join public.reservations r on r.screening_id = s.id
+where m.is_active
+  and s.starts_at >= now()
+group by s.id, m.id;
+
+comment on view public.screening_availability is 'Cupos disponibles por función próxima de películas activas.';
+
+grant select on public.screening_availability to authenticated;
+
+-- a cancelled reservation is kept as history and must not stop the student from booking the same
+-- screening again, so uniqueness only covers reservations that are still active. the index keeps the
+-- constraint's name so the error mapping in the app stays the same.
+alter table public.reservations
+  drop constraint if exists reservations_user_screening_unique;
+
+create unique index if not exists reservations_user_screening_unique
+  on public.reservations (screening_id, user_id)
+  where status <> 'cancelled';
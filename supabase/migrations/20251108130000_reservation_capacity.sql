@@ -0,0 +1,148 @@
+-- migration: reservation_capacity
+-- purpose: enforce screenings.capacity on the server for every reservation write path (admin dialog,
+-- student booking, status changes) and stop occupancy metrics from exceeding 100%.
+-- affected: public.reservations (new trigger), public.screenings (new trigger), public.screening_stats (recreated).
+-- errors: raises sqlstate 'CU001' when a screening is full and 'CU002' when capacity would drop below
+-- the seats already taken. the client maps these codes to friendly messages.
+
+-- statuses that hold a seat for the screening.
+create or replace function public.reservation_status_holds_seat(p_status public.reservation_status)
+returns boolean
+language sql
+immutable
+as $$
+  select p_status in ('pending', 'confirmed', 'checked_in');
+$$;
+
+comment on function public.reservation_status_holds_seat(public.reservation_status) is 'Indica si un estado de reserva ocupa un cupo en la función.';
+
+-- reject reservations that would push a screening above its capacity.
+-- the screening row is locked so concurrent bookings for the same screening are serialized and
+-- each one counts the seats committed by the previous transaction.
+create or replace function public.enforce_reservation_capacity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_capacity integer;
+  v_taken integer;
+begin
+  if not public.reservation_status_holds_seat(new.status) then
+    return new;
+  end if;
+
+  -- updates that keep the same screening and already held a seat do not consume a new one.
+  if tg_op = 'UPDATE'
+    and old.screening_id = new.screening_id
+    and public.reservation_status_holds_seat(old.status) then
+    return new;
+  end if;
+
+  select capacity
+  into v_capacity
+  from public.screenings
+  where id = new.screening_id
+  for no key update;
+
+  if not found then
+    return new;
+  end if;
+
+  select count(*)
+  into v_taken
+  from public.reservations
+  where screening_id = new.screening_id
+    and id <> new.id
+    and public.reservation_status_holds_seat(status);
+
+  if v_taken >= v_capacity then
+    raise exception 'La función alcanzó su capacidad máxima (% cupos).', v_capacity
+      using errcode = 'CU001',
+            hint = 'screening_full';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger reservations_enforce_capacity
+  before insert or update of status, screening_id on public.reservations
+  for each row
+  execute procedure public.enforce_reservation_capacity();
+
+-- prevent lowering a screening's capacity below the seats already reserved.
+create or replace function public.enforce_screening_capacity_floor()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_taken integer;
+begin
+  if new.capacity >= old.capacity then
+    return new;
+  end if;
+
+  select count(*)
+  into v_taken
+  from public.reservations
+  where screening_id = new.id
+    and public.reservation_status_holds_seat(status);
+
+  if new.capacity < v_taken then
+    raise exception 'La capacidad no puede ser menor a las % reservas activas.', v_taken
+      using errcode = 'CU002',
+            hint = 'capacity_below_reserved';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger screenings_enforce_capacity_floor
+  before update of capacity on public.screenings
+  for each row
+  execute procedure public.enforce_screening_capacity_floor();
+
+-- occupancy now counts only reservations that hold a seat, so cancelled rows no longer inflate it.
+create or replace view public.screening_stats as
+select
+  s.id as screening_id,
+  s.movie_id,
+  m.title as movie_title,
+  s.starts_at,
+  s.ends_at,
+  s.auditorium,
+  s.capacity,
+  count(r.id) as total_reservations,
+  count(r.id) filter (where r.status in ('pending', 'confirmed', 'checked_in', 'no_show')) as active_reservations,
+  count(r.id) filter (where r.status = 'checked_in') as checked_in_count,
+  coalesce(
+    round(
+      (count(r.id) filter (where r.status in ('pending', 'confirmed', 'checked_in')))::numeric
+        / nullif(s.capacity::numeric, 0)
+        * 100,
+      2
+    ),
+    0
+  ) as occupancy_rate,
+  coalesce(
+    round(
+      (count(r.id) filter (where r.status = 'checked_in'))::numeric
+        / nullif(count(r.id)::numeric, 0)
+        * 100,
+      2
+    ),
+    0
+  ) as attendance_rate,
+  s.created_at,
+  s.updated_at
+from public.screenings s
+left join public.movies m on m.id = s.movie_id
+left join public.reservations r on r.screening_id = s.id
+group by s.id, m.title;
+
+comment on view public.screening_stats is 'Métricas de ocupación y asistencia por función.';
@@ -0,0 +1,265 @@
+-- migration: auditoriums
+-- purpose: replace the free-text screenings.auditorium with an auditorium registry that describes
+-- each room as a seat grid, so capacity is derived from the layout and seat labels can be validated.
+-- affected: public.auditoriums (new, blocked and wheelchair seats checked against the grid), public.screenings (new auditorium_id column, derive trigger, capacity floor trigger now unconditional),
+-- public.reservations (seat label validation trigger).
+-- notes: screenings.auditorium and screenings.capacity are kept as denormalized copies of the
+-- auditorium name and capacity so existing views and reports keep working unchanged.
+
+-- true when every label names a distinct seat inside a grid of the given size. blocked seats are
+-- subtracted from the grid to get the capacity, so stray or repeated labels would understate it;
+-- wheelchair spaces must also point at real seats. a seat is either blocked or a wheelchair space.
+create or replace function public.seat_labels_fit_grid(p_labels text[], p_row_count integer, p_seats_per_row integer)
+returns boolean
+language sql
+immutable
+as $$
+  select coalesce(bool_and(
+           case
+             when label ~ '^[A-Z][1-9][0-9]?$' then
+               ascii(left(label, 1)) - 64 <= p_row_count
+               and substring(label from 2)::integer <= p_seats_per_row
+             else false
+           end
+         ), true)
+    and count(distinct label) = count(*)
+  from unnest(p_labels) as label;
+$$;
+
+-- auditoriums describe a rectangular seat grid. rows are labelled A, B, C... and seats are numbered
+-- from 1, so a seat label looks like "C7". aisles are rendered after the listed seat numbers / rows.
+create table if not exists public.auditoriums (
+  id uuid default gen_random_uuid() primary key,
+  name text not null,
+  location text,
+  row_count integer not null check (row_count between 1 and 26),
+  seats_per_row integer not null check (seats_per_row between 1 and 60),
+  aisle_after_seats integer[] not null default '{}',
+  aisle_after_rows integer[] not null default '{}',
+  blocked_seats text[] not null default '{}',
+  wheelchair_seats text[] not null default '{}',
+  capacity integer generated always as (row_count * seats_per_row - cardinality(blocked_seats)) stored,
+  is_active boolean not null default true,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now(),
+  constraint auditoriums_name_unique unique (name),
+  constraint auditoriums_capacity_positive check (row_count * seats_per_row - cardinality(blocked_seats) > 0),
+  constraint auditoriums_blocked_seats_valid check (public.seat_labels_fit_grid(blocked_seats, row_count, seats_per_row)),
+  constraint auditoriums_wheelchair_seats_valid check (public.seat_labels_fit_grid(wheelchair_seats, row_count, seats_per_row)),
+  constraint auditoriums_seat_markings_disjoint check (not (blocked_seats && wheelchair_seats))
+);
+
+comment on table public.auditoriums is 'Salas del cine con su distribución de asientos.';
+comment on column public.auditoriums.aisle_after_seats is 'Números de asiento después de los cuales hay un pasillo vertical.';
+comment on column public.auditoriums.aisle_after_rows is 'Números de fila (desde 1) después de los cuales hay un pasillo horizontal.';
+comment on column public.auditoriums.blocked_seats is 'Etiquetas de asientos inhabilitados (por ejemplo, A1).';
+comment on column public.auditoriums.wheelchair_seats is 'Etiquetas de espacios accesibles para silla de ruedas.';
+comment on column public.auditoriums.capacity is 'Capacidad derivada de la grilla menos los asientos bloqueados.';
+
+alter table public.auditoriums enable row level security;
+
+create trigger auditoriums_set_updated_at
+  before update on public.auditoriums
+  for each row
+  execute procedure public.handle_timestamp_updated_at();
+
+-- screenings point at an auditorium. legacy rows are backfilled below.
+alter table public.screenings
+  add column if not exists auditorium_id uuid references public.auditoriums (id) on delete restrict;
+
+comment on column public.screenings.auditorium_id is 'Sala donde se proyecta la función.';
+
+create index if not exists screenings_auditorium_id_idx on public.screenings (auditorium_id);
+
+-- true when the label names a seat inside the auditorium grid that is not blocked.
+create or replace function public.auditorium_seat_is_valid(p_auditorium_id uuid, p_seat_label text)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_label text := upper(trim(p_seat_label));
+  v_row integer;
+  v_seat integer;
+begin
+  if v_label is null or v_label !~ '^[A-Z][0-9]{1,2}$' then
+    return false;
+  end if;
+
+  v_row := ascii(left(v_label, 1)) - 64;
+  v_seat := substring(v_label from 2)::integer;
+
+  return exists (
+    select 1
+    from public.auditoriums a
+    where a.id = p_auditorium_id
+      and v_row <= a.row_count
+      and v_seat between 1 and a.seats_per_row
+      and not (v_label = any (a.blocked_seats))
+  );
+end;
+$$;
+
+comment on function public.auditorium_seat_is_valid(uuid, text) is 'Valida que una etiqueta de asiento exista y esté habilitada en la sala.';
+
+-- copy the auditorium name and capacity onto a screening when its auditorium is set or changed.
+-- other edits leave both columns alone, so past screenings keep the capacity they were held with;
+-- layout changes reach upcoming screenings through propagate_auditorium_changes below.
+create or replace function public.derive_screening_auditorium()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_auditorium public.auditoriums%rowtype;
+begin
+  if new.auditorium_id is null then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and new.auditorium_id is not distinct from old.auditorium_id then
+    return new;
+  end if;
+
+  select *
+  into v_auditorium
+  from public.auditoriums
+  where id = new.auditorium_id;
+
+  new.auditorium := v_auditorium.name;
+  new.capacity := v_auditorium.capacity;
+  return new;
+end;
+$$;
+
+-- triggers fire in name order: deriving must run before the capacity floor check below.
+create trigger screenings_derive_auditorium
+  before insert or update on public.screenings
+  for each row
+  execute procedure public.derive_screening_auditorium();
+
+-- the capacity floor check previously only fired when capacity was in the update's set list. now that
+-- capacity is derived from the auditorium it must run on every update.
+drop trigger if exists screenings_enforce_capacity_floor on public.screenings;
+
+create trigger screenings_enforce_capacity_floor
+  before update on public.screenings
+  for each row
+  execute procedure public.enforce_screening_capacity_floor();
+
+-- propagate renames and layout changes to upcoming screenings held in the auditorium.
+-- the capacity floor trigger rejects the change if it would strand existing reservations.
+create or replace function public.propagate_auditorium_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.name is distinct from old.name or new.capacity is distinct from old.capacity then
+    update public.screenings
+    set auditorium = new.name,
+        capacity = new.capacity
+    where auditorium_id = new.id
+      and starts_at >= now();
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger auditoriums_propagate_changes
+  after update on public.auditoriums
+  for each row
+  execute procedure public.propagate_auditorium_changes();
+
+-- reject seat labels that do not exist in the screening's auditorium.
+create or replace function public.validate_reservation_seat()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_auditorium_id uuid;
+begin
+  if new.seat_label is null then
+    return new;
+  end if;
+
+  new.seat_label := upper(trim(new.seat_label));
+
+  select auditorium_id
+  into v_auditorium_id
+  from public.screenings
+  where id = new.screening_id;
+
+  if v_auditorium_id is not null
+    and not public.auditorium_seat_is_valid(v_auditorium_id, new.seat_label) then
+    raise exception 'El asiento % no existe o está bloqueado en esta sala.', new.seat_label
+      using errcode = 'CU003',
+            hint = 'invalid_seat';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger reservations_validate_seat
+  before insert or update of seat_label, screening_id on public.reservations
+  for each row
+  execute procedure public.validate_reservation_seat();
+
+-- backfill: register every free-text auditorium as a grid large enough for its biggest screening,
+-- then link the existing screenings to it. rows are 20 seats wide, widened when 26 rows are not
+-- enough; rooms over 26 x 60 seats are capped at that grid. capacity may grow to fill the last row.
+insert into public.auditoriums (name, row_count, seats_per_row)
+select
+  sized.auditorium,
+  least(ceil(sized.capacity / width.seats_per_row::numeric)::integer, 26),
+  width.seats_per_row
+from (
+  select s.auditorium, greatest(max(s.capacity), 1) as capacity
+  from public.screenings s
+  where s.auditorium_id is null
+  group by s.auditorium
+) sized
+cross join lateral (
+  select least(greatest(ceil(sized.capacity / 26.0)::integer, least(sized.capacity, 20)), 60) as seats_per_row
+) width
+on conflict (name) do nothing;
+
+update public.screenings s
+set auditorium_id = a.id
+from public.auditoriums a
+where s.auditorium_id is null
+  and a.name = s.auditorium;
+
+-- authenticated users need the layout to pick seats.
+create policy "authenticated users can read auditoriums"
+  on public.auditoriums
+  for select
+  to authenticated
+  using (true);
+
+create policy "admins can insert auditoriums"
+  on public.auditoriums
+  for insert
+  to authenticated
+  with check ((select public.current_user_is_admin()));
+
+create policy "admins can update auditoriums"
+  on public.auditoriums
+  for update
+  to authenticated
+  using ((select public.current_user_is_admin()))
+  with check ((select public.current_user_is_admin()));
+
+create policy "admins can delete auditoriums"
+  on public.auditoriums
+  for delete
+  to authenticated
+  using ((select public.current_user_is_admin()));
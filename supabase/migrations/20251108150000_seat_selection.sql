@@ -0,0 +1,73 @@
+-- migration: seat_selection
+-- purpose: let students and admins pick seats from the auditorium map. a seat can only be held by one
+-- active reservation per screening, and the taken seats are exposed without leaking who holds them.
+-- affected: public.reservations (partial unique index, realtime publication), public.screening_taken_seats (new view),
+-- public.screening_availability (recreated with auditorium_id).
+
+-- release duplicated seat labels left over from the free-text era so the unique index can be built.
+-- the earliest reservation keeps the seat; later ones go back to "no asignado".
+update public.reservations r
+set seat_label = null
+where r.seat_label is not null
+  and public.reservation_status_holds_seat(r.status)
+  and exists (
+    select 1
+    from public.reservations other
+    where other.screening_id = r.screening_id
+      and other.seat_label = r.seat_label
+      and public.reservation_status_holds_seat(other.status)
+      and (other.reserved_at, other.id) < (r.reserved_at, r.id)
+  );
+
+-- a seat belongs to at most one seat-holding reservation per screening. cancelled and no-show
+-- reservations fall out of the index, so their seats can be picked again.
+create unique index if not exists reservations_screening_seat_unique
+  on public.reservations (screening_id, seat_label)
+  where seat_label is not null
+    and status in ('pending', 'confirmed', 'checked_in');
+
+-- seats currently held per screening. runs with the owner's privileges so students can see which
+-- seats are taken, but only the seat label and status are exposed.
+create or replace view public.screening_taken_seats as
+select
+  r.screening_id,
+  r.seat_label,
+  r.status
+from public.reservations r
+where r.seat_label is not null
+  and public.reservation_status_holds_seat(r.status);
+
+comment on view public.screening_taken_seats is 'Asientos ocupados o en proceso por función, sin datos del usuario.';
+
+grant select on public.screening_taken_seats to authenticated;
+
+-- the billboard needs the auditorium to render the seat map. new columns must go at the end.
+create or replace view public.screening_availability as
+select
+  s.id as screening_id,
+  s.movie_id,
+  m.title as movie_title,
+  m.synopsis as movie_synopsis,
+  m.duration_minutes as movie_duration_minutes,
+  m.rating as movie_rating,
+  m.poster_url as movie_poster_url,
+  s.starts_at,
+  s.ends_at,
+  s.auditorium,
+  s.capacity,
+  count(r.id) filter (where r.status in ('pending', 'confirmed', 'checked_in')) as reserved_seats,
+  greatest(
+    s.capacity - count(r.id) filter (where r.status in ('pending', 'confirmed', 'checked_in')),
+    0
+  ) as available_seats,
+  s.auditorium_id
+from public.screenings s
+join public.movies m on m.id = s.movie_id
+left join public.reservations r on r.screening_id = s.id
+where m.is_active
+  and s.starts_at >= now()
+group by s.id, m.id;
+
+-- broadcast reservation changes so open seat maps refresh without reloading. realtime applies rls,
+-- so students only receive their own rows and the client also polls the view as a fallback.
+alter publication supabase_realtime add table public.reservations;
@@ -0,0 +1,140 @@
+-- migration: seat_holds
+-- purpose: turn the unused "pending" reservation status into a temporary seat hold. picking a seat in
+-- checkout creates a pending reservation that expires after a configurable number of minutes unless
+-- it is confirmed; expired holds are deleted by a pg_cron sweep and whenever someone books the screening.
+-- affected: public.cinema_settings (new), public.reservations (hold_expires_at column, hold trigger),
+-- public.screening_taken_seats (recreated to ignore expired holds), cron job release-expired-seat-holds.
+
+create extension if not exists pg_cron;
+
+-- single-row table with tunables for the booking flow.
+create table if not exists public.cinema_settings (
+  id boolean primary key default true check (id),
+  seat_hold_minutes integer not null default 10 check (seat_hold_minutes between 1 and 60),
+  updated_at timestamp with time zone not null default now()
+);
+
+comment on table public.cinema_settings is 'Parámetros globales del flujo de reservas (una sola fila).';
+comment on column public.cinema_settings.seat_hold_minutes is 'Minutos que se retiene un asiento antes de confirmar la reserva.';
+
+insert into public.cinema_settings (id) values (true) on conflict (id) do nothing;
+
+alter table public.cinema_settings enable row level security;
+
+create trigger cinema_settings_set_updated_at
+  before update on public.cinema_settings
+  for each row
+  execute procedure public.handle_timestamp_updated_at();
+
+create policy "authenticated users can read cinema settings"
+  on public.cinema_settings
+  for select
+  to authenticated
+  using (true);
+
+create policy "admins can update cinema settings"
+  on public.cinema_settings
+  for update
+  to authenticated
+  using ((select public.current_user_is_admin()))
+  with check ((select public.current_user_is_admin()));
+
+alter table public.reservations
+  add column if not exists hold_expires_at timestamp with time zone;
+
+comment on column public.reservations.hold_expires_at is 'Vencimiento de la retención de asiento mientras la reserva está pendiente.';
+
+create index if not exists reservations_hold_expires_at_idx
+  on public.reservations (hold_expires_at)
+  where status = 'pending';
+
+-- deletes pending reservations whose hold ran out. an abandoned hold never became a ticket, so it is
+-- removed rather than cancelled; that also frees the (screening, user) pair for a new attempt.
+create or replace function public.release_expired_seat_holds(p_screening_id uuid default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_released integer;
+begin
+  delete from public.reservations
+  where status = 'pending'
+    and hold_expires_at <= now()
+    and (p_screening_id is null or screening_id = p_screening_id);
+
+  get diagnostics v_released = row_count;
+  return v_released;
+end;
+$$;
+
+comment on function public.release_expired_seat_holds(uuid) is 'Libera retenciones de asiento vencidas; devuelve cuántas se eliminaron.';
+
+-- keeps hold_expires_at owned by the server:
+--   * entering pending starts a new hold of cinema_settings.seat_hold_minutes.
+--   * staying pending keeps the original deadline, so switching seats does not extend the hold.
+--   * leaving pending clears it. confirming an expired hold is rejected with CU004.
+-- inserts first sweep expired holds for the same screening so they never block a fresh booking.
+create or replace function public.apply_reservation_hold()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_minutes integer;
+begin
+  if tg_op = 'INSERT' then
+    perform public.release_expired_seat_holds(new.screening_id);
+  end if;
+
+  if tg_op = 'UPDATE' and old.status = 'pending' then
+    if old.hold_expires_at <= now() and new.status in ('pending', 'confirmed') then
+      raise exception 'La retención del asiento venció. Vuelve a elegir tu asiento.'
+        using errcode = 'CU004',
+              hint = 'hold_expired';
+    end if;
+
+    new.hold_expires_at := case when new.status = 'pending' then old.hold_expires_at end;
+    return new;
+  end if;
+
+  if new.status <> 'pending' then
+    new.hold_expires_at := null;
+    return new;
+  end if;
+
+  select seat_hold_minutes
+  into v_minutes
+  from public.cinema_settings
+  where id;
+
+  new.hold_expires_at := now() + make_interval(mins => coalesce(v_minutes, 10));
+  return new;
+end;
+$$;
+
+-- triggers fire in name order: the sweep must run before reservations_enforce_capacity counts seats.
+create trigger reservations_apply_hold
+  before insert or update on public.reservations
+  for each row
+  execute procedure public.apply_reservation_hold();
+
+-- expired holds stop showing as taken right away, even before the sweep deletes them.
+create or replace view public.screening_taken_seats as
+select
+  r.screening_id,
+  r.seat_label,
+  r.status
+from public.reservations r
+where r.seat_label is not null
+  and public.reservation_status_holds_seat(r.status)
+  and (r.status <> 'pending' or r.hold_expires_at > now());
+
+-- sweep every minute. run `select public.release_expired_seat_holds();` to trigger it by hand.
+select cron.schedule(
+  'release-expired-seat-holds',
+  '* * * * *',
+  $$select public.release_expired_seat_holds()$$
+);
@@ -0,0 +1,350 @@
+-- migration: waitlist
+-- purpose: let students queue for sold-out screenings. when a seat frees up (cancellation, no-show,
+-- expired hold or deleted reservation) the first person in line is promoted to a confirmed reservation,
+-- inheriting the freed seat. admins can also promote or remove queue entries by hand.
+-- affected: public.waitlist (new), public.my_waitlist_entries (new view), public.reservations (promotion triggers).
+
+create table if not exists public.waitlist (
+  id uuid default gen_random_uuid() primary key,
+  screening_id uuid not null references public.screenings (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  status text not null default 'waiting' check (status in ('waiting', 'promoted', 'removed')),
+  reservation_id uuid references public.reservations (id) on delete set null,
+  promoted_at timestamp with time zone,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now()
+);
+
+comment on table public.waitlist is 'Lista de espera por función; el orden lo da created_at.';
+comment on column public.waitlist.status is 'waiting: en cola; promoted: recibió una reserva; removed: salió de la cola.';
+comment on column public.waitlist.reservation_id is 'Reserva creada al promover la entrada.';
+
+alter table public.waitlist enable row level security;
+
+create trigger waitlist_set_updated_at
+  before update on public.waitlist
+  for each row
+  execute procedure public.handle_timestamp_updated_at();
+
+-- a user waits at most once per screening; promoted and removed entries are kept as history.
+create unique index if not exists waitlist_user_screening_unique
+  on public.waitlist (screening_id, user_id)
+  where status = 'waiting';
+
+create index if not exists waitlist_queue_idx
+  on public.waitlist (screening_id, created_at)
+  where status = 'waiting';
+
+-- joining only makes sense for upcoming, sold-out screenings the user does not already hold a seat for.
+-- expired holds the sweep has not deleted yet count as free seats here and in the promotion below.
+create or replace function public.validate_waitlist_entry()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_screening public.screenings%rowtype;
+  v_reserved integer;
+begin
+  select *
+  into v_screening
+  from public.screenings
+  where id = new.screening_id;
+
+  if v_screening.starts_at < now() then
+    raise exception 'La función ya comenzó.'
+      using errcode = 'CU005',
+            hint = 'waitlist_unavailable';
+  end if;
+
+  if exists (
+    select 1
+    from public.reservations r
+    where r.screening_id = new.screening_id
+      and r.user_id = new.user_id
+      and public.reservation_status_holds_seat(r.status)
+      and (r.status <> 'pending' or r.hold_expires_at > now())
+  ) then
+    raise exception 'Ya tienes una reserva para esta función.'
+      using errcode = 'CU005',
+            hint = 'waitlist_unavailable';
+  end if;
+
+  select count(*)
+  into v_reserved
+  from public.reservations r
+  where r.screening_id = new.screening_id
+    and public.reservation_status_holds_seat(r.status)
+    and (r.status <> 'pending' or r.hold_expires_at > now());
+
+  if v_reserved < v_screening.capacity then
+    raise exception 'Todavía quedan cupos disponibles; reserva directamente.'
+      using errcode = 'CU005',
+            hint = 'waitlist_unavailable';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger waitlist_validate_entry
+  before insert on public.waitlist
+  for each row
+  execute procedure public.validate_waitlist_entry();
+
+-- promotes one waitlist entry into a confirmed reservation if the screening has a free seat.
+-- without p_entry_id the first person in line is promoted. p_seat_label hands over a freed seat when
+-- it is still available. returns the reservation id, or null when nobody could be promoted.
+create or replace function public.promote_waitlist_entry(
+  p_screening_id uuid,
+  p_entry_id uuid default null,
+  p_seat_label text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_capacity integer;
+  v_reserved integer;
+  v_entry public.waitlist%rowtype;
+  v_seat text;
+  v_reservation_id uuid;
+begin
+  -- same lock as the capacity trigger so concurrent bookings cannot take the seat meanwhile.
+  select capacity
+  into v_capacity
+  from public.screenings
+  where id = p_screening_id
+    and starts_at >= now()
+  for no key update;
+
+  if not found then
+    return null;
+  end if;
+
+  select count(*)
+  into v_reserved
+  from public.reservations
+  where screening_id = p_screening_id
+    and public.reservation_status_holds_seat(status)
+    and (status <> 'pending' or hold_expires_at > now());
+
+  if v_reserved >= v_capacity then
+    return null;
+  end if;
+
+  -- skip people who got a seat some other way while they were waiting.
+  select *
+  into v_entry
+  from public.waitlist w
+  where w.screening_id = p_screening_id
+    and w.status = 'waiting'
+    and (p_entry_id is null or w.id = p_entry_id)
+    and not exists (
+      select 1
+      from public.reservations r
+      where r.screening_id = w.screening_id
+        and r.user_id = w.user_id
+        and public.reservation_status_holds_seat(r.status)
+        and (r.status <> 'pending' or r.hold_expires_at > now())
+    )
+  order by w.created_at
+  limit 1
+  for update skip locked;
+
+  if not found then
+    return null;
+  end if;
+
+  if p_seat_label is not null and not exists (
+    select 1
+    from public.reservations
+    where screening_id = p_screening_id
+      and seat_label = p_seat_label
+      and public.reservation_status_holds_seat(status)
+  ) then
+    v_seat := p_seat_label;
+  end if;
+
+  -- reuse a previous no-show reservation of the same user for this screening; cancelled ones are kept
+  -- as history next to the new reservation.
+  insert into public.reservations (screening_id, user_id, status, seat_label)
+  values (p_screening_id, v_entry.user_id, 'confirmed', v_seat)
+  on conflict (screening_id, user_id) where status <> 'cancelled'
+  do update set status = 'confirmed',
+                seat_label = excluded.seat_label,
+                reserved_at = now()
+  returning id into v_reservation_id;
+
+  update public.waitlist
+  set status = 'promoted',
+      reservation_id = v_reservation_id,
+      promoted_at = now()
+  where id = v_entry.id;
+
+  return v_reservation_id;
+end;
+$$;
+
+comment on function public.promote_waitlist_entry(uuid, uuid, text) is 'Convierte la primera entrada (o la indicada) de la lista de espera en una reserva confirmada.';
+
+-- manual promotion from the admin screenings page.
+create or replace function public.admin_promote_waitlist_entry(p_entry_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_screening_id uuid;
+  v_reservation_id uuid;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Solo los administradores pueden promover la lista de espera.'
+      using errcode = '42501';
+  end if;
+
+  select screening_id
+  into v_screening_id
+  from public.waitlist
+  where id = p_entry_id
+    and status = 'waiting';
+
+  if v_screening_id is null then
+    raise exception 'La entrada ya no está en la lista de espera.'
+      using errcode = 'CU005',
+            hint = 'waitlist_unavailable';
+  end if;
+
+  v_reservation_id := public.promote_waitlist_entry(v_screening_id, p_entry_id);
+
+  if v_reservation_id is null then
+    raise exception 'La función no tiene cupos libres.'
+      using errcode = 'CU001',
+            hint = 'screening_full';
+  end if;
+
+  return v_reservation_id;
+end;
+$$;
+
+-- internal helper: only callable through the triggers and the admin wrapper above.
+revoke execute on function public.promote_waitlist_entry(uuid, uuid, text) from public, anon, authenticated;
+
+-- hand freed seats to the waitlist whenever a reservation stops holding one.
+create or replace function public.promote_waitlist_on_release()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    if public.reservation_status_holds_seat(old.status) then
+      perform public.promote_waitlist_entry(old.screening_id, null, old.seat_label);
+    end if;
+    return old;
+  end if;
+
+  if public.reservation_status_holds_seat(old.status) and not public.reservation_status_holds_seat(new.status) then
+    perform public.promote_waitlist_entry(new.screening_id, null, old.seat_label);
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger reservations_promote_waitlist
+  after update of status or delete on public.reservations
+  for each row
+  execute procedure public.promote_waitlist_on_release();
+
+-- capacity growth (e.g. a bigger auditorium) also frees seats.
+create or replace function public.promote_waitlist_on_capacity_increase()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_free integer;
+begin
+  if new.capacity > old.capacity then
+    for v_free in 1..(new.capacity - old.capacity) loop
+      exit when public.promote_waitlist_entry(new.id) is null;
+    end loop;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- no column list: capacity is usually derived by a before trigger when the auditorium changes, so it
+-- is not in the update's set list. the function compares old and new itself.
+create trigger screenings_promote_waitlist
+  after update on public.screenings
+  for each row
+  execute procedure public.promote_waitlist_on_capacity_increase();
+
+-- the user's own waiting entries with their place in line, computed over the whole queue.
+create or replace view public.my_waitlist_entries as
+select
+  q.id,
+  q.screening_id,
+  q.created_at,
+  q.position
+from (
+  select
+    w.id,
+    w.screening_id,
+    w.user_id,
+    w.created_at,
+    row_number() over (partition by w.screening_id order by w.created_at) as position
+  from public.waitlist w
+  where w.status = 'waiting'
+) q
+where q.user_id = auth.uid();
+
+comment on view public.my_waitlist_entries is 'Entradas en espera del usuario actual con su posición en la cola.';
+
+grant select on public.my_waitlist_entries to authenticated;
+
+create policy "admins can read waitlist"
+  on public.waitlist
+  for select
+  to authenticated
+  using ((select public.current_user_is_admin()));
+
+create policy "admins can update waitlist"
+  on public.waitlist
+  for update
+  to authenticated
+  using ((select public.current_user_is_admin()))
+  with check ((select public.current_user_is_admin()));
+
+create policy "admins can delete waitlist"
+  on public.waitlist
+  for delete
+  to authenticated
+  using ((select public.current_user_is_admin()));
+
+create policy "users can read own waitlist entries"
+  on public.waitlist
+  for select
+  to authenticated
+  using (user_id = (select auth.uid()));
+
+create policy "users can join the waitlist"
+  on public.waitlist
+  for insert
+  to authenticated
+  with check (user_id = (select auth.uid()) and status = 'waiting');
+
+create policy "users can leave the waitlist"
+  on public.waitlist
+  for delete
+  to authenticated
+  using (user_id = (select auth.uid()) and status = 'waiting');
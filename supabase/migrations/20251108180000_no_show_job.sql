@@ -0,0 +1,119 @@
+-- migration: no_show_job
+-- purpose: flip confirmed reservations that were never scanned to no_show once their screening has
+-- ended, on a schedule and on demand from the admin screenings page. every transition is logged.
+-- affected: public.reservation_status_log (new), public.mark_no_shows / public.admin_mark_screening_no_shows (new),
+-- cron job mark-no-shows.
+
+-- history of automated and manual status transitions applied outside the regular edit forms.
+create table if not exists public.reservation_status_log (
+  id uuid default gen_random_uuid() primary key,
+  reservation_id uuid not null references public.reservations (id) on delete cascade,
+  from_status public.reservation_status not null,
+  to_status public.reservation_status not null,
+  reason text not null,
+  changed_by uuid references auth.users (id) on delete set null,
+  created_at timestamp with time zone not null default now()
+);
+
+comment on table public.reservation_status_log is 'Bitácora de cambios de estado de reservas aplicados por procesos automáticos o manuales.';
+comment on column public.reservation_status_log.reason is 'Origen del cambio, por ejemplo no_show_job o no_show_manual.';
+comment on column public.reservation_status_log.changed_by is 'Administrador que disparó el cambio; null cuando lo hizo el job programado.';
+
+alter table public.reservation_status_log enable row level security;
+
+create index if not exists reservation_status_log_reservation_id_idx on public.reservation_status_log (reservation_id);
+
+create policy "admins can read reservation status log"
+  on public.reservation_status_log
+  for select
+  to authenticated
+  using ((select public.current_user_is_admin()));
+
+-- when a screening is over: its ends_at, or starts_at plus the movie duration when ends_at is empty.
+create or replace function public.screening_ended_at(p_screening_id uuid)
+returns timestamp with time zone
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(s.ends_at, s.starts_at + make_interval(mins => coalesce(m.duration_minutes, 0)))
+  from public.screenings s
+  join public.movies m on m.id = s.movie_id
+  where s.id = p_screening_id;
+$$;
+
+-- marks confirmed reservations without an attendance log as no_show for every screening that has
+-- ended (or only p_screening_id). returns how many reservations changed.
+create or replace function public.mark_no_shows(
+  p_screening_id uuid default null,
+  p_reason text default 'no_show_job'
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_marked integer;
+begin
+  with marked as (
+    update public.reservations r
+    set status = 'no_show'
+    where r.status = 'confirmed'
+      and (p_screening_id is null or r.screening_id = p_screening_id)
+      and public.screening_ended_at(r.screening_id) < now()
+      and not exists (
+        select 1
+        from public.attendance_logs a
+        where a.reservation_id = r.id
+      )
+    returning r.id
+  )
+  insert into public.reservation_status_log (reservation_id, from_status, to_status, reason, changed_by)
+  select id, 'confirmed', 'no_show', p_reason, auth.uid()
+  from marked;
+
+  get diagnostics v_marked = row_count;
+  return v_marked;
+end;
+$$;
+
+comment on function public.mark_no_shows(uuid, text) is 'Marca como no_show las reservas confirmadas sin asistencia de funciones finalizadas.';
+
+revoke execute on function public.mark_no_shows(uuid, text) from public, anon, authenticated;
+
+-- manual trigger from the screening row menu.
+create or replace function public.admin_mark_screening_no_shows(p_screening_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ended_at timestamp with time zone;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Solo los administradores pueden marcar inasistencias.'
+      using errcode = '42501';
+  end if;
+
+  v_ended_at := public.screening_ended_at(p_screening_id);
+
+  if v_ended_at is null or v_ended_at >= now() then
+    raise exception 'La función aún no termina.'
+      using errcode = 'CU006',
+            hint = 'screening_not_ended';
+  end if;
+
+  return public.mark_no_shows(p_screening_id, 'no_show_manual');
+end;
+$$;
+
+-- every 15 minutes is plenty: nothing depends on no_show being set right at the end of a screening.
+-- run `select public.mark_no_shows();` to trigger it by hand.
+select cron.schedule(
+  'mark-no-shows',
+  '*/15 * * * *',
+  $$select public.mark_no_shows()$$
+);
@@ -0,0 +1,250 @@
+-- migration: reservation_status_transitions
+-- purpose: enforce which reservation status changes are allowed and who may make them. admins follow
+-- the transition table below, students may only confirm or cancel their own reservations, and the
+-- security definer jobs (hold sweep, waitlist promotion, no-show marking) are trusted.
+-- affected: public.reservation_status_transitions (new), public.reservations (transition trigger,
+-- student delete policy narrowed to seat holds), public.validate_reservation_qr (rejects pending holds).
+
+-- allowed transitions per actor. a null from_status lists the statuses a new reservation may start in.
+create table if not exists public.reservation_status_transitions (
+  from_status public.reservation_status,
+  to_status public.reservation_status not null,
+  actor text not null check (actor in ('admin', 'student')),
+  constraint reservation_status_transitions_unique unique nulls not distinct (from_status, to_status, actor)
+);
+
+comment on table public.reservation_status_transitions is 'Transiciones de estado de reservas permitidas por tipo de actor.';
+comment on column public.reservation_status_transitions.from_status is 'Estado de origen; null indica el estado inicial al crear la reserva.';
+
+insert into public.reservation_status_transitions (from_status, to_status, actor)
+values
+  -- admins: create, confirm, cancel, reinstate, and settle attendance. pending is left to the
+  -- checkout seat holds, which expire on their own.
+  (null, 'confirmed', 'admin'),
+  ('pending', 'confirmed', 'admin'),
+  ('pending', 'cancelled', 'admin'),
+  ('confirmed', 'cancelled', 'admin'),
+  ('confirmed', 'checked_in', 'admin'),
+  ('confirmed', 'no_show', 'admin'),
+  ('cancelled', 'confirmed', 'admin'),
+  ('no_show', 'checked_in', 'admin'),
+  -- students: book (directly or through a seat hold), confirm their hold, and cancel.
+  (null, 'pending', 'student'),
+  (null, 'confirmed', 'student'),
+  ('pending', 'confirmed', 'student'),
+  ('pending', 'cancelled', 'student'),
+  ('confirmed', 'cancelled', 'student')
+on conflict do nothing;
+
+alter table public.reservation_status_transitions enable row level security;
+
+-- the admin edit dialog reads the table to offer only valid statuses.
+create policy "authenticated users can read reservation status transitions"
+  on public.reservation_status_transitions
+  for select
+  to authenticated
+  using (true);
+
+create or replace function public.reservation_status_label(p_status public.reservation_status)
+returns text
+language sql
+immutable
+as $$
+  select case p_status
+    when 'pending' then 'Pendiente'
+    when 'confirmed' then 'Confirmada'
+    when 'cancelled' then 'Cancelada'
+    when 'checked_in' then 'Asistencia validada'
+    when 'no_show' then 'No asistió'
+  end;
+$$;
+
+-- security invoker on purpose: current_user is "authenticated" for requests coming from the api, and
+-- the function owner when the change comes from one of the security definer jobs, which are trusted.
+create or replace function public.enforce_reservation_status_transition()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_actor text;
+  v_from public.reservation_status;
+begin
+  if current_user not in ('authenticated', 'anon') then
+    return new;
+  end if;
+
+  v_actor := case when public.current_user_is_admin() then 'admin' else 'student' end;
+
+  -- the token and timestamps of a new reservation come from the server, whatever the student sent.
+  if tg_op = 'INSERT' and v_actor = 'student' then
+    new.qr_token := encode(extensions.gen_random_bytes(8), 'hex');
+    new.reserved_at := now();
+    new.created_at := now();
+    new.updated_at := now();
+  end if;
+
+  if tg_op = 'UPDATE' then
+    v_from := old.status;
+
+    -- students can only touch the status, plus the seat while their hold is still pending. every other
+    -- column is compared as a whole, so columns added later are locked too. hold_expires_at is left
+    -- out because reservations_apply_hold (which fires first) rewrites it from the old row.
+    if v_actor = 'student' and (
+      to_jsonb(new) - 'status' - 'seat_label' - 'updated_at' - 'hold_expires_at'
+        is distinct from to_jsonb(old) - 'status' - 'seat_label' - 'updated_at' - 'hold_expires_at'
+      or (new.seat_label is distinct from old.seat_label and not (old.status = 'pending' and new.status = 'pending'))
+    ) then
+      raise exception 'Solo puedes cancelar tus reservas.'
+        using errcode = 'CU007',
+              hint = 'invalid_status_transition';
+    end if;
+
+    if new.status = old.status then
+      return new;
+    end if;
+  end if;
+
+  if not exists (
+    select 1
+    from public.reservation_status_transitions t
+    where t.from_status is not distinct from v_from
+      and t.to_status = new.status
+      and t.actor = v_actor
+  ) then
+    if v_actor = 'student' and new.status = 'cancelled' then
+      raise exception 'Una reserva en estado "%" ya no se puede cancelar.', public.reservation_status_label(v_from)
+        using errcode = 'CU007',
+              hint = 'invalid_status_transition';
+    elsif v_actor = 'student' then
+      raise exception 'Solo puedes cancelar tus reservas.'
+        using errcode = 'CU007',
+              hint = 'invalid_status_transition';
+    elsif v_from is null then
+      raise exception 'Una reserva nueva no puede crearse como "%".', public.reservation_status_label(new.status)
+        using errcode = 'CU007',
+              hint = 'invalid_status_transition';
+    else
+      raise exception 'No se puede cambiar una reserva de "%" a "%".',
+        public.reservation_status_label(v_from),
+        public.reservation_status_label(new.status)
+        using errcode = 'CU007',
+              hint = 'invalid_status_transition';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger reservations_enforce_status_transition
+  before insert or update on public.reservations
+  for each row
+  execute procedure public.enforce_reservation_status_transition();
+
+-- students used to be able to delete any of their reservations, which erased tickets and attendance.
+-- they now cancel instead; deleting is limited to abandoning a seat hold.
+drop policy if exists "users can delete own reservations" on public.reservations;
+
+create policy "users can release own seat holds"
+  on public.reservations
+  for delete
+  to authenticated
+  using (user_id = (select auth.uid()) and status = 'pending');
+
+-- qr validation only checks in confirmed reservations (or late arrivals already marked no_show).
+create or replace function public.validate_reservation_qr(p_token text, p_scanner uuid default null)
+returns public.qr_validation_result
+language plpgsql
+security definer
+set search_path = public, auth
+as $$
+declare
+  v_reservation public.reservations%rowtype;
+  v_result public.qr_validation_result;
+begin
+  if not public.current_user_is_admin() then
+    v_result := (null, null, 'cancelled', 'Solo personal autorizado puede validar códigos.', false, false);
+    return v_result;
+  end if;
+
+  if coalesce(trim(p_token), '') = '' then
+    v_result := (null, null, 'cancelled', 'Código QR inválido.', false, false);
+    return v_result;
+  end if;
+
+  select *
+  into v_reservation
+  from public.reservations
+  where qr_token = p_token;
+
+  if not found then
+    v_result := (null, null, 'cancelled', 'No se encontró una reserva para este código.', false, false);
+    return v_result;
+  end if;
+
+  if v_reservation.status = 'cancelled' then
+    v_result := (
+      v_reservation.id,
+      v_reservation.screening_id,
+      v_reservation.status,
+      'La reserva está cancelada y no puede registrarse asistencia.',
+      false,
+      false
+    );
+    return v_result;
+  end if;
+
+  if exists (
+    select 1
+    from public.attendance_logs
+    where reservation_id = v_reservation.id
+  ) then
+    v_result := (
+      v_reservation.id,
+      v_reservation.screening_id,
+      v_reservation.status,
+      'Esta reserva ya fue validada previamente.',
+      true,
+      false
+    );
+    return v_result;
+  end if;
+
+  -- the scan runs as a trusted function, so it checks the transition table rules itself.
+  if v_reservation.status not in ('confirmed', 'no_show') then
+    v_result := (
+      v_reservation.id,
+      v_reservation.screening_id,
+      v_reservation.status,
+      format('La reserva está en estado "%s" y no puede registrarse asistencia.', public.reservation_status_label(v_reservation.status)),
+      false,
+      false
+    );
+    return v_result;
+  end if;
+
+  insert into public.attendance_logs (reservation_id, scanned_by)
+  values (v_reservation.id, p_scanner);
+
+  update public.reservations
+  set status = 'checked_in',
+      updated_at = now()
+  where id = v_reservation.id;
+
+  select *
+  into v_reservation
+  from public.reservations
+  where id = v_reservation.id;
+
+  v_result := (
+    v_reservation.id,
+    v_reservation.screening_id,
+    v_reservation.status,
+    'Asistencia registrada correctamente.',
+    false,
+    true
+  );
+  return v_result;
+end;
+$$;
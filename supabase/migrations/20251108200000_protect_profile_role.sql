@@ -0,0 +1,92 @@
+-- migration: protect_profile_role
+-- purpose: stop self-service privilege escalation. the "users can update own profile" policy let any
+-- student write role = 'admin' on their own row. role is now only writable through set_user_role,
+-- an admin-only security definer function; direct inserts and updates from the api cannot change it.
+-- affected: public.profiles (role guard trigger), public.set_user_role (new).
+
+-- security invoker on purpose: current_user is "authenticated" for api requests and the function
+-- owner inside set_user_role, which is the only trusted path for role changes.
+create or replace function public.protect_profile_role()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user not in ('authenticated', 'anon') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' and new.role is distinct from 'student' then
+    raise exception 'Los perfiles nuevos se crean con el rol de estudiante.'
+      using errcode = '42501';
+  end if;
+
+  if tg_op = 'UPDATE' and new.role is distinct from old.role then
+    raise exception 'El rol solo puede cambiarse desde la administración de usuarios.'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger profiles_protect_role
+  before insert or update on public.profiles
+  for each row
+  execute procedure public.protect_profile_role();
+
+-- assigns a role to a user. only admins may call it, and the last admin cannot be demoted so the
+-- panel never ends up without anyone able to manage it.
+create or replace function public.set_user_role(p_user_id uuid, p_role text)
+returns public.profiles
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_profile public.profiles%rowtype;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Solo los administradores pueden asignar roles.'
+      using errcode = '42501';
+  end if;
+
+  if p_role not in ('admin', 'student') then
+    raise exception 'Rol desconocido: %.', p_role
+      using errcode = '22023';
+  end if;
+
+  select *
+  into v_profile
+  from public.profiles
+  where user_id = p_user_id
+  for update;
+
+  if not found then
+    raise exception 'El usuario no tiene un perfil registrado.'
+      using errcode = 'P0002';
+  end if;
+
+  if v_profile.role = 'admin' and p_role <> 'admin' and not exists (
+    select 1
+    from public.profiles
+    where role = 'admin'
+      and user_id <> p_user_id
+  ) then
+    raise exception 'No se puede quitar el rol al último administrador.'
+      using errcode = '42501';
+  end if;
+
+  update public.profiles
+  set role = p_role
+  where user_id = p_user_id
+  returning * into v_profile;
+
+  return v_profile;
+end;
+$$;
+
+comment on function public.set_user_role(uuid, text) is 'Asigna un rol a un usuario; solo disponible para administradores.';
+
+revoke execute on function public.set_user_role(uuid, text) from public, anon;
+grant execute on function public.set_user_role(uuid, text) to authenticated;
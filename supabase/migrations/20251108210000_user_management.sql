@@ -0,0 +1,121 @@
+-- migration: user_management
+-- purpose: back the /admin/users page. admins get an overview of every account with reservation
+-- counts and last activity, and every role change made through set_user_role is recorded.
+-- affected: public.role_changes (new), public.set_user_role (now audited), public.admin_user_overview (new view).
+
+-- audit trail of role assignments.
+create table if not exists public.role_changes (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  old_role text,
+  new_role text not null,
+  changed_by uuid references auth.users (id) on delete set null,
+  created_at timestamp with time zone not null default now()
+);
+
+comment on table public.role_changes is 'Historial de cambios de rol realizados por administradores.';
+
+alter table public.role_changes enable row level security;
+
+create index if not exists role_changes_user_id_idx on public.role_changes (user_id);
+create index if not exists role_changes_created_at_idx on public.role_changes (created_at desc);
+
+-- rows are only written by set_user_role, so admins just need to read them.
+create policy "admins can read role changes"
+  on public.role_changes
+  for select
+  to authenticated
+  using ((select public.current_user_is_admin()));
+
+-- same rules as before, now recording who changed what. no-op assignments are not logged.
+create or replace function public.set_user_role(p_user_id uuid, p_role text)
+returns public.profiles
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_profile public.profiles%rowtype;
+  v_old_role text;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Solo los administradores pueden asignar roles.'
+      using errcode = '42501';
+  end if;
+
+  if p_role not in ('admin', 'student') then
+    raise exception 'Rol desconocido: %.', p_role
+      using errcode = '22023';
+  end if;
+
+  select *
+  into v_profile
+  from public.profiles
+  where user_id = p_user_id
+  for update;
+
+  if not found then
+    raise exception 'El usuario no tiene un perfil registrado.'
+      using errcode = 'P0002';
+  end if;
+
+  v_old_role := v_profile.role;
+
+  if v_old_role = p_role then
+    return v_profile;
+  end if;
+
+  if v_old_role = 'admin' and not exists (
+    select 1
+    from public.profiles
+    where role = 'admin'
+      and user_id <> p_user_id
+  ) then
+    raise exception 'No se puede quitar el rol al último administrador.'
+      using errcode = '42501';
+  end if;
+
+  update public.profiles
+  set role = p_role
+  where user_id = p_user_id
+  returning * into v_profile;
+
+  insert into public.role_changes (user_id, old_role, new_role, changed_by)
+  values (p_user_id, v_old_role, p_role, auth.uid());
+
+  return v_profile;
+end;
+$$;
+
+-- one row per profile with the numbers shown on the users page. it reads auth.users for the email
+-- and last sign-in, so it runs with the owner's privileges and filters to admins itself.
+create or replace view public.admin_user_overview as
+select
+  p.user_id,
+  p.first_name,
+  p.last_name,
+  p.avatar_url,
+  p.role,
+  u.email,
+  p.created_at,
+  u.last_sign_in_at,
+  coalesce(r.reservation_count, 0) as reservation_count,
+  coalesce(r.attended_count, 0) as attended_count,
+  r.last_reserved_at,
+  greatest(u.last_sign_in_at, r.last_reserved_at, p.updated_at) as last_activity_at
+from public.profiles p
+join auth.users u on u.id = p.user_id
+left join (
+  select
+    user_id,
+    count(*) filter (where status <> 'pending') as reservation_count,
+    count(*) filter (where status = 'checked_in') as attended_count,
+    max(reserved_at) as last_reserved_at
+  from public.reservations
+  group by user_id
+) r on r.user_id = p.user_id
+where public.current_user_is_admin();
+
+comment on view public.admin_user_overview is 'Resumen de cuentas para administradores: rol, reservas y última actividad.';
+
+grant select on public.admin_user_overview to authenticated;
@@ -0,0 +1,225 @@
+-- migration: staff_role
+-- purpose: add a "staff" role for door volunteers who only scan tickets. authorization moves to a
+-- has_role helper so policies can name every role they accept; staff can run validate_reservation_qr
+-- and read what the attendance page needs, but cannot edit the catalog, screenings or reservations.
+-- affected: public.has_role (new), public.current_user_is_admin (now delegates to has_role),
+-- public.profiles (role check), staff read policies, public.validate_reservation_qr, public.set_user_role.
+
+-- roles: admin manages everything, staff validates tickets at the door, student books.
+alter table public.profiles
+  add constraint profiles_role_check check (role in ('admin', 'staff', 'student'));
+
+-- true when the current user has any of the given roles. security definer so policies on profiles
+-- can call it without recursing into their own rls checks.
+create or replace function public.has_role(variadic p_roles text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.profiles
+    where user_id = (select auth.uid())
+      and role = any (p_roles)
+  );
+$$;
+
+comment on function public.has_role(text[]) is 'Indica si el usuario actual tiene alguno de los roles indicados.';
+
+create or replace function public.current_user_is_admin()
+returns boolean
+language sql
+stable
+as $$
+  select public.has_role('admin');
+$$;
+
+-- the attendance page lists scans with their reservation, screening, movie and attendee name.
+create policy "staff can read profiles"
+  on public.profiles
+  for select
+  to authenticated
+  using ((select public.has_role('staff')));
+
+create policy "staff can read movies"
+  on public.movies
+  for select
+  to authenticated
+  using ((select public.has_role('staff')));
+
+create policy "staff can read screenings"
+  on public.screenings
+  for select
+  to authenticated
+  using ((select public.has_role('staff')));
+
+create policy "staff can read reservations"
+  on public.reservations
+  for select
+  to authenticated
+  using ((select public.has_role('staff')));
+
+create policy "staff can read attendance logs"
+  on public.attendance_logs
+  for select
+  to authenticated
+  using ((select public.has_role('staff')));
+
+-- staff may scan. everything else in the function is unchanged.
+create or replace function public.validate_reservation_qr(p_token text, p_scanner uuid default null)
+returns public.qr_validation_result
+language plpgsql
+security definer
+set search_path = public, auth
+as $$
+declare
+  v_reservation public.reservations%rowtype;
+  v_result public.qr_validation_result;
+begin
+  if not public.has_role('admin', 'staff') then
+    v_result := (null, null, 'cancelled', 'Solo personal autorizado puede validar códigos.', false, false);
+    return v_result;
+  end if;
+
+  if coalesce(trim(p_token), '') = '' then
+    v_result := (null, null, 'cancelled', 'Código QR inválido.', false, false);
+    return v_result;
+  end if;
+
+  select *
+  into v_reservation
+  from public.reservations
+  where qr_token = p_token;
+
+  if not found then
+    v_result := (null, null, 'cancelled', 'No se encontró una reserva para este código.', false, false);
+    return v_result;
+  end if;
+
+  if v_reservation.status = 'cancelled' then
+    v_result := (
+      v_reservation.id,
+      v_reservation.screening_id,
+      v_reservation.status,
+      'La reserva está cancelada y no puede registrarse asistencia.',
+      false,
+      false
+    );
+    return v_result;
+  end if;
+
+  if exists (
+    select 1
+    from public.attendance_logs
+    where reservation_id = v_reservation.id
+  ) then
+    v_result := (
+      v_reservation.id,
+      v_reservation.screening_id,
+      v_reservation.status,
+      'Esta reserva ya fue validada previamente.',
+      true,
+      false
+    );
+    return v_result;
+  end if;
+
+  -- the scan runs as a trusted function, so it checks the transition table rules itself.
+  if v_reservation.status not in ('confirmed', 'no_show') then
+    v_result := (
+      v_reservation.id,
+      v_reservation.screening_id,
+      v_reservation.status,
+      format('La reserva está en estado "%s" y no puede registrarse asistencia.', public.reservation_status_label(v_reservation.status)),
+      false,
+      false
+    );
+    return v_result;
+  end if;
+
+  insert into public.attendance_logs (reservation_id, scanned_by)
+  values (v_reservation.id, p_scanner);
+
+  update public.reservations
+  set status = 'checked_in',
+      updated_at = now()
+  where id = v_reservation.id;
+
+  select *
+  into v_reservation
+  from public.reservations
+  where id = v_reservation.id;
+
+  v_result := (
+    v_reservation.id,
+    v_reservation.screening_id,
+    v_reservation.status,
+    'Asistencia registrada correctamente.',
+    false,
+    true
+  );
+  return v_result;
+end;
+$$;
+
+-- set_user_role now accepts the staff role.
+create or replace function public.set_user_role(p_user_id uuid, p_role text)
+returns public.profiles
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_profile public.profiles%rowtype;
+  v_old_role text;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Solo los administradores pueden asignar roles.'
+      using errcode = '42501';
+  end if;
+
+  if p_role not in ('admin', 'staff', 'student') then
+    raise exception 'Rol desconocido: %.', p_role
+      using errcode = '22023';
+  end if;
+
+  select *
+  into v_profile
+  from public.profiles
+  where user_id = p_user_id
+  for update;
+
+  if not found then
+    raise exception 'El usuario no tiene un perfil registrado.'
+      using errcode = 'P0002';
+  end if;
+
+  v_old_role := v_profile.role;
+
+  if v_old_role = p_role then
+    return v_profile;
+  end if;
+
+  if v_old_role = 'admin' and not exists (
+    select 1
+    from public.profiles
+    where role = 'admin'
+      and user_id <> p_user_id
+  ) then
+    raise exception 'No se puede quitar el rol al último administrador.'
+      using errcode = '42501';
+  end if;
+
+  update public.profiles
+  set role = p_role
+  where user_id = p_user_id
+  returning * into v_profile;
+
+  insert into public.role_changes (user_id, old_role, new_role, changed_by)
+  values (p_user_id, v_old_role, p_role, auth.uid());
+
+  return v_profile;
+end;
+$$;
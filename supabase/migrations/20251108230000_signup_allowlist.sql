@@ -0,0 +1,185 @@
+-- migration: signup_allowlist
+-- purpose: only institutional emails (or explicitly invited guests) can create an account. a
+-- before_user_created auth hook checks the email against an admin-managed domain allowlist and the
+-- invitation list; invited users get their profile created with the invited role on first sign-in.
+-- affected: public.allowed_email_domains (new), public.user_invitations (new),
+-- public.hook_before_user_created (new, wired in supabase/config.toml), auth.users (after insert trigger),
+-- public.role_changes (invited roles are logged).
+
+-- domains allowed to self-register. subdomains match too, so uleam.edu.ec also admits live.uleam.edu.ec.
+-- an empty table disables the restriction.
+create table if not exists public.allowed_email_domains (
+  domain text primary key check (domain = lower(domain) and domain !~ '[@\s]'),
+  note text,
+  created_at timestamp with time zone not null default now()
+);
+
+comment on table public.allowed_email_domains is 'Dominios de correo que pueden registrarse sin invitación.';
+
+insert into public.allowed_email_domains (domain, note)
+values ('uleam.edu.ec', 'Correo institucional')
+on conflict (domain) do nothing;
+
+alter table public.allowed_email_domains enable row level security;
+
+create policy "admins can read allowed email domains"
+  on public.allowed_email_domains
+  for select
+  to authenticated
+  using ((select public.current_user_is_admin()));
+
+create policy "admins can insert allowed email domains"
+  on public.allowed_email_domains
+  for insert
+  to authenticated
+  with check ((select public.current_user_is_admin()));
+
+create policy "admins can delete allowed email domains"
+  on public.allowed_email_domains
+  for delete
+  to authenticated
+  using ((select public.current_user_is_admin()));
+
+-- explicit invitations for guests outside the allowlist, or to hand out a role up front.
+create table if not exists public.user_invitations (
+  id uuid default gen_random_uuid() primary key,
+  email text not null check (email = lower(email) and email like '%_@_%'),
+  role text not null default 'student' check (role in ('admin', 'staff', 'student')),
+  note text,
+  invited_by uuid references auth.users (id) on delete set null,
+  accepted_user_id uuid references auth.users (id) on delete set null,
+  accepted_at timestamp with time zone,
+  created_at timestamp with time zone not null default now(),
+  constraint user_invitations_email_unique unique (email)
+);
+
+comment on table public.user_invitations is 'Invitaciones de acceso con el rol que recibirá la cuenta al registrarse.';
+
+alter table public.user_invitations enable row level security;
+
+create policy "admins can read user invitations"
+  on public.user_invitations
+  for select
+  to authenticated
+  using ((select public.current_user_is_admin()));
+
+create policy "admins can insert user invitations"
+  on public.user_invitations
+  for insert
+  to authenticated
+  with check ((select public.current_user_is_admin()) and invited_by = (select auth.uid()));
+
+create policy "admins can delete user invitations"
+  on public.user_invitations
+  for delete
+  to authenticated
+  using ((select public.current_user_is_admin()) and accepted_at is null);
+
+-- an invitation only matters before the account exists; registered users change role from the users list.
+create or replace function public.validate_user_invitation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.email := lower(trim(new.email));
+
+  if exists (select 1 from auth.users where lower(email) = new.email) then
+    raise exception 'Ya existe una cuenta con ese correo; cambia su rol desde la lista de usuarios.'
+      using errcode = '23505';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger user_invitations_validate
+  before insert on public.user_invitations
+  for each row
+  execute procedure public.validate_user_invitation();
+
+-- true when the email may create an account: invited, on an allowed domain, or no allowlist at all.
+create or replace function public.email_can_register(p_email text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    exists (select 1 from public.user_invitations where email = lower(p_email))
+    or not exists (select 1 from public.allowed_email_domains)
+    or exists (
+      select 1
+      from public.allowed_email_domains d
+      where split_part(lower(p_email), '@', 2) = d.domain
+        or split_part(lower(p_email), '@', 2) like '%.' || d.domain
+    );
+$$;
+
+-- auth hook: runs inside gotrue before the user row is inserted. returning an error object rejects
+-- the sign-up and the message reaches signInWithOtp as a regular error.
+create or replace function public.hook_before_user_created(event jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_email text := event -> 'user' ->> 'email';
+begin
+  if coalesce(v_email, '') = '' or not public.email_can_register(v_email) then
+    return jsonb_build_object(
+      'error',
+      jsonb_build_object(
+        'http_code', 403,
+        'message', 'Usa tu correo institucional o solicita una invitación a la administración del cine.'
+      )
+    );
+  end if;
+
+  return '{}'::jsonb;
+end;
+$$;
+
+revoke execute on function public.hook_before_user_created(jsonb) from public, anon, authenticated;
+grant execute on function public.hook_before_user_created(jsonb) to supabase_auth_admin;
+revoke execute on function public.email_can_register(text) from public, anon, authenticated;
+
+-- gives invited users their profile and role as soon as the account exists.
+create or replace function public.apply_user_invitation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invitation public.user_invitations%rowtype;
+begin
+  update public.user_invitations
+  set accepted_user_id = new.id,
+      accepted_at = now()
+  where email = lower(new.email)
+    and accepted_at is null
+  returning * into v_invitation;
+
+  if found then
+    insert into public.profiles (user_id, role)
+    values (new.id, v_invitation.role)
+    on conflict (user_id) do update set role = excluded.role;
+
+    if v_invitation.role <> 'student' then
+      insert into public.role_changes (user_id, old_role, new_role, changed_by)
+      values (new.id, null, v_invitation.role, v_invitation.invited_by);
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created_apply_invitation
+  after insert on auth.users
+  for each row
+  execute procedure public.apply_user_invitation();
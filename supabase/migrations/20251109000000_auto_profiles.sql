@@ -0,0 +1,140 @@
+-- migration: auto_profiles
+-- purpose: every account gets a profile row the moment it is created, instead of waiting for the user to
+-- save the profile form. profiles also keep a copy of the email so admins can find people who never
+-- filled in their name, and reservations now reference profiles so the admin embeds resolve.
+-- affected: public.profiles (email column, backfill), public.handle_new_user (replaces apply_user_invitation),
+-- auth.users (insert and email update triggers), public.protect_profile_role, public.reservations (fk),
+-- profiles self-delete policy (dropped).
+
+alter table public.profiles
+  add column if not exists email text;
+
+comment on column public.profiles.email is 'Copia del correo de auth.users para búsquedas; se sincroniza automáticamente.';
+
+create index if not exists profiles_email_idx on public.profiles (lower(email));
+
+-- creates the profile for a new account. invited users get the invited role (logged like any other
+-- role assignment); everyone else starts as a student.
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invitation public.user_invitations%rowtype;
+  v_role text := 'student';
+begin
+  update public.user_invitations
+  set accepted_user_id = new.id,
+      accepted_at = now()
+  where email = lower(new.email)
+    and accepted_at is null
+  returning * into v_invitation;
+
+  if found then
+    v_role := v_invitation.role;
+  end if;
+
+  insert into public.profiles (user_id, email, role)
+  values (new.id, new.email, v_role)
+  on conflict (user_id) do update
+    set email = excluded.email,
+        role = excluded.role;
+
+  if v_role <> 'student' then
+    insert into public.role_changes (user_id, old_role, new_role, changed_by)
+    values (new.id, null, v_role, v_invitation.invited_by);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created_apply_invitation on auth.users;
+drop function if exists public.apply_user_invitation();
+
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row
+  execute procedure public.handle_new_user();
+
+-- keeps profiles.email in step when a user changes their address.
+create or replace function public.sync_profile_email()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.profiles
+  set email = new.email
+  where user_id = new.id;
+
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_email_updated
+  after update of email on auth.users
+  for each row
+  when (old.email is distinct from new.email)
+  execute procedure public.sync_profile_email();
+
+-- the email is owned by auth.users: api requests cannot set it, only the triggers above.
+create or replace function public.protect_profile_role()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user not in ('authenticated', 'anon') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' and new.role is distinct from 'student' then
+    raise exception 'Los perfiles nuevos se crean con el rol de estudiante.'
+      using errcode = '42501';
+  end if;
+
+  if tg_op = 'UPDATE' and new.role is distinct from old.role then
+    raise exception 'El rol solo puede cambiarse desde la administración de usuarios.'
+      using errcode = '42501';
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.email := auth.email();
+  else
+    new.email := old.email;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- backfill: accounts created before this migration that never saved their profile.
+insert into public.profiles (user_id, email)
+select u.id, u.email
+from auth.users u
+where not exists (
+  select 1
+  from public.profiles p
+  where p.user_id = u.id
+);
+
+update public.profiles p
+set email = u.email
+from auth.users u
+where u.id = p.user_id
+  and p.email is distinct from u.email;
+
+-- every reservation owner now has a profile, so postgrest can embed profiles from reservations.
+-- deleting a profile directly must not take reservations and attendance with it, so the key does not
+-- cascade. deleting the account still works: auth.users cascades to both tables in the same statement
+-- and the no action check only runs once the reservations are gone.
+alter table public.reservations
+  add constraint reservations_user_id_profile_fkey
+  foreign key (user_id) references public.profiles (user_id) on delete no action;
+
+-- profiles now live and die with the account, so users no longer delete their own.
+drop policy if exists "users can delete own profile" on public.profiles;
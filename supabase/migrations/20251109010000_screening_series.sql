@@ -0,0 +1,323 @@
+-- migration: screening_series
+-- purpose: schedule a film cycle in one step. a series stores the recurrence rule (daily, or weekly on
+-- chosen weekdays, until a date or for a number of occurrences, optionally skipping holidays) and the
+-- generated screenings point back to it, so "this one" or "this and all following" can be edited or
+-- removed together.
+-- affected: public.holidays (new), public.screening_series (new), public.screenings (series_id column),
+-- public.screening_series_days, public.create_screening_series, public.update_screening_series_from,
+-- public.delete_screening_series_from (new).
+
+-- dates skipped by series that opt into it. seeded with ecuador's fixed-date national holidays for
+-- 2025 and 2026 only: movable holidays (carnaval, viernes santo), dates the government moves to a
+-- monday and later years are not computed and must be added by admins from the holidays dialog.
+create table if not exists public.holidays (
+  holiday_date date primary key,
+  name text not null check (char_length(trim(name)) > 0),
+  created_at timestamp with time zone not null default now()
+);
+
+comment on table public.holidays is 'Feriados que las series de funciones pueden omitir. Se mantiene a mano: solo trae los feriados de fecha fija de 2025 y 2026.';
+
+insert into public.holidays (holiday_date, name)
+select make_date(y, m, d), name
+from generate_series(2025, 2026) as y
+cross join (
+  values
+    (1, 1, 'Año Nuevo'),
+    (5, 1, 'Día del Trabajo'),
+    (5, 24, 'Batalla de Pichincha'),
+    (8, 10, 'Primer Grito de Independencia'),
+    (10, 9, 'Independencia de Guayaquil'),
+    (11, 2, 'Día de los Difuntos'),
+    (11, 3, 'Independencia de Cuenca'),
+    (12, 25, 'Navidad')
+) as fixed (m, d, name)
+on conflict (holiday_date) do nothing;
+
+alter table public.holidays enable row level security;
+
+create policy "admins can read holidays"
+  on public.holidays
+  for select
+  to authenticated
+  using ((select public.current_user_is_admin()));
+
+create policy "admins can insert holidays"
+  on public.holidays
+  for insert
+  to authenticated
+  with check ((select public.current_user_is_admin()));
+
+create policy "admins can delete holidays"
+  on public.holidays
+  for delete
+  to authenticated
+  using ((select public.current_user_is_admin()));
+
+-- the recurrence rule behind a group of screenings. weekdays follow extract(dow): 0 = sunday.
+create table if not exists public.screening_series (
+  id uuid default gen_random_uuid() primary key,
+  movie_id uuid not null references public.movies (id) on delete cascade,
+  auditorium_id uuid not null references public.auditoriums (id),
+  frequency text not null check (frequency in ('daily', 'weekly')),
+  weekdays smallint[] not null default '{}',
+  starts_on date not null,
+  start_time time not null,
+  duration interval,
+  time_zone text not null,
+  until_date date,
+  occurrence_count integer check (occurrence_count between 1 and 200),
+  skip_holidays boolean not null default false,
+  notes text,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamp with time zone not null default now(),
+  constraint screening_series_end_rule check (until_date is not null or occurrence_count is not null),
+  constraint screening_series_until_after_start check (until_date is null or until_date >= starts_on),
+  constraint screening_series_weekdays check (
+    weekdays <@ array[0, 1, 2, 3, 4, 5, 6]::smallint[]
+    and (frequency = 'daily' or cardinality(weekdays) > 0)
+  )
+);
+
+comment on table public.screening_series is 'Regla de repetición de un ciclo de funciones.';
+
+alter table public.screening_series enable row level security;
+
+create policy "admins can read screening series"
+  on public.screening_series
+  for select
+  to authenticated
+  using ((select public.current_user_is_admin()));
+
+create policy "admins can insert screening series"
+  on public.screening_series
+  for insert
+  to authenticated
+  with check ((select public.current_user_is_admin()));
+
+create policy "admins can delete screening series"
+  on public.screening_series
+  for delete
+  to authenticated
+  using ((select public.current_user_is_admin()));
+
+alter table public.screenings
+  add column if not exists series_id uuid references public.screening_series (id) on delete set null;
+
+comment on column public.screenings.series_id is 'Serie que generó la función, si fue programada como repetición.';
+
+create index if not exists screenings_series_id_idx on public.screenings (series_id, starts_at);
+
+-- the days a recurrence rule lands on, in order. without an until date the window is sized so the
+-- occurrence count can always be reached: a weekly rule lands at least once every 7 days, and the
+-- extra year absorbs skipped holidays. the count is capped at 200 like screening_series.occurrence_count.
+create or replace function public.screening_series_days(
+  p_frequency text,
+  p_weekdays smallint[],
+  p_starts_on date,
+  p_until_date date,
+  p_occurrence_count integer,
+  p_skip_holidays boolean
+)
+returns setof date
+language sql
+stable
+set search_path = public
+as $$
+  select day::date
+  from generate_series(
+    p_starts_on::timestamp,
+    coalesce(
+      p_until_date::timestamp,
+      p_starts_on + make_interval(days => 7 * least(coalesce(p_occurrence_count, 200), 200) + 366)
+    ),
+    interval '1 day'
+  ) as day
+  where (p_frequency = 'daily' or extract(dow from day)::smallint = any (p_weekdays))
+    and not (p_skip_holidays and exists (select 1 from public.holidays h where h.holiday_date = day::date))
+  order by day
+  limit least(coalesce(p_occurrence_count, 200), 200);
+$$;
+
+-- creates the series and all of its screenings in one transaction, so a rejected occurrence (for
+-- example an inactive auditorium) leaves nothing behind. security invoker: the admin rls policies
+-- on screenings and screening_series still apply. returns the number of screenings created.
+create or replace function public.create_screening_series(
+  p_movie_id uuid,
+  p_auditorium_id uuid,
+  p_frequency text,
+  p_weekdays smallint[],
+  p_starts_on date,
+  p_start_time time,
+  p_duration interval,
+  p_time_zone text,
+  p_until_date date default null,
+  p_occurrence_count integer default null,
+  p_skip_holidays boolean default false,
+  p_notes text default null
+)
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_series_id uuid;
+  v_created integer;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Solo los administradores pueden programar funciones.'
+      using errcode = '42501';
+  end if;
+
+  insert into public.screening_series (
+    movie_id,
+    auditorium_id,
+    frequency,
+    weekdays,
+    starts_on,
+    start_time,
+    duration,
+    time_zone,
+    until_date,
+    occurrence_count,
+    skip_holidays,
+    notes,
+    created_by
+  )
+  values (
+    p_movie_id,
+    p_auditorium_id,
+    p_frequency,
+    coalesce(p_weekdays, '{}'),
+    p_starts_on,
+    p_start_time,
+    p_duration,
+    p_time_zone,
+    p_until_date,
+    p_occurrence_count,
+    p_skip_holidays,
+    p_notes,
+    auth.uid()
+  )
+  returning id into v_series_id;
+
+  with occurrences as (
+    select day
+    from public.screening_series_days(
+      p_frequency,
+      p_weekdays,
+      p_starts_on,
+      p_until_date,
+      p_occurrence_count,
+      p_skip_holidays
+    ) as day
+  ),
+  inserted as (
+    insert into public.screenings (movie_id, auditorium_id, starts_at, ends_at, notes, series_id)
+    select
+      p_movie_id,
+      p_auditorium_id,
+      (day + p_start_time) at time zone p_time_zone,
+      ((day + p_start_time) at time zone p_time_zone) + p_duration,
+      p_notes,
+      v_series_id
+    from occurrences
+    returning 1
+  )
+  select count(*) into v_created from inserted;
+
+  if v_created = 0 then
+    raise exception 'La repetición no genera ninguna función; revisa los días y la fecha final.'
+      using errcode = '22023';
+  end if;
+
+  if p_occurrence_count is not null and v_created < p_occurrence_count then
+    raise exception 'La repetición solo genera % de las % funciones pedidas.', v_created, p_occurrence_count
+      using errcode = '22023';
+  end if;
+
+  return v_created;
+end;
+$$;
+
+-- applies an edit to a screening and every later screening of its series. start times move by
+-- p_start_shift; ends_at is recomputed from p_duration (null clears it).
+create or replace function public.update_screening_series_from(
+  p_screening_id uuid,
+  p_movie_id uuid,
+  p_auditorium_id uuid,
+  p_start_shift interval,
+  p_duration interval,
+  p_notes text
+)
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_anchor public.screenings%rowtype;
+  v_updated integer;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Solo los administradores pueden programar funciones.'
+      using errcode = '42501';
+  end if;
+
+  select * into v_anchor from public.screenings where id = p_screening_id;
+
+  if not found or v_anchor.series_id is null then
+    raise exception 'La función no pertenece a una serie.'
+      using errcode = 'P0002';
+  end if;
+
+  update public.screenings
+  set movie_id = p_movie_id,
+      auditorium_id = p_auditorium_id,
+      starts_at = starts_at + coalesce(p_start_shift, interval '0'),
+      ends_at = starts_at + coalesce(p_start_shift, interval '0') + p_duration,
+      notes = p_notes
+  where series_id = v_anchor.series_id
+    and starts_at >= v_anchor.starts_at;
+
+  get diagnostics v_updated = row_count;
+  return v_updated;
+end;
+$$;
+
+-- removes a screening and every later screening of its series.
+create or replace function public.delete_screening_series_from(p_screening_id uuid)
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_anchor public.screenings%rowtype;
+  v_deleted integer;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Solo los administradores pueden programar funciones.'
+      using errcode = '42501';
+  end if;
+
+  select * into v_anchor from public.screenings where id = p_screening_id;
+
+  if not found or v_anchor.series_id is null then
+    raise exception 'La función no pertenece a una serie.'
+      using errcode = 'P0002';
+  end if;
+
+  delete from public.screenings
+  where series_id = v_anchor.series_id
+    and starts_at >= v_anchor.starts_at;
+
+  get diagnostics v_deleted = row_count;
+  return v_deleted;
+end;
+$$;
+
+revoke execute on function public.create_screening_series(uuid, uuid, text, smallint[], date, time, interval, text, date, integer, boolean, text) from public, anon;
+revoke execute on function public.update_screening_series_from(uuid, uuid, uuid, interval, interval, text) from public, anon;
+revoke execute on function public.delete_screening_series_from(uuid) from public, anon;
+grant execute on function public.create_screening_series(uuid, uuid, text, smallint[], date, time, interval, text, date, integer, boolean, text) to authenticated;
+grant execute on function public.update_screening_series_from(uuid, uuid, uuid, interval, interval, text) to authenticated;
+grant execute on function public.delete_screening_series_from(uuid) to authenticated;
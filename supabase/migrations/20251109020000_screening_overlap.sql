@@ -0,0 +1,198 @@
+-- migration: screening_overlap
+-- purpose: an auditorium can only host one screening at a time. each screening stores the time range it
+-- occupies (start until end plus a configurable cleaning buffer) and an exclusion constraint rejects
+-- overlapping ranges in the same auditorium. find_screening_conflicts lets the admin form explain which
+-- screening collides before submitting.
+-- affected: public.cinema_settings (cleaning_buffer_minutes), public.screenings (occupied_range column,
+-- range trigger, screenings_no_overlap constraint), public.find_screening_conflicts and
+-- public.find_screening_series_conflicts (new).
+-- notes: screenings that already ended keep a null range, and upcoming legacy rows that overlap an
+-- earlier one are left without a range (reported with a notice) so the constraint can be added; they
+-- get checked again the next time they are edited.
+
+create extension if not exists btree_gist;
+
+alter table public.cinema_settings
+  add column if not exists cleaning_buffer_minutes integer not null default 15
+    check (cleaning_buffer_minutes between 0 and 240);
+
+comment on column public.cinema_settings.cleaning_buffer_minutes is 'Minutos de limpieza que se reservan después de cada función antes de la siguiente en la misma sala.';
+
+alter table public.screenings
+  add column if not exists occupied_range tstzrange;
+
+comment on column public.screenings.occupied_range is 'Intervalo en que la sala está ocupada: inicio hasta fin más el tiempo de limpieza.';
+
+-- start until the end (ends_at, or the movie duration) plus the cleaning buffer.
+create or replace function public.screening_occupied_range(
+  p_starts_at timestamp with time zone,
+  p_ends_at timestamp with time zone,
+  p_movie_id uuid
+)
+returns tstzrange
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select tstzrange(
+    p_starts_at,
+    coalesce(
+      p_ends_at,
+      p_starts_at + make_interval(mins => coalesce((select duration_minutes from public.movies where id = p_movie_id), 0))
+    ) + make_interval(mins => coalesce((select cleaning_buffer_minutes from public.cinema_settings), 0)),
+    '[)'
+  );
+$$;
+
+create or replace function public.set_screening_occupied_range()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.occupied_range := public.screening_occupied_range(new.starts_at, new.ends_at, new.movie_id);
+  return new;
+end;
+$$;
+
+create trigger screenings_set_occupied_range
+  before insert or update of starts_at, ends_at, movie_id, auditorium_id on public.screenings
+  for each row
+  execute procedure public.set_screening_occupied_range();
+
+-- backfill upcoming screenings in start order, skipping any that would collide with one already placed.
+do $$
+declare
+  v_screening record;
+  v_range tstzrange;
+begin
+  for v_screening in
+    select id, auditorium_id, starts_at, ends_at, movie_id
+    from public.screenings
+    where public.screening_ended_at(id) >= now()
+    order by auditorium_id, starts_at
+  loop
+    v_range := public.screening_occupied_range(v_screening.starts_at, v_screening.ends_at, v_screening.movie_id);
+
+    if exists (
+      select 1
+      from public.screenings
+      where auditorium_id = v_screening.auditorium_id
+        and occupied_range && v_range
+    ) then
+      raise notice 'screening % overlaps another screening in its auditorium and was left without a range', v_screening.id;
+    else
+      update public.screenings
+      set occupied_range = v_range
+      where id = v_screening.id;
+    end if;
+  end loop;
+end;
+$$;
+
+-- deferred so statements that move several screenings at once (series edits) are judged on the final state.
+alter table public.screenings
+  add constraint screenings_no_overlap
+  exclude using gist (auditorium_id with =, occupied_range with &&)
+  deferrable initially deferred;
+
+-- a new buffer applies to every upcoming screening. if the longer buffer makes two of them overlap,
+-- the constraint rejects the settings update.
+create or replace function public.refresh_screening_ranges_for_buffer()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.screenings
+  set occupied_range = public.screening_occupied_range(starts_at, ends_at, movie_id)
+  where occupied_range is not null
+    and upper(occupied_range) >= now();
+
+  return new;
+end;
+$$;
+
+create trigger cinema_settings_refresh_screening_ranges
+  after update of cleaning_buffer_minutes on public.cinema_settings
+  for each row
+  when (old.cleaning_buffer_minutes is distinct from new.cleaning_buffer_minutes)
+  execute procedure public.refresh_screening_ranges_for_buffer();
+
+-- screenings in the auditorium that would overlap the given slot, ignoring p_exclude_id (the one being
+-- edited). used by the admin form to name the conflicting screening before saving.
+create or replace function public.find_screening_conflicts(
+  p_auditorium_id uuid,
+  p_starts_at timestamp with time zone,
+  p_ends_at timestamp with time zone,
+  p_movie_id uuid,
+  p_exclude_id uuid default null
+)
+returns table (
+  screening_id uuid,
+  movie_title text,
+  starts_at timestamp with time zone,
+  occupied_until timestamp with time zone
+)
+language sql
+stable
+set search_path = public
+as $$
+  select s.id, m.title, s.starts_at, upper(s.occupied_range)
+  from public.screenings s
+  join public.movies m on m.id = s.movie_id
+  where s.auditorium_id = p_auditorium_id
+    and s.id is distinct from p_exclude_id
+    and s.occupied_range && public.screening_occupied_range(p_starts_at, p_ends_at, p_movie_id)
+  order by s.starts_at;
+$$;
+
+revoke execute on function public.find_screening_conflicts(uuid, timestamp with time zone, timestamp with time zone, uuid, uuid) from public, anon;
+grant execute on function public.find_screening_conflicts(uuid, timestamp with time zone, timestamp with time zone, uuid, uuid) to authenticated;
+
+-- the same check for every screening a new series would create, on the days create_screening_series
+-- would use.
+create or replace function public.find_screening_series_conflicts(
+  p_movie_id uuid,
+  p_auditorium_id uuid,
+  p_frequency text,
+  p_weekdays smallint[],
+  p_starts_on date,
+  p_start_time time,
+  p_duration interval,
+  p_time_zone text,
+  p_until_date date default null,
+  p_occurrence_count integer default null,
+  p_skip_holidays boolean default false
+)
+returns table (
+  screening_id uuid,
+  movie_title text,
+  starts_at timestamp with time zone,
+  occupied_until timestamp with time zone
+)
+language sql
+stable
+set search_path = public
+as $$
+  with occurrences as (
+    select (day + p_start_time) at time zone p_time_zone as starts_at
+    from public.screening_series_days(
+      p_frequency,
+      p_weekdays,
+      p_starts_on,
+      p_until_date,
+      p_occurrence_count,
+      p_skip_holidays
+    ) as day
+  )
+  select distinct on (c.starts_at, c.screening_id) c.screening_id, c.movie_title, c.starts_at, c.occupied_until
+  from occurrences o
+  cross join lateral public.find_screening_conflicts(p_auditorium_id, o.starts_at, o.starts_at + p_duration, p_movie_id) c
+  order by c.starts_at, c.screening_id;
+$$;
+
+revoke execute on function public.find_screening_series_conflicts(uuid, uuid, text, smallint[], date, time, interval, text, date, integer, boolean) from public, anon;
+grant execute on function public.find_screening_series_conflicts(uuid, uuid, text, smallint[], date, time, interval, text, date, integer, boolean) to authenticated;
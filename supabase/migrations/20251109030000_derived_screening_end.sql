@@ -0,0 +1,315 @@
+-- migration: derived_screening_end
+-- purpose: screenings.ends_at was typed by hand even though movies carry their duration. it is now
+-- derived as start + movie duration + a configurable padding for trailers and intermission, and kept
+-- up to date when the movie duration or the padding changes. admins can still pin a manual end time
+-- with ends_at_override.
+-- affected: public.cinema_settings (screening_padding_minutes), public.screenings (ends_at_override column,
+-- derive trigger, backfill), public.screening_occupied_range (uses the derived end), public.movies (duration change trigger), public.create_screening_series and
+-- public.update_screening_series_from (recreated to set the override flag).
+
+alter table public.cinema_settings
+  add column if not exists screening_padding_minutes integer not null default 15
+    check (screening_padding_minutes between 0 and 120);
+
+comment on column public.cinema_settings.screening_padding_minutes is 'Minutos que se suman a la duración de la película por cortos e intermedio.';
+
+alter table public.screenings
+  add column if not exists ends_at_override boolean not null default false;
+
+comment on column public.screenings.ends_at_override is 'Si es verdadero, ends_at fue fijado manualmente y no se recalcula.';
+
+-- start + duration + padding, or null when the movie has no duration.
+create or replace function public.screening_default_ends_at(
+  p_starts_at timestamp with time zone,
+  p_movie_id uuid
+)
+returns timestamp with time zone
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_starts_at + make_interval(
+    mins => m.duration_minutes + coalesce((select screening_padding_minutes from public.cinema_settings), 0)
+  )
+  from public.movies m
+  where m.id = p_movie_id
+    and m.duration_minutes is not null;
+$$;
+
+-- the occupied range falls back to the same derived end, so conflict checks for a slot without a
+-- manual end match what the trigger below will store.
+create or replace function public.screening_occupied_range(
+  p_starts_at timestamp with time zone,
+  p_ends_at timestamp with time zone,
+  p_movie_id uuid
+)
+returns tstzrange
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select tstzrange(
+    p_starts_at,
+    coalesce(p_ends_at, public.screening_default_ends_at(p_starts_at, p_movie_id), p_starts_at)
+      + make_interval(mins => coalesce((select cleaning_buffer_minutes from public.cinema_settings), 0)),
+    '[)'
+  );
+$$;
+
+-- fires before screenings_set_occupied_range (trigger names sort alphabetically) so the range uses the
+-- derived end. a manual end is kept only when ends_at_override is set; without a duration the typed
+-- value is the only information available, so it is kept as well.
+create or replace function public.derive_screening_ends_at()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_default timestamp with time zone;
+begin
+  if new.ends_at_override and new.ends_at is not null then
+    return new;
+  end if;
+
+  new.ends_at_override := false;
+  v_default := public.screening_default_ends_at(new.starts_at, new.movie_id);
+
+  if v_default is not null then
+    new.ends_at := v_default;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger screenings_derive_ends_at
+  before insert or update of starts_at, ends_at, movie_id, ends_at_override on public.screenings
+  for each row
+  execute procedure public.derive_screening_ends_at();
+
+-- keep upcoming screenings in step with a new runtime. setting ends_at re-runs the derive and range
+-- triggers, so the overlap constraint also judges the longer screenings.
+create or replace function public.refresh_screening_ends_for_movie()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.screenings
+  set ends_at = null
+  where movie_id = new.id
+    and not ends_at_override
+    and starts_at >= now();
+
+  return new;
+end;
+$$;
+
+create trigger movies_refresh_screening_ends
+  after update of duration_minutes on public.movies
+  for each row
+  when (old.duration_minutes is distinct from new.duration_minutes)
+  execute procedure public.refresh_screening_ends_for_movie();
+
+create or replace function public.refresh_screening_ends_for_padding()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.screenings
+  set ends_at = null
+  where not ends_at_override
+    and starts_at >= now();
+
+  return new;
+end;
+$$;
+
+create trigger cinema_settings_refresh_screening_ends
+  after update of screening_padding_minutes on public.cinema_settings
+  for each row
+  when (old.screening_padding_minutes is distinct from new.screening_padding_minutes)
+  execute procedure public.refresh_screening_ends_for_padding();
+
+-- backfill upcoming screenings: typed end times become overrides, missing ones are derived. a derived
+-- end that would collide with the next screening in the auditorium is left empty and reported.
+update public.screenings
+set ends_at_override = true
+where ends_at is not null
+  and starts_at >= now();
+
+set constraints public.screenings_no_overlap immediate;
+
+do $$
+declare
+  v_screening_id uuid;
+begin
+  for v_screening_id in
+    select id
+    from public.screenings
+    where ends_at is null
+      and starts_at >= now()
+    order by starts_at
+  loop
+    begin
+      update public.screenings
+      set ends_at = null
+      where id = v_screening_id;
+    exception
+      when exclusion_violation then
+        raise notice 'screening % would overlap another screening once its end is derived; left unchanged', v_screening_id;
+    end;
+  end loop;
+end;
+$$;
+
+set constraints public.screenings_no_overlap deferred;
+
+-- series: a manual duration pins the end of every generated screening, otherwise it is derived.
+create or replace function public.create_screening_series(
+  p_movie_id uuid,
+  p_auditorium_id uuid,
+  p_frequency text,
+  p_weekdays smallint[],
+  p_starts_on date,
+  p_start_time time,
+  p_duration interval,
+  p_time_zone text,
+  p_until_date date default null,
+  p_occurrence_count integer default null,
+  p_skip_holidays boolean default false,
+  p_notes text default null
+)
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_series_id uuid;
+  v_created integer;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Solo los administradores pueden programar funciones.'
+      using errcode = '42501';
+  end if;
+
+  insert into public.screening_series (
+    movie_id,
+    auditorium_id,
+    frequency,
+    weekdays,
+    starts_on,
+    start_time,
+    duration,
+    time_zone,
+    until_date,
+    occurrence_count,
+    skip_holidays,
+    notes,
+    created_by
+  )
+  values (
+    p_movie_id,
+    p_auditorium_id,
+    p_frequency,
+    coalesce(p_weekdays, '{}'),
+    p_starts_on,
+    p_start_time,
+    p_duration,
+    p_time_zone,
+    p_until_date,
+    p_occurrence_count,
+    p_skip_holidays,
+    p_notes,
+    auth.uid()
+  )
+  returning id into v_series_id;
+
+  with occurrences as (
+    select day
+    from public.screening_series_days(
+      p_frequency,
+      p_weekdays,
+      p_starts_on,
+      p_until_date,
+      p_occurrence_count,
+      p_skip_holidays
+    ) as day
+  ),
+  inserted as (
+    insert into public.screenings (movie_id, auditorium_id, starts_at, ends_at, ends_at_override, notes, series_id)
+    select
+      p_movie_id,
+      p_auditorium_id,
+      (day + p_start_time) at time zone p_time_zone,
+      ((day + p_start_time) at time zone p_time_zone) + p_duration,
+      p_duration is not null,
+      p_notes,
+      v_series_id
+    from occurrences
+    returning 1
+  )
+  select count(*) into v_created from inserted;
+
+  if v_created = 0 then
+    raise exception 'La repetición no genera ninguna función; revisa los días y la fecha final.'
+      using errcode = '22023';
+  end if;
+
+  if p_occurrence_count is not null and v_created < p_occurrence_count then
+    raise exception 'La repetición solo genera % de las % funciones pedidas.', v_created, p_occurrence_count
+      using errcode = '22023';
+  end if;
+
+  return v_created;
+end;
+$$;
+
+-- series edits: same rule as creation.
+create or replace function public.update_screening_series_from(
+  p_screening_id uuid,
+  p_movie_id uuid,
+  p_auditorium_id uuid,
+  p_start_shift interval,
+  p_duration interval,
+  p_notes text
+)
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_anchor public.screenings%rowtype;
+  v_updated integer;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Solo los administradores pueden programar funciones.'
+      using errcode = '42501';
+  end if;
+
+  select * into v_anchor from public.screenings where id = p_screening_id;
+
+  if not found or v_anchor.series_id is null then
+    raise exception 'La función no pertenece a una serie.'
+      using errcode = 'P0002';
+  end if;
+
+  update public.screenings
+  set movie_id = p_movie_id,
+      auditorium_id = p_auditorium_id,
+      starts_at = starts_at + coalesce(p_start_shift, interval '0'),
+      ends_at = starts_at + coalesce(p_start_shift, interval '0') + p_duration,
+      ends_at_override = p_duration is not null,
+      notes = p_notes
+  where series_id = v_anchor.series_id
+    and starts_at >= v_anchor.starts_at;
+
+  get diagnostics v_updated = row_count;
+  return v_updated;
+end;
+$$;
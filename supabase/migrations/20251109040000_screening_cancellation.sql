@@ -0,0 +1,318 @@
+-- migration: screening_cancellation
+-- purpose: cancel a screening instead of deleting it. cancelling keeps the row and its history, records
+-- the reason and who did it, cancels every active reservation and waitlist entry, and queues a
+-- notification for each affected student. deleting a screening that has reservations is now refused.
+-- affected: public.screenings (cancellation columns, occupied range, protection trigger),
+-- public.notifications (new), public.reservations (screening fk now restrict, cancelled screening guard),
+-- public.waitlist (cancelled screening guard), public.screening_availability (recreated),
+-- public.cancel_screening, public.mark_notifications_read (new).
+-- errors: raises sqlstate 'CU008' when booking, joining the waitlist or cancelling again on a cancelled
+-- screening.
+
+-- step 1: cancellation details on the screening itself.
+alter table public.screenings
+  add column if not exists cancelled_at timestamp with time zone,
+  add column if not exists cancelled_by uuid references auth.users (id) on delete set null,
+  add column if not exists cancellation_reason text;
+
+alter table public.screenings
+  add constraint screenings_cancellation_reason check (
+    cancelled_at is null or char_length(trim(coalesce(cancellation_reason, ''))) > 0
+  );
+
+comment on column public.screenings.cancelled_at is 'Momento en que se canceló la función; null si sigue programada.';
+comment on column public.screenings.cancelled_by is 'Administrador que canceló la función.';
+comment on column public.screenings.cancellation_reason is 'Motivo de la cancelación mostrado a los estudiantes afectados.';
+
+-- step 2: reservations keep pointing at their screening. a screening with reservations (in any status)
+-- can no longer be deleted; it has to be cancelled.
+alter table public.reservations
+  drop constraint if exists reservations_screening_id_fkey;
+
+alter table public.reservations
+  add constraint reservations_screening_id_fkey
+  foreign key (screening_id) references public.screenings (id) on delete restrict;
+
+-- step 3: queue of in-app notifications shown in the student portal.
+create table if not exists public.notifications (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('screening_cancelled')),
+  title text not null,
+  body text not null,
+  screening_id uuid references public.screenings (id) on delete set null,
+  read_at timestamp with time zone,
+  created_at timestamp with time zone not null default now()
+);
+
+comment on table public.notifications is 'Notificaciones pendientes y leídas de cada usuario.';
+comment on column public.notifications.kind is 'Tipo de aviso; screening_cancelled cuando se cancela una función reservada.';
+comment on column public.notifications.read_at is 'Momento en que el usuario marcó la notificación como leída.';
+
+alter table public.notifications enable row level security;
+
+create index if not exists notifications_user_id_created_at_idx on public.notifications (user_id, created_at desc);
+
+create policy "users can read own notifications"
+  on public.notifications
+  for select
+  to authenticated
+  using (user_id = (select auth.uid()));
+
+create policy "admins can read notifications"
+  on public.notifications
+  for select
+  to authenticated
+  using ((select public.current_user_is_admin()));
+
+-- step 4: a cancelled screening frees its auditorium slot, so it drops out of the overlap constraint.
+create or replace function public.set_screening_occupied_range()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.cancelled_at is not null then
+    new.occupied_range := null;
+  else
+    new.occupied_range := public.screening_occupied_range(new.starts_at, new.ends_at, new.movie_id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists screenings_set_occupied_range on public.screenings;
+
+create trigger screenings_set_occupied_range
+  before insert or update of starts_at, ends_at, movie_id, auditorium_id, cancelled_at on public.screenings
+  for each row
+  execute procedure public.set_screening_occupied_range();
+
+-- step 5: the cancellation columns are only written by cancel_screening. security invoker on purpose:
+-- current_user is "authenticated" for api requests and the function owner inside cancel_screening.
+create or replace function public.protect_screening_cancellation()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user not in ('authenticated', 'anon') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.cancelled_at := null;
+    new.cancelled_by := null;
+    new.cancellation_reason := null;
+    return new;
+  end if;
+
+  if new.cancelled_at is distinct from old.cancelled_at
+    or new.cancelled_by is distinct from old.cancelled_by
+    or new.cancellation_reason is distinct from old.cancellation_reason then
+    raise exception 'Usa la acción "Cancelar función" para cancelar una función.'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger screenings_protect_cancellation
+  before insert or update on public.screenings
+  for each row
+  execute procedure public.protect_screening_cancellation();
+
+-- step 6: nobody books or queues for a cancelled screening. shared by reservations and the waitlist.
+create or replace function public.reject_cancelled_screening()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_table_name = 'reservations' and not public.reservation_status_holds_seat(new.status) then
+    return new;
+  end if;
+
+  if exists (
+    select 1
+    from public.screenings
+    where id = new.screening_id
+      and cancelled_at is not null
+  ) then
+    raise exception 'La función fue cancelada.'
+      using errcode = 'CU008',
+            hint = 'screening_cancelled';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger reservations_reject_cancelled_screening
+  before insert or update of status, screening_id on public.reservations
+  for each row
+  execute procedure public.reject_cancelled_screening();
+
+create trigger waitlist_reject_cancelled_screening
+  before insert on public.waitlist
+  for each row
+  execute procedure public.reject_cancelled_screening();
+
+-- step 7: cancelled screenings leave the billboard. same columns as before, only the filter changes.
+create or replace view public.screening_availability as
+select
+  s.id as screening_id,
+  s.movie_id,
+  m.title as movie_title,
+  m.synopsis as movie_synopsis,
+  m.duration_minutes as movie_duration_minutes,
+  m.rating as movie_rating,
+  m.poster_url as movie_poster_url,
+  s.starts_at,
+  s.ends_at,
+  s.auditorium,
+  s.capacity,
+  count(r.id) filter (where r.status in ('pending', 'confirmed', 'checked_in')) as reserved_seats,
+  greatest(
+    s.capacity - count(r.id) filter (where r.status in ('pending', 'confirmed', 'checked_in')),
+    0
+  ) as available_seats,
+  s.auditorium_id
+from public.screenings s
+join public.movies m on m.id = s.movie_id
+left join public.reservations r on r.screening_id = s.id
+where m.is_active
+  and s.starts_at >= now()
+  and s.cancelled_at is null
+group by s.id, m.id;
+
+-- step 8: cancels an upcoming screening. the waitlist is cleared first so the reservations cancelled
+-- afterwards do not promote anyone. returns how many reservations were cancelled.
+create or replace function public.cancel_screening(p_screening_id uuid, p_reason text)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_screening public.screenings%rowtype;
+  v_title text;
+  v_body text;
+  v_reason text := nullif(trim(coalesce(p_reason, '')), '');
+  v_cancelled integer;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Solo los administradores pueden cancelar funciones.'
+      using errcode = '42501';
+  end if;
+
+  if v_reason is null then
+    raise exception 'Indica el motivo de la cancelación.'
+      using errcode = '22023';
+  end if;
+
+  select *
+  into v_screening
+  from public.screenings
+  where id = p_screening_id
+  for update;
+
+  if not found then
+    raise exception 'La función no existe.'
+      using errcode = 'P0002';
+  end if;
+
+  if v_screening.cancelled_at is not null then
+    raise exception 'La función ya fue cancelada.'
+      using errcode = 'CU008',
+            hint = 'screening_cancelled';
+  end if;
+
+  if v_screening.starts_at < now() then
+    raise exception 'La función ya comenzó y no puede cancelarse.'
+      using errcode = '22023';
+  end if;
+
+  select title
+  into v_title
+  from public.movies
+  where id = v_screening.movie_id;
+
+  update public.screenings
+  set cancelled_at = now(),
+      cancelled_by = auth.uid(),
+      cancellation_reason = v_reason
+  where id = p_screening_id;
+
+  v_body := format(
+    'La función de "%s" del %s en %s fue cancelada. Motivo: %s',
+    v_title,
+    to_char(v_screening.starts_at at time zone 'America/Guayaquil', 'DD/MM/YYYY "a las" HH24:MI'),
+    v_screening.auditorium,
+    v_reason
+  );
+
+  with removed as (
+    update public.waitlist
+    set status = 'removed'
+    where screening_id = p_screening_id
+      and status = 'waiting'
+    returning user_id
+  )
+  insert into public.notifications (user_id, kind, title, body, screening_id)
+  select user_id, 'screening_cancelled', 'Función cancelada', v_body, p_screening_id
+  from removed;
+
+  with active as (
+    select id, status
+    from public.reservations
+    where screening_id = p_screening_id
+      and status in ('pending', 'confirmed')
+  ),
+  cancelled as (
+    update public.reservations r
+    set status = 'cancelled'
+    from active a
+    where r.id = a.id
+    returning r.id, r.user_id, a.status as from_status
+  ),
+  logged as (
+    insert into public.reservation_status_log (reservation_id, from_status, to_status, reason, changed_by)
+    select id, from_status, 'cancelled', 'screening_cancelled', auth.uid()
+    from cancelled
+  )
+  insert into public.notifications (user_id, kind, title, body, screening_id)
+  select user_id, 'screening_cancelled', 'Función cancelada', v_body, p_screening_id
+  from cancelled;
+
+  get diagnostics v_cancelled = row_count;
+  return v_cancelled;
+end;
+$$;
+
+comment on function public.cancel_screening(uuid, text) is 'Cancela una función próxima, sus reservas activas y su lista de espera, y avisa a los estudiantes.';
+
+-- step 9: students mark their notifications as read without being able to edit them.
+create or replace function public.mark_notifications_read(p_ids uuid[] default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_marked integer;
+begin
+  update public.notifications
+  set read_at = now()
+  where user_id = auth.uid()
+    and read_at is null
+    and (p_ids is null or id = any (p_ids));
+
+  get diagnostics v_marked = row_count;
+  return v_marked;
+end;
+$$;
+
+comment on function public.mark_notifications_read(uuid[]) is 'Marca como leídas las notificaciones indicadas (o todas) del usuario actual.';
@@ -0,0 +1,384 @@
+-- migration: soft_delete
+-- purpose: deleting a movie, screening or reservation from the admin moves it to a trash ("papelera")
+-- instead of removing it, so attendance history survives and the row can be restored. deleted rows
+-- are hidden from everyone but admins and left out of the views. permanent deletion is only possible
+-- for rows that are already in the trash.
+-- affected: public.movies, public.screenings, public.reservations (deleted_at / deleted_by columns,
+-- soft delete trigger, restrictive select policies, admin delete policies), public.reservations (waitlist
+-- promotion on soft delete), public.screening_availability, public.screening_stats,
+-- public.screening_taken_seats (recreated), public.set_screening_occupied_range,
+-- public.reject_cancelled_screening, public.delete_screening_series_from, public.apply_reservation_hold
+-- (recreated).
+-- errors: raises sqlstate 'CU009' when a row cannot be moved to the trash yet.
+
+-- step 1: deletion markers.
+alter table public.movies
+  add column if not exists deleted_at timestamp with time zone,
+  add column if not exists deleted_by uuid references auth.users (id) on delete set null;
+
+alter table public.screenings
+  add column if not exists deleted_at timestamp with time zone,
+  add column if not exists deleted_by uuid references auth.users (id) on delete set null;
+
+alter table public.reservations
+  add column if not exists deleted_at timestamp with time zone,
+  add column if not exists deleted_by uuid references auth.users (id) on delete set null;
+
+comment on column public.movies.deleted_at is 'Momento en que la película se envió a la papelera; null si está vigente.';
+comment on column public.screenings.deleted_at is 'Momento en que la función se envió a la papelera; null si está vigente.';
+comment on column public.reservations.deleted_at is 'Momento en que la reserva se envió a la papelera; null si está vigente.';
+
+create index if not exists movies_deleted_at_idx on public.movies (deleted_at) where deleted_at is not null;
+create index if not exists screenings_deleted_at_idx on public.screenings (deleted_at) where deleted_at is not null;
+create index if not exists reservations_deleted_at_idx on public.reservations (deleted_at) where deleted_at is not null;
+
+-- step 2: stamps who moved a row to the trash and checks it can go there. the client only sets or
+-- clears deleted_at; the timestamp and author come from the server.
+-- * movies with upcoming screenings stay until those are cancelled or trashed.
+-- * screenings with pending or confirmed reservations have to be cancelled first.
+-- * reservations that still hold a seat are cancelled on the way. checked-in and no-show reservations
+--   keep their status as history.
+-- the trigger fires after reservations_enforce_status_transition (names sort alphabetically), so the
+-- cancellation below is not checked against the admin transition table.
+create or replace function public.handle_soft_delete()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Solo los administradores pueden usar la papelera.'
+      using errcode = '42501';
+  end if;
+
+  if new.deleted_at is null then
+    new.deleted_by := null;
+    return new;
+  end if;
+
+  if old.deleted_at is not null then
+    new.deleted_at := old.deleted_at;
+    new.deleted_by := old.deleted_by;
+    return new;
+  end if;
+
+  new.deleted_at := now();
+  new.deleted_by := auth.uid();
+
+  if tg_table_name = 'movies' and exists (
+    select 1
+    from public.screenings s
+    where s.movie_id = new.id
+      and s.deleted_at is null
+      and s.cancelled_at is null
+      and s.starts_at >= now()
+  ) then
+    raise exception 'La película tiene funciones próximas; cancélalas o elimínalas primero.'
+      using errcode = 'CU009',
+            hint = 'soft_delete_blocked';
+  end if;
+
+  if tg_table_name = 'screenings' and exists (
+    select 1
+    from public.reservations r
+    where r.screening_id = new.id
+      and r.deleted_at is null
+      and r.status in ('pending', 'confirmed')
+  ) then
+    raise exception 'La función tiene reservas activas; cancélala antes de eliminarla.'
+      using errcode = 'CU009',
+            hint = 'soft_delete_blocked';
+  end if;
+
+  if tg_table_name = 'reservations' and new.status in ('pending', 'confirmed') then
+    insert into public.reservation_status_log (reservation_id, from_status, to_status, reason, changed_by)
+    values (new.id, new.status, 'cancelled', 'soft_delete', auth.uid());
+
+    new.status := 'cancelled';
+    new.hold_expires_at := null;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger movies_handle_soft_delete
+  before update of deleted_at on public.movies
+  for each row
+  when (old.deleted_at is distinct from new.deleted_at)
+  execute procedure public.handle_soft_delete();
+
+create trigger screenings_handle_soft_delete
+  before update of deleted_at on public.screenings
+  for each row
+  when (old.deleted_at is distinct from new.deleted_at)
+  execute procedure public.handle_soft_delete();
+
+create trigger reservations_handle_soft_delete
+  before update of deleted_at on public.reservations
+  for each row
+  when (old.deleted_at is distinct from new.deleted_at)
+  execute procedure public.handle_soft_delete();
+
+-- reservations_apply_hold fires before the soft delete trigger (names sort alphabetically) and rejects
+-- any update to a pending row whose hold ran out. moving to or out of the trash is not a checkout
+-- step, so it skips the hold rules; an abandoned hold is the reservation an admin most often trashes.
+create or replace function public.apply_reservation_hold()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_minutes integer;
+begin
+  if tg_op = 'UPDATE' and new.deleted_at is distinct from old.deleted_at then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    perform public.release_expired_seat_holds(new.screening_id);
+  end if;
+
+  if tg_op = 'UPDATE' and old.status = 'pending' then
+    if old.hold_expires_at <= now() and new.status in ('pending', 'confirmed') then
+      raise exception 'La retención del asiento venció. Vuelve a elegir tu asiento.'
+        using errcode = 'CU004',
+              hint = 'hold_expired';
+    end if;
+
+    new.hold_expires_at := case when new.status = 'pending' then old.hold_expires_at end;
+    return new;
+  end if;
+
+  if new.status <> 'pending' then
+    new.hold_expires_at := null;
+    return new;
+  end if;
+
+  select seat_hold_minutes
+  into v_minutes
+  from public.cinema_settings
+  where id;
+
+  new.hold_expires_at := now() + make_interval(mins => coalesce(v_minutes, 10));
+  return new;
+end;
+$$;
+
+-- the cancellation above is made inside the trigger, so status is not in the update's set list and
+-- reservations_promote_waitlist (after update of status) never fires. hand the freed seat to the
+-- waitlist from here instead.
+create trigger reservations_promote_waitlist_on_soft_delete
+  after update of deleted_at on public.reservations
+  for each row
+  when (old.deleted_at is null and new.deleted_at is not null)
+  execute procedure public.promote_waitlist_on_release();
+
+-- step 3: non-admins never see trashed rows. restrictive policies are and-ed with the existing ones.
+create policy "deleted movies are only visible to admins"
+  on public.movies
+  as restrictive
+  for select
+  to authenticated
+  using (deleted_at is null or (select public.current_user_is_admin()));
+
+create policy "deleted screenings are only visible to admins"
+  on public.screenings
+  as restrictive
+  for select
+  to authenticated
+  using (deleted_at is null or (select public.current_user_is_admin()));
+
+create policy "deleted reservations are only visible to admins"
+  on public.reservations
+  as restrictive
+  for select
+  to authenticated
+  using (deleted_at is null or (select public.current_user_is_admin()));
+
+-- step 4: permanent deletion goes through the trash.
+drop policy if exists "admins can delete movies" on public.movies;
+drop policy if exists "admins can delete screenings" on public.screenings;
+drop policy if exists "admins can delete reservations" on public.reservations;
+
+create policy "admins can purge deleted movies"
+  on public.movies
+  for delete
+  to authenticated
+  using ((select public.current_user_is_admin()) and deleted_at is not null);
+
+create policy "admins can purge deleted screenings"
+  on public.screenings
+  for delete
+  to authenticated
+  using ((select public.current_user_is_admin()) and deleted_at is not null);
+
+create policy "admins can purge deleted reservations"
+  on public.reservations
+  for delete
+  to authenticated
+  using ((select public.current_user_is_admin()) and deleted_at is not null);
+
+-- step 5: a trashed screening frees its auditorium slot like a cancelled one.
+create or replace function public.set_screening_occupied_range()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.cancelled_at is not null or new.deleted_at is not null then
+    new.occupied_range := null;
+  else
+    new.occupied_range := public.screening_occupied_range(new.starts_at, new.ends_at, new.movie_id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists screenings_set_occupied_range on public.screenings;
+
+create trigger screenings_set_occupied_range
+  before insert or update of starts_at, ends_at, movie_id, auditorium_id, cancelled_at, deleted_at on public.screenings
+  for each row
+  execute procedure public.set_screening_occupied_range();
+
+-- step 6: nobody books or queues for a trashed screening either.
+create or replace function public.reject_cancelled_screening()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_table_name = 'reservations' and not public.reservation_status_holds_seat(new.status) then
+    return new;
+  end if;
+
+  if exists (
+    select 1
+    from public.screenings
+    where id = new.screening_id
+      and (cancelled_at is not null or deleted_at is not null)
+  ) then
+    raise exception 'La función fue cancelada.'
+      using errcode = 'CU008',
+            hint = 'screening_cancelled';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- step 7: views leave trashed rows out. same columns as before, only the filters change.
+create or replace view public.screening_availability as
+select
+  s.id as screening_id,
+  s.movie_id,
+  m.title as movie_title,
+  m.synopsis as movie_synopsis,
+  m.duration_minutes as movie_duration_minutes,
+  m.rating as movie_rating,
+  m.poster_url as movie_poster_url,
+  s.starts_at,
+  s.ends_at,
+  s.auditorium,
+  s.capacity,
+  count(r.id) filter (where r.status in ('pending', 'confirmed', 'checked_in')) as reserved_seats,
+  greatest(
+    s.capacity - count(r.id) filter (where r.status in ('pending', 'confirmed', 'checked_in')),
+    0
+  ) as available_seats,
+  s.auditorium_id
+from public.screenings s
+join public.movies m on m.id = s.movie_id
+left join public.reservations r on r.screening_id = s.id and r.deleted_at is null
+where m.is_active
+  and m.deleted_at is null
+  and s.starts_at >= now()
+  and s.cancelled_at is null
+  and s.deleted_at is null
+group by s.id, m.id;
+
+create or replace view public.screening_stats as
+select
+  s.id as screening_id,
+  s.movie_id,
+  m.title as movie_title,
+  s.starts_at,
+  s.ends_at,
+  s.auditorium,
+  s.capacity,
+  count(r.id) as total_reservations,
+  count(r.id) filter (where r.status in ('pending', 'confirmed', 'checked_in', 'no_show')) as active_reservations,
+  count(r.id) filter (where r.status = 'checked_in') as checked_in_count,
+  coalesce(
+    round(
+      (count(r.id) filter (where r.status in ('pending', 'confirmed', 'checked_in')))::numeric
+        / nullif(s.capacity::numeric, 0)
+        * 100,
+      2
+    ),
+    0
+  ) as occupancy_rate,
+  coalesce(
+    round(
+      (count(r.id) filter (where r.status = 'checked_in'))::numeric
+        / nullif(count(r.id)::numeric, 0)
+        * 100,
+      2
+    ),
+    0
+  ) as attendance_rate,
+  s.created_at,
+  s.updated_at
+from public.screenings s
+left join public.movies m on m.id = s.movie_id
+left join public.reservations r on r.screening_id = s.id and r.deleted_at is null
+where s.deleted_at is null
+group by s.id, m.title;
+
+create or replace view public.screening_taken_seats as
+select
+  r.screening_id,
+  r.seat_label,
+  r.status
+from public.reservations r
+where r.seat_label is not null
+  and r.deleted_at is null
+  and public.reservation_status_holds_seat(r.status)
+  and (r.status <> 'pending' or r.hold_expires_at > now());
+
+-- step 8: "this and the following" screenings of a series go to the trash as well.
+create or replace function public.delete_screening_series_from(p_screening_id uuid)
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_anchor public.screenings%rowtype;
+  v_deleted integer;
+begin
+  if not public.current_user_is_admin() then
+    raise exception 'Solo los administradores pueden programar funciones.'
+      using errcode = '42501';
+  end if;
+
+  select * into v_anchor from public.screenings where id = p_screening_id;
+
+  if not found or v_anchor.series_id is null then
+    raise exception 'La función no pertenece a una serie.'
+      using errcode = 'P0002';
+  end if;
+
+  update public.screenings
+  set deleted_at = now()
+  where series_id = v_anchor.series_id
+    and starts_at >= v_anchor.starts_at
+    and deleted_at is null;
+
+  get diagnostics v_deleted = row_count;
+  return v_deleted;
+end;
+$$;
@@ -0,0 +1,136 @@
+-- migration: audit_log
+-- purpose: record every insert, update and delete on the cinema tables with the acting user and the
+-- row before and after the change, so the admin "auditoría" page can answer who changed what and when.
+-- affected: public.audit_log (new), public.audit_row_change (new), audit triggers on public.movies,
+-- public.auditoriums, public.screenings, public.screening_series, public.reservations,
+-- public.attendance_logs, public.waitlist, public.holidays, public.cinema_settings.
+-- notes: the log is written only by the trigger. admins can read it; nobody can edit it through the api.
+
+-- step 1: one row per changed record.
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  table_name text not null,
+  record_id text not null,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  actor_id uuid references public.profiles (user_id) on delete set null,
+  old_data jsonb,
+  new_data jsonb,
+  changed_fields text[] not null default '{}',
+  created_at timestamp with time zone not null default now()
+);
+
+comment on table public.audit_log is 'Bitácora de cambios en las tablas del cine: quién, qué, cuándo y los valores antes y después.';
+comment on column public.audit_log.record_id is 'Clave primaria del registro afectado, como texto.';
+comment on column public.audit_log.actor_id is 'Usuario que hizo el cambio; null cuando lo hizo un proceso programado.';
+comment on column public.audit_log.changed_fields is 'Columnas que cambiaron en una actualización (sin updated_at).';
+
+alter table public.audit_log enable row level security;
+
+create index if not exists audit_log_created_at_idx on public.audit_log (created_at desc);
+create index if not exists audit_log_table_created_at_idx on public.audit_log (table_name, created_at desc);
+create index if not exists audit_log_actor_created_at_idx on public.audit_log (actor_id, created_at desc);
+create index if not exists audit_log_record_idx on public.audit_log (table_name, record_id);
+
+create policy "admins can read audit log"
+  on public.audit_log
+  for select
+  to authenticated
+  using ((select public.current_user_is_admin()));
+
+-- step 2: generic trigger. tg_argv[0] names the primary key column (defaults to id). updates that only
+-- touch updated_at are not logged. security definer so student actions (bookings, waitlist) are
+-- logged even though students cannot write to the table.
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_key text := coalesce(tg_argv[0], 'id');
+  v_old jsonb;
+  v_new jsonb;
+  v_changed text[] := '{}';
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    v_old := to_jsonb(old);
+  end if;
+
+  if tg_op in ('INSERT', 'UPDATE') then
+    v_new := to_jsonb(new);
+  end if;
+
+  if tg_op = 'UPDATE' then
+    select coalesce(array_agg(n.key order by n.key), '{}')
+    into v_changed
+    from jsonb_each(v_new) as n
+    where n.key <> 'updated_at'
+      and n.value is distinct from v_old -> n.key;
+
+    if cardinality(v_changed) = 0 then
+      return null;
+    end if;
+  end if;
+
+  insert into public.audit_log (table_name, record_id, action, actor_id, old_data, new_data, changed_fields)
+  values (
+    tg_table_name,
+    coalesce(v_new, v_old) ->> v_key,
+    lower(tg_op),
+    (select p.user_id from public.profiles p where p.user_id = auth.uid()),
+    v_old,
+    v_new,
+    v_changed
+  );
+
+  return null;
+end;
+$$;
+
+comment on function public.audit_row_change() is 'Registra en audit_log los cambios de la fila; el argumento opcional es la columna de clave primaria.';
+
+-- step 3: attach it to the cinema tables.
+create trigger movies_audit
+  after insert or update or delete on public.movies
+  for each row
+  execute procedure public.audit_row_change();
+
+create trigger auditoriums_audit
+  after insert or update or delete on public.auditoriums
+  for each row
+  execute procedure public.audit_row_change();
+
+create trigger screenings_audit
+  after insert or update or delete on public.screenings
+  for each row
+  execute procedure public.audit_row_change();
+
+create trigger screening_series_audit
+  after insert or update or delete on public.screening_series
+  for each row
+  execute procedure public.audit_row_change();
+
+create trigger reservations_audit
+  after insert or update or delete on public.reservations
+  for each row
+  execute procedure public.audit_row_change();
+
+create trigger attendance_logs_audit
+  after insert or update or delete on public.attendance_logs
+  for each row
+  execute procedure public.audit_row_change();
+
+create trigger waitlist_audit
+  after insert or update or delete on public.waitlist
+  for each row
+  execute procedure public.audit_row_change();
+
+create trigger holidays_audit
+  after insert or update or delete on public.holidays
+  for each row
+  execute procedure public.audit_row_change('holiday_date');
+
+create trigger cinema_settings_audit
+  after insert or update or delete on public.cinema_settings
+  for each row
+  execute procedure public.audit_row_change();
@@ -0,0 +1,180 @@
+-- migration: offline_scanning
+-- purpose: let the entrance keep validating qr codes when the connection drops. scanners download the
+-- reservations of the day's screenings, validate locally, and upload the queued scans once they are back
+-- online. a scan that reaches the server after another device already checked the reservation in is
+-- reported as a conflict instead of being recorded twice.
+-- affected: public.attendance_logs (device_id, synced_at), public.offline_scan_manifest (new),
+-- public.sync_offline_scans (new).
+
+-- step 1: where a scan came from. live scans keep both columns null.
+alter table public.attendance_logs
+  add column if not exists device_id text,
+  add column if not exists synced_at timestamp with time zone;
+
+comment on column public.attendance_logs.device_id is 'Dispositivo que registró el escaneo sin conexión; null en escaneos en línea.';
+comment on column public.attendance_logs.synced_at is 'Momento en que el escaneo sin conexión llegó al servidor; scanned_at conserva la hora del dispositivo.';
+
+-- step 2: everything a scanner needs to validate the codes of a time window on its own. cancelled and
+-- deleted screenings are left out; cancelled reservations stay so the device can explain the rejection.
+create or replace function public.offline_scan_manifest(
+  p_from timestamp with time zone,
+  p_to timestamp with time zone
+)
+returns table (
+  reservation_id uuid,
+  screening_id uuid,
+  qr_token text,
+  status text,
+  seat_label text,
+  attendee text,
+  movie_title text,
+  starts_at timestamp with time zone,
+  checked_in_at timestamp with time zone
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role('admin', 'staff') then
+    raise exception 'Solo personal autorizado puede descargar los códigos.'
+      using errcode = '42501';
+  end if;
+
+  return query
+  select
+    r.id,
+    r.screening_id,
+    r.qr_token,
+    r.status::text,
+    r.seat_label,
+    coalesce(nullif(trim(concat_ws(' ', p.first_name, p.last_name)), ''), p.email, left(r.user_id::text, 8)),
+    m.title,
+    s.starts_at,
+    a.scanned_at
+  from public.reservations r
+  join public.screenings s on s.id = r.screening_id
+  join public.movies m on m.id = s.movie_id
+  left join public.profiles p on p.user_id = r.user_id
+  left join public.attendance_logs a on a.reservation_id = r.id
+  where s.starts_at >= p_from
+    and s.starts_at < p_to
+    and s.cancelled_at is null
+    and s.deleted_at is null
+    and r.deleted_at is null
+    and r.status <> 'pending'
+  order by s.starts_at, r.seat_label;
+end;
+$$;
+
+comment on function public.offline_scan_manifest(timestamp with time zone, timestamp with time zone) is 'Reservas de las funciones del intervalo para validar códigos QR sin conexión.';
+
+revoke execute on function public.offline_scan_manifest(timestamp with time zone, timestamp with time zone) from public, anon;
+grant execute on function public.offline_scan_manifest(timestamp with time zone, timestamp with time zone) to authenticated;
+
+-- step 3: upload the queued scans of a device. p_scans is an array of
+-- { "local_id": text, "token": text, "scanned_at": timestamptz }. every scan gets one result row:
+--   synced          recorded now, with the device's scan time
+--   already_synced  this device uploaded it before (a retried sync)
+--   conflict        the reservation was checked in elsewhere first; conflict_* say where and when
+--   rejected        the code is unknown or the reservation can no longer be checked in
+create or replace function public.sync_offline_scans(p_device_id text, p_scans jsonb)
+returns table (
+  local_id text,
+  reservation_id uuid,
+  outcome text,
+  message text,
+  conflict_scanned_at timestamp with time zone,
+  conflict_device_id text
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scan jsonb;
+  v_reservation public.reservations%rowtype;
+  v_log public.attendance_logs%rowtype;
+  v_scanned_at timestamp with time zone;
+begin
+  if not public.has_role('admin', 'staff') then
+    raise exception 'Solo personal autorizado puede sincronizar escaneos.'
+      using errcode = '42501';
+  end if;
+
+  if coalesce(trim(p_device_id), '') = '' then
+    raise exception 'Falta el identificador del dispositivo.'
+      using errcode = '22023';
+  end if;
+
+  for v_scan in
+    select value from jsonb_array_elements(coalesce(p_scans, '[]'::jsonb))
+  loop
+    local_id := v_scan ->> 'local_id';
+    reservation_id := null;
+    conflict_scanned_at := null;
+    conflict_device_id := null;
+    -- a device clock running ahead must not record attendance in the future.
+    v_scanned_at := least(coalesce((v_scan ->> 'scanned_at')::timestamp with time zone, now()), now());
+
+    select *
+    into v_reservation
+    from public.reservations r
+    where r.qr_token = v_scan ->> 'token'
+      and r.deleted_at is null;
+
+    if not found then
+      outcome := 'rejected';
+      message := 'No se encontró una reserva para este código.';
+      return next;
+      continue;
+    end if;
+
+    reservation_id := v_reservation.id;
+
+    select *
+    into v_log
+    from public.attendance_logs l
+    where l.reservation_id = v_reservation.id;
+
+    if found then
+      if v_log.device_id = p_device_id then
+        outcome := 'already_synced';
+        message := 'El escaneo ya estaba sincronizado.';
+      else
+        outcome := 'conflict';
+        message := 'La reserva ya fue validada en otro dispositivo.';
+        conflict_scanned_at := v_log.scanned_at;
+        conflict_device_id := v_log.device_id;
+      end if;
+      return next;
+      continue;
+    end if;
+
+    if v_reservation.status not in ('confirmed', 'no_show') then
+      outcome := 'rejected';
+      message := format('La reserva está en estado "%s" y no puede registrarse asistencia.', public.reservation_status_label(v_reservation.status));
+      return next;
+      continue;
+    end if;
+
+    insert into public.attendance_logs (reservation_id, scanned_by, scanned_at, device_id, synced_at)
+    values (v_reservation.id, auth.uid(), v_scanned_at, p_device_id, now());
+
+    update public.reservations
+    set status = 'checked_in',
+        updated_at = now()
+    where id = v_reservation.id;
+
+    outcome := 'synced';
+    message := 'Asistencia registrada.';
+    return next;
+  end loop;
+end;
+$$;
+
+comment on function public.sync_offline_scans(text, jsonb) is 'Registra los escaneos hechos sin conexión y reporta los que otro dispositivo validó primero.';
+
+revoke execute on function public.sync_offline_scans(text, jsonb) from public, anon;
+grant execute on function public.sync_offline_scans(text, jsonb) to authenticated;
@@ -0,0 +1,387 @@
+-- migration: screening_scan_window
+-- purpose: tie every qr scan to the screening at the door. the scanner names the screening it is
+-- admitting, tickets for another screening are refused, and entry is only allowed from doors opening
+-- (minutes before the start) until the late entry limit (minutes after the start).
+-- affected: public.cinema_settings (doors_open_minutes, late_entry_minutes), public.scan_window_message (new),
+-- public.validate_reservation_qr (p_screening_id argument), public.offline_scan_manifest (entry window
+-- columns), public.sync_offline_scans (screening and window checks).
+-- notes: validate_reservation_qr keeps working without p_screening_id, but the time window applies to
+-- every scan.
+
+-- step 1: entry window settings.
+alter table public.cinema_settings
+  add column if not exists doors_open_minutes integer not null default 30
+    check (doors_open_minutes between 0 and 240),
+  add column if not exists late_entry_minutes integer not null default 30
+    check (late_entry_minutes between 0 and 240);
+
+comment on column public.cinema_settings.doors_open_minutes is 'Minutos antes del inicio en que se empieza a validar la entrada.';
+comment on column public.cinema_settings.late_entry_minutes is 'Minutos después del inicio en que todavía se admite la entrada.';
+
+-- step 2: null when p_at falls inside the entry window of a screening starting at p_starts_at,
+-- otherwise the message shown to the scanner.
+create or replace function public.scan_window_message(
+  p_starts_at timestamp with time zone,
+  p_at timestamp with time zone default now()
+)
+returns text
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_doors_open integer;
+  v_late_entry integer;
+begin
+  select coalesce(max(doors_open_minutes), 30), coalesce(max(late_entry_minutes), 30)
+  into v_doors_open, v_late_entry
+  from public.cinema_settings;
+
+  if p_at < p_starts_at - make_interval(mins => v_doors_open) then
+    return format(
+      'Demasiado pronto: la entrada abre a las %s.',
+      to_char((p_starts_at - make_interval(mins => v_doors_open)) at time zone 'America/Guayaquil', 'HH24:MI')
+    );
+  end if;
+
+  if p_at > p_starts_at + make_interval(mins => v_late_entry) then
+    return format(
+      'Demasiado tarde: la entrada cerró a las %s.',
+      to_char((p_starts_at + make_interval(mins => v_late_entry)) at time zone 'America/Guayaquil', 'HH24:MI')
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+comment on function public.scan_window_message(timestamp with time zone, timestamp with time zone) is 'Mensaje de entrada fuera de horario, o null si el escaneo está dentro de la ventana de ingreso.';
+
+-- step 3: validation scoped to the screening at the door. the two argument version is replaced so
+-- existing callers resolve to this one through the default.
+drop function if exists public.validate_reservation_qr(text, uuid);
+
+create or replace function public.validate_reservation_qr(
+  p_token text,
+  p_scanner uuid default null,
+  p_screening_id uuid default null
+)
+returns public.qr_validation_result
+language plpgsql
+security definer
+set search_path = public, auth
+as $$
+declare
+  v_reservation public.reservations%rowtype;
+  v_screening public.screenings%rowtype;
+  v_movie_title text;
+  v_window_message text;
+  v_result public.qr_validation_result;
+begin
+  if not public.has_role('admin', 'staff') then
+    v_result := (null, null, 'cancelled', 'Solo personal autorizado puede validar códigos.', false, false);
+    return v_result;
+  end if;
+
+  if coalesce(trim(p_token), '') = '' then
+    v_result := (null, null, 'cancelled', 'Código QR inválido.', false, false);
+    return v_result;
+  end if;
+
+  select *
+  into v_reservation
+  from public.reservations
+  where qr_token = p_token;
+
+  if not found then
+    v_result := (null, null, 'cancelled', 'No se encontró una reserva para este código.', false, false);
+    return v_result;
+  end if;
+
+  if v_reservation.status = 'cancelled' then
+    v_result := (
+      v_reservation.id,
+      v_reservation.screening_id,
+      v_reservation.status,
+      'La reserva está cancelada y no puede registrarse asistencia.',
+      false,
+      false
+    );
+    return v_result;
+  end if;
+
+  select *
+  into v_screening
+  from public.screenings
+  where id = v_reservation.screening_id;
+
+  if p_screening_id is not null and v_reservation.screening_id <> p_screening_id then
+    select title into v_movie_title from public.movies where id = v_screening.movie_id;
+
+    v_result := (
+      v_reservation.id,
+      v_reservation.screening_id,
+      v_reservation.status,
+      format(
+        'Función equivocada: la entrada es para %s el %s.',
+        coalesce(v_movie_title, 'otra película'),
+        to_char(v_screening.starts_at at time zone 'America/Guayaquil', 'DD/MM HH24:MI')
+      ),
+      false,
+      false
+    );
+    return v_result;
+  end if;
+
+  if exists (
+    select 1
+    from public.attendance_logs
+    where reservation_id = v_reservation.id
+  ) then
+    v_result := (
+      v_reservation.id,
+      v_reservation.screening_id,
+      v_reservation.status,
+      'Esta reserva ya fue validada previamente.',
+      true,
+      false
+    );
+    return v_result;
+  end if;
+
+  v_window_message := public.scan_window_message(v_screening.starts_at);
+
+  if v_window_message is not null then
+    v_result := (v_reservation.id, v_reservation.screening_id, v_reservation.status, v_window_message, false, false);
+    return v_result;
+  end if;
+
+  -- the scan runs as a trusted function, so it checks the transition table rules itself.
+  if v_reservation.status not in ('confirmed', 'no_show') then
+    v_result := (
+      v_reservation.id,
+      v_reservation.screening_id,
+      v_reservation.status,
+      format('La reserva está en estado "%s" y no puede registrarse asistencia.', public.reservation_status_label(v_reservation.status)),
+      false,
+      false
+    );
+    return v_result;
+  end if;
+
+  insert into public.attendance_logs (reservation_id, scanned_by)
+  values (v_reservation.id, p_scanner);
+
+  update public.reservations
+  set status = 'checked_in',
+      updated_at = now()
+  where id = v_reservation.id;
+
+  select *
+  into v_reservation
+  from public.reservations
+  where id = v_reservation.id;
+
+  v_result := (
+    v_reservation.id,
+    v_reservation.screening_id,
+    v_reservation.status,
+    'Asistencia registrada correctamente.',
+    false,
+    true
+  );
+  return v_result;
+end;
+$$;
+
+comment on function public.validate_reservation_qr(text, uuid, uuid) is 'Valida un código QR de reserva para la función indicada, registra asistencia y devuelve el resultado de la operación.';
+
+revoke execute on function public.validate_reservation_qr(text, uuid, uuid) from public, anon;
+grant execute on function public.validate_reservation_qr(text, uuid, uuid) to authenticated;
+
+-- step 4: the manifest carries each screening's entry window so devices can apply it offline.
+drop function if exists public.offline_scan_manifest(timestamp with time zone, timestamp with time zone);
+
+create or replace function public.offline_scan_manifest(
+  p_from timestamp with time zone,
+  p_to timestamp with time zone
+)
+returns table (
+  reservation_id uuid,
+  screening_id uuid,
+  qr_token text,
+  status text,
+  seat_label text,
+  attendee text,
+  movie_title text,
+  starts_at timestamp with time zone,
+  doors_open_at timestamp with time zone,
+  entry_closes_at timestamp with time zone,
+  checked_in_at timestamp with time zone
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_doors_open integer;
+  v_late_entry integer;
+begin
+  if not public.has_role('admin', 'staff') then
+    raise exception 'Solo personal autorizado puede descargar los códigos.'
+      using errcode = '42501';
+  end if;
+
+  select coalesce(max(c.doors_open_minutes), 30), coalesce(max(c.late_entry_minutes), 30)
+  into v_doors_open, v_late_entry
+  from public.cinema_settings c;
+
+  return query
+  select
+    r.id,
+    r.screening_id,
+    r.qr_token,
+    r.status::text,
+    r.seat_label,
+    coalesce(nullif(trim(concat_ws(' ', p.first_name, p.last_name)), ''), p.email, left(r.user_id::text, 8)),
+    m.title,
+    s.starts_at,
+    s.starts_at - make_interval(mins => v_doors_open),
+    s.starts_at + make_interval(mins => v_late_entry),
+    a.scanned_at
+  from public.reservations r
+  join public.screenings s on s.id = r.screening_id
+  join public.movies m on m.id = s.movie_id
+  left join public.profiles p on p.user_id = r.user_id
+  left join public.attendance_logs a on a.reservation_id = r.id
+  where s.starts_at >= p_from
+    and s.starts_at < p_to
+    and s.cancelled_at is null
+    and s.deleted_at is null
+    and r.deleted_at is null
+    and r.status <> 'pending'
+  order by s.starts_at, r.seat_label;
+end;
+$$;
+
+comment on function public.offline_scan_manifest(timestamp with time zone, timestamp with time zone) is 'Reservas de las funciones del intervalo, con su ventana de ingreso, para validar códigos QR sin conexión.';
+
+revoke execute on function public.offline_scan_manifest(timestamp with time zone, timestamp with time zone) from public, anon;
+grant execute on function public.offline_scan_manifest(timestamp with time zone, timestamp with time zone) to authenticated;
+
+-- step 5: queued scans now carry the screening the device was admitting ("screening_id") and are held
+-- to the same screening and window rules, using the time of the scan.
+create or replace function public.sync_offline_scans(p_device_id text, p_scans jsonb)
+returns table (
+  local_id text,
+  reservation_id uuid,
+  outcome text,
+  message text,
+  conflict_scanned_at timestamp with time zone,
+  conflict_device_id text
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scan jsonb;
+  v_reservation public.reservations%rowtype;
+  v_log public.attendance_logs%rowtype;
+  v_scanned_at timestamp with time zone;
+  v_starts_at timestamp with time zone;
+  v_window_message text;
+begin
+  if not public.has_role('admin', 'staff') then
+    raise exception 'Solo personal autorizado puede sincronizar escaneos.'
+      using errcode = '42501';
+  end if;
+
+  if coalesce(trim(p_device_id), '') = '' then
+    raise exception 'Falta el identificador del dispositivo.'
+      using errcode = '22023';
+  end if;
+
+  for v_scan in
+    select value from jsonb_array_elements(coalesce(p_scans, '[]'::jsonb))
+  loop
+    local_id := v_scan ->> 'local_id';
+    reservation_id := null;
+    conflict_scanned_at := null;
+    conflict_device_id := null;
+    -- a device clock running ahead must not record attendance in the future.
+    v_scanned_at := least(coalesce((v_scan ->> 'scanned_at')::timestamp with time zone, now()), now());
+
+    select *
+    into v_reservation
+    from public.reservations r
+    where r.qr_token = v_scan ->> 'token'
+      and r.deleted_at is null;
+
+    if not found then
+      outcome := 'rejected';
+      message := 'No se encontró una reserva para este código.';
+      return next;
+      continue;
+    end if;
+
+    reservation_id := v_reservation.id;
+
+    if v_scan ? 'screening_id' and v_reservation.screening_id <> (v_scan ->> 'screening_id')::uuid then
+      outcome := 'rejected';
+      message := 'Función equivocada: la entrada es para otra función.';
+      return next;
+      continue;
+    end if;
+
+    select *
+    into v_log
+    from public.attendance_logs l
+    where l.reservation_id = v_reservation.id;
+
+    if found then
+      if v_log.device_id = p_device_id then
+        outcome := 'already_synced';
+        message := 'El escaneo ya estaba sincronizado.';
+      else
+        outcome := 'conflict';
+        message := 'La reserva ya fue validada en otro dispositivo.';
+        conflict_scanned_at := v_log.scanned_at;
+        conflict_device_id := v_log.device_id;
+      end if;
+      return next;
+      continue;
+    end if;
+
+    select s.starts_at into v_starts_at from public.screenings s where s.id = v_reservation.screening_id;
+    v_window_message := public.scan_window_message(v_starts_at, v_scanned_at);
+
+    if v_window_message is not null then
+      outcome := 'rejected';
+      message := v_window_message;
+      return next;
+      continue;
+    end if;
+
+    if v_reservation.status not in ('confirmed', 'no_show') then
+      outcome := 'rejected';
+      message := format('La reserva está en estado "%s" y no puede registrarse asistencia.', public.reservation_status_label(v_reservation.status));
+      return next;
+      continue;
+    end if;
+
+    insert into public.attendance_logs (reservation_id, scanned_by, scanned_at, device_id, synced_at)
+    values (v_reservation.id, auth.uid(), v_scanned_at, p_device_id, now());
+
+    update public.reservations
+    set status = 'checked_in',
+        updated_at = now()
+    where id = v_reservation.id;
+
+    outcome := 'synced';
+    message := 'Asistencia registrada.';
+    return next;
+  end loop;
+end;
+$$;
@@ -0,0 +1,519 @@
+-- migration: signed_qr_payloads
+-- purpose: replace the static qr_token in ticket qr codes with short-lived signed payloads. the student's
+-- ticket asks the server for a fresh code every minute; the scanner only accepts codes whose hmac
+-- signature is valid and whose timestamp is recent, so a shared screenshot stops working within
+-- a couple of minutes.
+-- affected: private.qr_signing_secret (new), private.qr_screening_key, private.qr_signature,
+-- private.resolve_qr_payload (new), public.issue_reservation_qr (new), public.validate_reservation_qr,
+-- public.offline_scan_manifest (signing_key replaces qr_token), public.sync_offline_scans.
+-- notes: payload format is 'CU1.<reservation_id>.<screening_id>.<issued_at epoch seconds>.<signature>'.
+-- the signature is the first 32 hex characters of hmac-sha256 over '<reservation_id>.<screening_id>.<issued_at>'
+-- keyed with the screening key, itself hmac-sha256 of the screening id with the server secret. offline
+-- scanners receive only the keys of the screenings in their manifest. raw qr_token values are no longer
+-- accepted at the door; the column stays as the reservation's reference code.
+
+create schema if not exists private;
+
+revoke all on schema private from public, anon, authenticated;
+
+-- step 1: the server secret. single row, generated once, never exposed through the api.
+create table if not exists private.qr_signing_secret (
+  id boolean primary key default true check (id),
+  secret bytea not null default extensions.gen_random_bytes(32),
+  created_at timestamp with time zone not null default now()
+);
+
+comment on table private.qr_signing_secret is 'Secreto del servidor para firmar los códigos QR de las entradas (una sola fila).';
+
+insert into private.qr_signing_secret (id) values (true) on conflict (id) do nothing;
+
+-- step 2: signing helpers.
+create or replace function private.qr_screening_key(p_screening_id uuid)
+returns bytea
+language sql
+stable
+set search_path = private, extensions
+as $$
+  select hmac(convert_to(p_screening_id::text, 'utf8'), s.secret, 'sha256')
+  from private.qr_signing_secret s;
+$$;
+
+create or replace function private.qr_signature(
+  p_reservation_id uuid,
+  p_screening_id uuid,
+  p_issued_at bigint
+)
+returns text
+language sql
+stable
+set search_path = private, extensions
+as $$
+  select left(
+    encode(
+      hmac(
+        convert_to(format('%s.%s.%s', p_reservation_id, p_screening_id, p_issued_at), 'utf8'),
+        private.qr_screening_key(p_screening_id),
+        'sha256'
+      ),
+      'hex'
+    ),
+    32
+  );
+$$;
+
+-- codes rotate every 60 seconds and are accepted for 90, plus 30 seconds of clock skew between the
+-- student's phone and the server. the client mirrors these numbers in src/lib/qr-payload.ts.
+create or replace function private.resolve_qr_payload(p_payload text, p_at timestamp with time zone default now())
+returns table (reservation_id uuid, screening_id uuid, message text)
+language plpgsql
+stable
+set search_path = private, public
+as $$
+declare
+  v_parts text[] := string_to_array(trim(coalesce(p_payload, '')), '.');
+  v_issued_at bigint;
+begin
+  if cardinality(v_parts) <> 5
+    or v_parts[1] <> 'CU1'
+    or v_parts[2] !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    or v_parts[3] !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    or v_parts[4] !~ '^[0-9]{1,12}$'
+  then
+    return query select null::uuid, null::uuid, 'Código QR inválido. Pide que abran la entrada en la aplicación.'::text;
+    return;
+  end if;
+
+  v_issued_at := v_parts[4]::bigint;
+
+  if lower(v_parts[5]) <> private.qr_signature(v_parts[2]::uuid, v_parts[3]::uuid, v_issued_at) then
+    return query select null::uuid, null::uuid, 'La firma del código QR no es válida.'::text;
+    return;
+  end if;
+
+  if to_timestamp(v_issued_at) > p_at + interval '30 seconds' then
+    return query select null::uuid, null::uuid, 'El código QR tiene una hora inválida.'::text;
+    return;
+  end if;
+
+  if to_timestamp(v_issued_at) < p_at - interval '120 seconds' then
+    return query select v_parts[2]::uuid, v_parts[3]::uuid, 'El código QR expiró. Pide que muestren el código actualizado.'::text;
+    return;
+  end if;
+
+  return query select v_parts[2]::uuid, v_parts[3]::uuid, null::text;
+end;
+$$;
+
+comment on function private.resolve_qr_payload(text, timestamp with time zone) is 'Verifica firma y vigencia de un código QR; devuelve la reserva o el mensaje de rechazo.';
+
+-- step 3: fresh payload for the student's ticket view.
+create or replace function public.issue_reservation_qr(p_reservation_id uuid)
+returns table (payload text, expires_at timestamp with time zone)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reservation public.reservations%rowtype;
+  v_issued_at bigint := floor(extract(epoch from now()))::bigint;
+begin
+  select *
+  into v_reservation
+  from public.reservations r
+  where r.id = p_reservation_id
+    and r.deleted_at is null;
+
+  if not found or v_reservation.user_id is distinct from auth.uid() then
+    raise exception 'No se encontró la reserva.'
+      using errcode = 'P0002';
+  end if;
+
+  if v_reservation.status not in ('confirmed', 'no_show') then
+    raise exception 'La reserva está en estado "%" y no tiene código de ingreso.', public.reservation_status_label(v_reservation.status)
+      using errcode = '22023';
+  end if;
+
+  return query
+  select
+    format(
+      'CU1.%s.%s.%s.%s',
+      v_reservation.id,
+      v_reservation.screening_id,
+      v_issued_at,
+      private.qr_signature(v_reservation.id, v_reservation.screening_id, v_issued_at)
+    ),
+    to_timestamp(v_issued_at) + interval '90 seconds';
+end;
+$$;
+
+comment on function public.issue_reservation_qr(uuid) is 'Genera el código QR firmado y de corta duración de una reserva del usuario.';
+
+revoke execute on function public.issue_reservation_qr(uuid) from public, anon;
+grant execute on function public.issue_reservation_qr(uuid) to authenticated;
+
+-- step 4: the door accepts signed payloads only. everything after the lookup is unchanged.
+create or replace function public.validate_reservation_qr(
+  p_token text,
+  p_scanner uuid default null,
+  p_screening_id uuid default null
+)
+returns public.qr_validation_result
+language plpgsql
+security definer
+set search_path = public, auth
+as $$
+declare
+  v_payload record;
+  v_reservation public.reservations%rowtype;
+  v_screening public.screenings%rowtype;
+  v_movie_title text;
+  v_window_message text;
+  v_result public.qr_validation_result;
+begin
+  if not public.has_role('admin', 'staff') then
+    v_result := (null, null, 'cancelled', 'Solo personal autorizado puede validar códigos.', false, false);
+    return v_result;
+  end if;
+
+  if coalesce(trim(p_token), '') = '' then
+    v_result := (null, null, 'cancelled', 'Código QR inválido.', false, false);
+    return v_result;
+  end if;
+
+  select * into v_payload from private.resolve_qr_payload(p_token);
+
+  if v_payload.message is not null then
+    v_result := (v_payload.reservation_id, v_payload.screening_id, 'cancelled', v_payload.message, false, false);
+    return v_result;
+  end if;
+
+  select *
+  into v_reservation
+  from public.reservations
+  where id = v_payload.reservation_id;
+
+  if not found then
+    v_result := (null, null, 'cancelled', 'No se encontró una reserva para este código.', false, false);
+    return v_result;
+  end if;
+
+  if v_reservation.deleted_at is not null then
+    v_result := (
+      v_reservation.id,
+      v_reservation.screening_id,
+      v_reservation.status,
+      'La reserva fue eliminada y no puede registrarse asistencia.',
+      false,
+      false
+    );
+    return v_result;
+  end if;
+
+  if v_reservation.screening_id <> v_payload.screening_id then
+    v_result := (
+      v_reservation.id,
+      v_reservation.screening_id,
+      v_reservation.status,
+      'El código QR es de una función anterior de esta reserva. Pide que muestren el código actualizado.',
+      false,
+      false
+    );
+    return v_result;
+  end if;
+
+  if v_reservation.status = 'cancelled' then
+    v_result := (
+      v_reservation.id,
+      v_reservation.screening_id,
+      v_reservation.status,
+      'La reserva está cancelada y no puede registrarse asistencia.',
+      false,
+      false
+    );
+    return v_result;
+  end if;
+
+  select *
+  into v_screening
+  from public.screenings
+  where id = v_reservation.screening_id;
+
+  if p_screening_id is not null and v_reservation.screening_id <> p_screening_id then
+    select title into v_movie_title from public.movies where id = v_screening.movie_id;
+
+    v_result := (
+      v_reservation.id,
+      v_reservation.screening_id,
+      v_reservation.status,
+      format(
+        'Función equivocada: la entrada es para %s el %s.',
+        coalesce(v_movie_title, 'otra película'),
+        to_char(v_screening.starts_at at time zone 'America/Guayaquil', 'DD/MM HH24:MI')
+      ),
+      false,
+      false
+    );
+    return v_result;
+  end if;
+
+  if exists (
+    select 1
+    from public.attendance_logs
+    where reservation_id = v_reservation.id
+  ) then
+    v_result := (
+      v_reservation.id,
+      v_reservation.screening_id,
+      v_reservation.status,
+      'Esta reserva ya fue validada previamente.',
+      true,
+      false
+    );
+    return v_result;
+  end if;
+
+  v_window_message := public.scan_window_message(v_screening.starts_at);
+
+  if v_window_message is not null then
+    v_result := (v_reservation.id, v_reservation.screening_id, v_reservation.status, v_window_message, false, false);
+    return v_result;
+  end if;
+
+  -- the scan runs as a trusted function, so it checks the transition table rules itself.
+  if v_reservation.status not in ('confirmed', 'no_show') then
+    v_result := (
+      v_reservation.id,
+      v_reservation.screening_id,
+      v_reservation.status,
+      format('La reserva está en estado "%s" y no puede registrarse asistencia.', public.reservation_status_label(v_reservation.status)),
+      false,
+      false
+    );
+    return v_result;
+  end if;
+
+  insert into public.attendance_logs (reservation_id, scanned_by)
+  values (v_reservation.id, p_scanner);
+
+  update public.reservations
+  set status = 'checked_in',
+      updated_at = now()
+  where id = v_reservation.id;
+
+  select *
+  into v_reservation
+  from public.reservations
+  where id = v_reservation.id;
+
+  v_result := (
+    v_reservation.id,
+    v_reservation.screening_id,
+    v_reservation.status,
+    'Asistencia registrada correctamente.',
+    false,
+    true
+  );
+  return v_result;
+end;
+$$;
+
+-- step 5: offline scanners get each screening's signing key instead of the raw tokens, so they can
+-- check signatures without holding the server secret.
+drop function if exists public.offline_scan_manifest(timestamp with time zone, timestamp with time zone);
+
+create or replace function public.offline_scan_manifest(
+  p_from timestamp with time zone,
+  p_to timestamp with time zone
+)
+returns table (
+  reservation_id uuid,
+  screening_id uuid,
+  signing_key text,
+  status text,
+  seat_label text,
+  attendee text,
+  movie_title text,
+  starts_at timestamp with time zone,
+  doors_open_at timestamp with time zone,
+  entry_closes_at timestamp with time zone,
+  checked_in_at timestamp with time zone
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_doors_open integer;
+  v_late_entry integer;
+begin
+  if not public.has_role('admin', 'staff') then
+    raise exception 'Solo personal autorizado puede descargar los códigos.'
+      using errcode = '42501';
+  end if;
+
+  select coalesce(max(c.doors_open_minutes), 30), coalesce(max(c.late_entry_minutes), 30)
+  into v_doors_open, v_late_entry
+  from public.cinema_settings c;
+
+  return query
+  select
+    r.id,
+    r.screening_id,
+    encode(private.qr_screening_key(r.screening_id), 'hex'),
+    r.status::text,
+    r.seat_label,
+    coalesce(nullif(trim(concat_ws(' ', p.first_name, p.last_name)), ''), p.email, left(r.user_id::text, 8)),
+    m.title,
+    s.starts_at,
+    s.starts_at - make_interval(mins => v_doors_open),
+    s.starts_at + make_interval(mins => v_late_entry),
+    a.scanned_at
+  from public.reservations r
+  join public.screenings s on s.id = r.screening_id
+  join public.movies m on m.id = s.movie_id
+  left join public.profiles p on p.user_id = r.user_id
+  left join public.attendance_logs a on a.reservation_id = r.id
+  where s.starts_at >= p_from
+    and s.starts_at < p_to
+    and s.cancelled_at is null
+    and s.deleted_at is null
+    and r.deleted_at is null
+    and r.status <> 'pending'
+  order by s.starts_at, r.seat_label;
+end;
+$$;
+
+comment on function public.offline_scan_manifest(timestamp with time zone, timestamp with time zone) is 'Reservas de las funciones del intervalo, con su ventana de ingreso y clave de firma, para validar códigos QR sin conexión.';
+
+revoke execute on function public.offline_scan_manifest(timestamp with time zone, timestamp with time zone) from public, anon;
+grant execute on function public.offline_scan_manifest(timestamp with time zone, timestamp with time zone) to authenticated;
+
+-- step 6: queued scans carry the scanned payload as "token"; signature and freshness are checked
+-- again here, against the time of the scan.
+create or replace function public.sync_offline_scans(p_device_id text, p_scans jsonb)
+returns table (
+  local_id text,
+  reservation_id uuid,
+  outcome text,
+  message text,
+  conflict_scanned_at timestamp with time zone,
+  conflict_device_id text
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scan jsonb;
+  v_payload record;
+  v_reservation public.reservations%rowtype;
+  v_log public.attendance_logs%rowtype;
+  v_scanned_at timestamp with time zone;
+  v_starts_at timestamp with time zone;
+  v_window_message text;
+begin
+  if not public.has_role('admin', 'staff') then
+    raise exception 'Solo personal autorizado puede sincronizar escaneos.'
+      using errcode = '42501';
+  end if;
+
+  if coalesce(trim(p_device_id), '') = '' then
+    raise exception 'Falta el identificador del dispositivo.'
+      using errcode = '22023';
+  end if;
+
+  for v_scan in
+    select value from jsonb_array_elements(coalesce(p_scans, '[]'::jsonb))
+  loop
+    local_id := v_scan ->> 'local_id';
+    reservation_id := null;
+    conflict_scanned_at := null;
+    conflict_device_id := null;
+    -- a device clock running ahead must not record attendance in the future.
+    v_scanned_at := least(coalesce((v_scan ->> 'scanned_at')::timestamp with time zone, now()), now());
+
+    select * into v_payload from private.resolve_qr_payload(v_scan ->> 'token', v_scanned_at);
+
+    if v_payload.message is not null then
+      reservation_id := v_payload.reservation_id;
+      outcome := 'rejected';
+      message := v_payload.message;
+      return next;
+      continue;
+    end if;
+
+    select *
+    into v_reservation
+    from public.reservations r
+    where r.id = v_payload.reservation_id
+      and r.deleted_at is null;
+
+    if not found then
+      outcome := 'rejected';
+      message := 'No se encontró una reserva para este código.';
+      return next;
+      continue;
+    end if;
+
+    reservation_id := v_reservation.id;
+
+    if v_reservation.screening_id <> v_payload.screening_id
+      or (v_scan ? 'screening_id' and v_reservation.screening_id <> (v_scan ->> 'screening_id')::uuid)
+    then
+      outcome := 'rejected';
+      message := 'Función equivocada: la entrada es para otra función.';
+      return next;
+      continue;
+    end if;
+
+    select *
+    into v_log
+    from public.attendance_logs l
+    where l.reservation_id = v_reservation.id;
+
+    if found then
+      if v_log.device_id = p_device_id then
+        outcome := 'already_synced';
+        message := 'El escaneo ya estaba sincronizado.';
+      else
+        outcome := 'conflict';
+        message := 'La reserva ya fue validada en otro dispositivo.';
+        conflict_scanned_at := v_log.scanned_at;
+        conflict_device_id := v_log.device_id;
+      end if;
+      return next;
+      continue;
+    end if;
+
+    select s.starts_at into v_starts_at from public.screenings s where s.id = v_reservation.screening_id;
+    v_window_message := public.scan_window_message(v_starts_at, v_scanned_at);
+
+    if v_window_message is not null then
+      outcome := 'rejected';
+      message := v_window_message;
+      return next;
+      continue;
+    end if;
+
+    if v_reservation.status not in ('confirmed', 'no_show') then
+      outcome := 'rejected';
+      message := format('La reserva está en estado "%s" y no puede registrarse asistencia.', public.reservation_status_label(v_reservation.status));
+      return next;
+      continue;
+    end if;
+
+    insert into public.attendance_logs (reservation_id, scanned_by, scanned_at, device_id, synced_at)
+    values (v_reservation.id, auth.uid(), v_scanned_at, p_device_id, now());
+
+    update public.reservations
+    set status = 'checked_in',
+        updated_at = now()
+    where id = v_reservation.id;
+
+    outcome := 'synced';
+    message := 'Asistencia registrada.';
+    return next;
+  end loop;
+end;
+$$;
@@ -0,0 +1,594 @@
+-- migration: scan_attempts
+-- purpose: keep a record of every qr scan at the door, not only the successful check-ins. failed codes,
+-- cancelled or trashed tickets and repeated scans of an already validated ticket are stored with their outcome,
+-- a fingerprint of the scanned code, the scanner and the device, and tickets scanned again and again
+-- (a sign of a shared ticket) are listed for the door staff.
+-- affected: public.scan_attempts (new), public.scan_attempt_alerts (new view),
+-- private.resolve_qr_payload (failure column), public.validate_reservation_qr, public.sync_offline_scans,
+-- public.log_offline_scan_attempts (new).
+-- notes: raw codes are never stored, only the first 16 hex characters of their sha-256.
+
+-- step 1: one row per scan attempt.
+create table if not exists public.scan_attempts (
+  id bigint generated always as identity primary key,
+  outcome text not null check (
+    outcome in (
+      'checked_in',
+      'already_scanned',
+      'invalid',
+      'bad_signature',
+      'expired',
+      'clock_skew',
+      'not_found',
+      'stale',
+      'cancelled',
+      'deleted',
+      'wrong_screening',
+      'too_early',
+      'too_late',
+      'not_admissible'
+    )
+  ),
+  message text not null,
+  token_fingerprint text not null,
+  reservation_id uuid references public.reservations (id) on delete set null,
+  screening_id uuid references public.screenings (id) on delete set null,
+  scanned_by uuid references public.profiles (user_id) on delete set null,
+  device_id text,
+  client_attempt_id text,
+  offline boolean not null default false,
+  attempted_at timestamp with time zone not null default now()
+);
+
+comment on table public.scan_attempts is 'Todos los intentos de escaneo de códigos QR en la entrada, exitosos o no.';
+comment on column public.scan_attempts.token_fingerprint is 'Primeros 16 caracteres hex del sha-256 del código leído; el código no se guarda.';
+comment on column public.scan_attempts.screening_id is 'Función que se estaba admitiendo en la puerta al escanear.';
+comment on column public.scan_attempts.device_id is 'Dispositivo del escaneo sin conexión; null en escaneos en línea.';
+comment on column public.scan_attempts.client_attempt_id is 'Identificador que el dispositivo asigna al intento sin conexión; evita registrarlo dos veces al reintentar.';
+
+alter table public.scan_attempts enable row level security;
+
+create index if not exists scan_attempts_attempted_at_idx on public.scan_attempts (attempted_at desc);
+create index if not exists scan_attempts_reservation_idx on public.scan_attempts (reservation_id, attempted_at desc);
+create index if not exists scan_attempts_fingerprint_idx on public.scan_attempts (token_fingerprint, attempted_at desc);
+create unique index if not exists scan_attempts_client_attempt_idx
+  on public.scan_attempts (device_id, client_attempt_id)
+  where client_attempt_id is not null;
+
+create policy "admins and staff can read scan attempts"
+  on public.scan_attempts
+  for select
+  to authenticated
+  using ((select public.has_role('admin', 'staff')));
+
+create or replace function public.scan_token_fingerprint(p_token text)
+returns text
+language sql
+immutable
+set search_path = public, extensions
+as $$
+  select left(encode(digest(convert_to(trim(coalesce(p_token, '')), 'utf8'), 'sha256'), 'hex'), 16);
+$$;
+
+-- step 2: tickets tried three or more times in the last day. signed codes rotate, so attempts are
+-- grouped by reservation when the code could be resolved and by fingerprint otherwise. it runs with the
+-- owner's privileges and filters to door staff itself.
+create or replace view public.scan_attempt_alerts as
+select
+  coalesce(a.reservation_id::text, a.token_fingerprint) as ticket_key,
+  a.reservation_id,
+  min(a.token_fingerprint) as token_fingerprint,
+  count(*) as attempt_count,
+  count(*) filter (where a.outcome <> 'checked_in') as failed_count,
+  count(distinct coalesce(a.device_id, a.scanned_by::text)) as scanner_count,
+  min(a.attempted_at) as first_attempt_at,
+  max(a.attempted_at) as last_attempt_at
+from public.scan_attempts a
+where a.attempted_at > now() - interval '1 day'
+  and public.has_role('admin', 'staff')
+group by 1, 2
+having count(*) >= 3
+  and count(*) filter (where a.outcome <> 'checked_in') > 0;
+
+comment on view public.scan_attempt_alerts is 'Entradas escaneadas tres o más veces en el último día: posible entrada compartida.';
+
+-- step 3: the payload check also says why it failed.
+drop function if exists private.resolve_qr_payload(text, timestamp with time zone);
+
+create or replace function private.resolve_qr_payload(p_payload text, p_at timestamp with time zone default now())
+returns table (reservation_id uuid, screening_id uuid, failure text, message text)
+language plpgsql
+stable
+set search_path = private, public
+as $$
+declare
+  v_parts text[] := string_to_array(trim(coalesce(p_payload, '')), '.');
+  v_issued_at bigint;
+begin
+  if cardinality(v_parts) <> 5
+    or v_parts[1] <> 'CU1'
+    or v_parts[2] !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    or v_parts[3] !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    or v_parts[4] !~ '^[0-9]{1,12}$'
+  then
+    return query select null::uuid, null::uuid, 'invalid'::text, 'Código QR inválido. Pide que abran la entrada en la aplicación.'::text;
+    return;
+  end if;
+
+  v_issued_at := v_parts[4]::bigint;
+
+  if lower(v_parts[5]) <> private.qr_signature(v_parts[2]::uuid, v_parts[3]::uuid, v_issued_at) then
+    return query select null::uuid, null::uuid, 'bad_signature'::text, 'La firma del código QR no es válida.'::text;
+    return;
+  end if;
+
+  -- a code stamped in the future points at a tampered or badly set clock, not at an old screenshot,
+  -- so it is kept out of the expired counts.
+  if to_timestamp(v_issued_at) > p_at + interval '30 seconds' then
+    return query select v_parts[2]::uuid, v_parts[3]::uuid, 'clock_skew'::text, 'El código QR tiene una hora inválida.'::text;
+    return;
+  end if;
+
+  if to_timestamp(v_issued_at) < p_at - interval '120 seconds' then
+    return query select v_parts[2]::uuid, v_parts[3]::uuid, 'expired'::text, 'El código QR expiró. Pide que muestren el código actualizado.'::text;
+    return;
+  end if;
+
+  return query select v_parts[2]::uuid, v_parts[3]::uuid, null::text, null::text;
+end;
+$$;
+
+comment on function private.resolve_qr_payload(text, timestamp with time zone) is 'Verifica firma y vigencia de un código QR; devuelve la reserva o el motivo y mensaje de rechazo.';
+
+-- step 4: every branch of the door check now ends in one place that records the attempt. the checks
+-- themselves are unchanged.
+create or replace function public.validate_reservation_qr(
+  p_token text,
+  p_scanner uuid default null,
+  p_screening_id uuid default null
+)
+returns public.qr_validation_result
+language plpgsql
+security definer
+set search_path = public, auth
+as $$
+declare
+  v_payload record;
+  v_reservation public.reservations%rowtype;
+  v_screening public.screenings%rowtype;
+  v_movie_title text;
+  v_window_message text;
+  v_outcome text;
+  v_result public.qr_validation_result;
+begin
+  if not public.has_role('admin', 'staff') then
+    v_result := (null, null, 'cancelled', 'Solo personal autorizado puede validar códigos.', false, false);
+    return v_result;
+  end if;
+
+  <<validation>>
+  begin
+    if coalesce(trim(p_token), '') = '' then
+      v_outcome := 'invalid';
+      v_result := (null, null, 'cancelled', 'Código QR inválido.', false, false);
+      exit validation;
+    end if;
+
+    select * into v_payload from private.resolve_qr_payload(p_token);
+
+    if v_payload.failure is not null then
+      v_outcome := v_payload.failure;
+      v_result := (v_payload.reservation_id, v_payload.screening_id, 'cancelled', v_payload.message, false, false);
+      exit validation;
+    end if;
+
+    select *
+    into v_reservation
+    from public.reservations
+    where id = v_payload.reservation_id;
+
+    if not found then
+      v_outcome := 'not_found';
+      v_result := (null, null, 'cancelled', 'No se encontró una reserva para este código.', false, false);
+      exit validation;
+    end if;
+
+    if v_reservation.deleted_at is not null then
+      v_outcome := 'deleted';
+      v_result := (
+        v_reservation.id,
+        v_reservation.screening_id,
+        v_reservation.status,
+        'La reserva fue eliminada y no puede registrarse asistencia.',
+        false,
+        false
+      );
+      exit validation;
+    end if;
+
+    if v_reservation.screening_id <> v_payload.screening_id then
+      v_outcome := 'stale';
+      v_result := (
+        v_reservation.id,
+        v_reservation.screening_id,
+        v_reservation.status,
+        'El código QR es de una función anterior de esta reserva. Pide que muestren el código actualizado.',
+        false,
+        false
+      );
+      exit validation;
+    end if;
+
+    if v_reservation.status = 'cancelled' then
+      v_outcome := 'cancelled';
+      v_result := (
+        v_reservation.id,
+        v_reservation.screening_id,
+        v_reservation.status,
+        'La reserva está cancelada y no puede registrarse asistencia.',
+        false,
+        false
+      );
+      exit validation;
+    end if;
+
+    select *
+    into v_screening
+    from public.screenings
+    where id = v_reservation.screening_id;
+
+    if p_screening_id is not null and v_reservation.screening_id <> p_screening_id then
+      select title into v_movie_title from public.movies where id = v_screening.movie_id;
+
+      v_outcome := 'wrong_screening';
+      v_result := (
+        v_reservation.id,
+        v_reservation.screening_id,
+        v_reservation.status,
+        format(
+          'Función equivocada: la entrada es para %s el %s.',
+          coalesce(v_movie_title, 'otra película'),
+          to_char(v_screening.starts_at at time zone 'America/Guayaquil', 'DD/MM HH24:MI')
+        ),
+        false,
+        false
+      );
+      exit validation;
+    end if;
+
+    if exists (
+      select 1
+      from public.attendance_logs
+      where reservation_id = v_reservation.id
+    ) then
+      v_outcome := 'already_scanned';
+      v_result := (
+        v_reservation.id,
+        v_reservation.screening_id,
+        v_reservation.status,
+        'Esta reserva ya fue validada previamente.',
+        true,
+        false
+      );
+      exit validation;
+    end if;
+
+    v_window_message := public.scan_window_message(v_screening.starts_at);
+
+    if v_window_message is not null then
+      v_outcome := case when now() < v_screening.starts_at then 'too_early' else 'too_late' end;
+      v_result := (v_reservation.id, v_reservation.screening_id, v_reservation.status, v_window_message, false, false);
+      exit validation;
+    end if;
+
+    -- the scan runs as a trusted function, so it checks the transition table rules itself.
+    if v_reservation.status not in ('confirmed', 'no_show') then
+      v_outcome := 'not_admissible';
+      v_result := (
+        v_reservation.id,
+        v_reservation.screening_id,
+        v_reservation.status,
+        format('La reserva está en estado "%s" y no puede registrarse asistencia.', public.reservation_status_label(v_reservation.status)),
+        false,
+        false
+      );
+      exit validation;
+    end if;
+
+    insert into public.attendance_logs (reservation_id, scanned_by)
+    values (v_reservation.id, p_scanner);
+
+    update public.reservations
+    set status = 'checked_in',
+        updated_at = now()
+    where id = v_reservation.id;
+
+    select *
+    into v_reservation
+    from public.reservations
+    where id = v_reservation.id;
+
+    v_outcome := 'checked_in';
+    v_result := (
+      v_reservation.id,
+      v_reservation.screening_id,
+      v_reservation.status,
+      'Asistencia registrada correctamente.',
+      false,
+      true
+    );
+  end;
+
+  insert into public.scan_attempts (outcome, message, token_fingerprint, reservation_id, screening_id, scanned_by)
+  values (
+    v_outcome,
+    v_result.message,
+    public.scan_token_fingerprint(p_token),
+    (select r.id from public.reservations r where r.id = v_result.reservation_id),
+    (select s.id from public.screenings s where s.id = p_screening_id),
+    (select p.user_id from public.profiles p where p.user_id = auth.uid())
+  );
+
+  return v_result;
+end;
+$$;
+
+-- step 5: synced offline scans are recorded as attempts too, at the time of the scan. a retried upload
+-- of the same scan is not recorded twice.
+create or replace function public.sync_offline_scans(p_device_id text, p_scans jsonb)
+returns table (
+  local_id text,
+  reservation_id uuid,
+  outcome text,
+  message text,
+  conflict_scanned_at timestamp with time zone,
+  conflict_device_id text
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scan jsonb;
+  v_payload record;
+  v_reservation public.reservations%rowtype;
+  v_log public.attendance_logs%rowtype;
+  v_scanned_at timestamp with time zone;
+  v_starts_at timestamp with time zone;
+  v_window_message text;
+  v_attempt_outcome text;
+begin
+  if not public.has_role('admin', 'staff') then
+    raise exception 'Solo personal autorizado puede sincronizar escaneos.'
+      using errcode = '42501';
+  end if;
+
+  if coalesce(trim(p_device_id), '') = '' then
+    raise exception 'Falta el identificador del dispositivo.'
+      using errcode = '22023';
+  end if;
+
+  for v_scan in
+    select value from jsonb_array_elements(coalesce(p_scans, '[]'::jsonb))
+  loop
+    local_id := v_scan ->> 'local_id';
+    reservation_id := null;
+    conflict_scanned_at := null;
+    conflict_device_id := null;
+    v_attempt_outcome := null;
+    -- a device clock running ahead must not record attendance in the future.
+    v_scanned_at := least(coalesce((v_scan ->> 'scanned_at')::timestamp with time zone, now()), now());
+
+    <<scan>>
+    begin
+      select * into v_payload from private.resolve_qr_payload(v_scan ->> 'token', v_scanned_at);
+
+      if v_payload.failure is not null then
+        v_attempt_outcome := v_payload.failure;
+        outcome := 'rejected';
+        message := v_payload.message;
+        exit scan;
+      end if;
+
+      select *
+      into v_reservation
+      from public.reservations r
+      where r.id = v_payload.reservation_id;
+
+      if not found then
+        v_attempt_outcome := 'not_found';
+        outcome := 'rejected';
+        message := 'No se encontró una reserva para este código.';
+        exit scan;
+      end if;
+
+      if v_reservation.deleted_at is not null then
+        v_attempt_outcome := 'deleted';
+        outcome := 'rejected';
+        message := 'La reserva fue eliminada y no puede registrarse asistencia.';
+        exit scan;
+      end if;
+
+      reservation_id := v_reservation.id;
+
+      if v_reservation.screening_id <> v_payload.screening_id
+        or (v_scan ? 'screening_id' and v_reservation.screening_id <> (v_scan ->> 'screening_id')::uuid)
+      then
+        v_attempt_outcome := 'wrong_screening';
+        outcome := 'rejected';
+        message := 'Función equivocada: la entrada es para otra función.';
+        exit scan;
+      end if;
+
+      select *
+      into v_log
+      from public.attendance_logs l
+      where l.reservation_id = v_reservation.id;
+
+      if found then
+        if v_log.device_id = p_device_id then
+          outcome := 'already_synced';
+          message := 'El escaneo ya estaba sincronizado.';
+        else
+          v_attempt_outcome := 'already_scanned';
+          outcome := 'conflict';
+          message := 'La reserva ya fue validada en otro dispositivo.';
+          conflict_scanned_at := v_log.scanned_at;
+          conflict_device_id := v_log.device_id;
+        end if;
+        exit scan;
+      end if;
+
+      select s.starts_at into v_starts_at from public.screenings s where s.id = v_reservation.screening_id;
+      v_window_message := public.scan_window_message(v_starts_at, v_scanned_at);
+
+      if v_window_message is not null then
+        v_attempt_outcome := case when v_scanned_at < v_starts_at then 'too_early' else 'too_late' end;
+        outcome := 'rejected';
+        message := v_window_message;
+        exit scan;
+      end if;
+
+      if v_reservation.status not in ('confirmed', 'no_show') then
+        v_attempt_outcome := case when v_reservation.status = 'cancelled' then 'cancelled' else 'not_admissible' end;
+        outcome := 'rejected';
+        message := format('La reserva está en estado "%s" y no puede registrarse asistencia.', public.reservation_status_label(v_reservation.status));
+        exit scan;
+      end if;
+
+      insert into public.attendance_logs (reservation_id, scanned_by, scanned_at, device_id, synced_at)
+      values (v_reservation.id, auth.uid(), v_scanned_at, p_device_id, now());
+
+      update public.reservations
+      set status = 'checked_in',
+          updated_at = now()
+      where id = v_reservation.id;
+
+      v_attempt_outcome := 'checked_in';
+      outcome := 'synced';
+      message := 'Asistencia registrada.';
+    end;
+
+    if v_attempt_outcome is not null then
+      insert into public.scan_attempts (
+        outcome, message, token_fingerprint, reservation_id, screening_id, scanned_by, device_id, offline, attempted_at
+      )
+      values (
+        v_attempt_outcome,
+        message,
+        public.scan_token_fingerprint(v_scan ->> 'token'),
+        (select r.id from public.reservations r where r.id = reservation_id),
+        (select s.id from public.screenings s where s.id = (v_scan ->> 'screening_id')::uuid),
+        (select p.user_id from public.profiles p where p.user_id = auth.uid()),
+        p_device_id,
+        true,
+        v_scanned_at
+      );
+    end if;
+
+    return next;
+  end loop;
+end;
+$$;
+
+-- step 6: scans a device refused while offline never reach sync_offline_scans, so they are uploaded
+-- separately. p_attempts is an array of
+-- { "attempt_id": text, "token": text, "outcome": text, "message": text, "screening_id": uuid,
+-- "reservation_id": uuid, "attempted_at": timestamptz }.
+-- elements are checked one by one: an outcome the table does not know is stored as 'invalid' and an
+-- unreadable time as now(), so one odd element cannot reject the rest of the batch. attempt_id is the
+-- device's own id for the attempt: a sync retried after a partial failure skips the ones already
+-- stored, and only new rows are counted.
+create or replace function public.log_offline_scan_attempts(p_device_id text, p_attempts jsonb)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_attempt jsonb;
+  v_outcome text;
+  v_attempted_at timestamp with time zone;
+  v_count integer := 0;
+begin
+  if not public.has_role('admin', 'staff') then
+    raise exception 'Solo personal autorizado puede sincronizar escaneos.'
+      using errcode = '42501';
+  end if;
+
+  if coalesce(trim(p_device_id), '') = '' then
+    raise exception 'Falta el identificador del dispositivo.'
+      using errcode = '22023';
+  end if;
+
+  for v_attempt in
+    select a.value
+    from jsonb_array_elements(coalesce(p_attempts, '[]'::jsonb)) as a
+  loop
+    -- same list as the scan_attempts.outcome check.
+    v_outcome := v_attempt ->> 'outcome';
+    if v_outcome is null or v_outcome not in (
+      'checked_in',
+      'already_scanned',
+      'invalid',
+      'bad_signature',
+      'expired',
+      'clock_skew',
+      'not_found',
+      'stale',
+      'cancelled',
+      'deleted',
+      'wrong_screening',
+      'too_early',
+      'too_late',
+      'not_admissible'
+    ) then
+      v_outcome := 'invalid';
+    end if;
+
+    begin
+      v_attempted_at := least(coalesce((v_attempt ->> 'attempted_at')::timestamp with time zone, now()), now());
+    exception
+      when invalid_datetime_format or datetime_field_overflow then
+        v_attempted_at := now();
+    end;
+
+    insert into public.scan_attempts (
+      outcome,
+      message,
+      token_fingerprint,
+      reservation_id,
+      screening_id,
+      scanned_by,
+      device_id,
+      client_attempt_id,
+      offline,
+      attempted_at
+    )
+    values (
+      v_outcome,
+      coalesce(v_attempt ->> 'message', ''),
+      public.scan_token_fingerprint(v_attempt ->> 'token'),
+      (select r.id from public.reservations r where r.id::text = v_attempt ->> 'reservation_id'),
+      (select s.id from public.screenings s where s.id::text = v_attempt ->> 'screening_id'),
+      (select p.user_id from public.profiles p where p.user_id = auth.uid()),
+      p_device_id,
+      nullif(trim(v_attempt ->> 'attempt_id'), ''),
+      true,
+      v_attempted_at
+    )
+    on conflict (device_id, client_attempt_id) where client_attempt_id is not null do nothing;
+
+    if found then
+      v_count := v_count + 1;
+    end if;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+comment on function public.log_offline_scan_attempts(text, jsonb) is 'Registra los escaneos rechazados por un dispositivo mientras estaba sin conexión.';
+
+revoke execute on function public.log_offline_scan_attempts(text, jsonb) from public, anon;
+grant execute on function public.log_offline_scan_attempts(text, jsonb) to authenticated;
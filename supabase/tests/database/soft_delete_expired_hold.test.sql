@@ -0,0 +1,70 @@
+-- trashing a pending reservation whose seat hold already ran out. reservations_apply_hold fires before
+-- the soft delete trigger and used to reject the update with CU004. run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(3);
+
+insert into auth.users (id, email)
+values ('00000000-0000-4000-8000-000000000001', 'admin.papelera@uleam.edu.ec');
+
+update public.profiles
+set role = 'admin'
+where user_id = '00000000-0000-4000-8000-000000000001';
+
+insert into public.auditoriums (id, name, row_count, seats_per_row)
+values ('00000000-0000-4000-8000-000000000010', 'Sala de prueba papelera', 2, 5);
+
+insert into public.movies (id, title, duration_minutes)
+values ('00000000-0000-4000-8000-000000000020', 'Película de prueba papelera', 90);
+
+insert into public.screenings (id, movie_id, auditorium_id, starts_at)
+values (
+  '00000000-0000-4000-8000-000000000030',
+  '00000000-0000-4000-8000-000000000020',
+  '00000000-0000-4000-8000-000000000010',
+  now() + interval '1 day'
+);
+
+insert into public.reservations (id, screening_id, user_id, status, seat_label)
+values (
+  '00000000-0000-4000-8000-000000000040',
+  '00000000-0000-4000-8000-000000000030',
+  '00000000-0000-4000-8000-000000000001',
+  'pending',
+  'A1'
+);
+
+-- the hold trigger owns hold_expires_at, so it is backdated with triggers off.
+set local session_replication_role = replica;
+
+update public.reservations
+set hold_expires_at = now() - interval '1 minute'
+where id = '00000000-0000-4000-8000-000000000040';
+
+set local session_replication_role = origin;
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-000000000001", "role": "authenticated"}', true);
+
+select lives_ok(
+  $$update public.reservations set deleted_at = now() where id = '00000000-0000-4000-8000-000000000040'$$,
+  'an admin can trash a pending reservation whose hold expired'
+);
+
+select is(
+  (select status::text from public.reservations where id = '00000000-0000-4000-8000-000000000040'),
+  'cancelled',
+  'the trashed hold is cancelled'
+);
+
+select isnt(
+  (select deleted_at from public.reservations where id = '00000000-0000-4000-8000-000000000040'),
+  null,
+  'the trashed hold is marked as deleted'
+);
+
+select * from finish();
+
+rollback;